@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "GenerationJobStatus" AS ENUM ('queued', 'running', 'succeeded', 'failed');
+
+-- CreateTable
+CREATE TABLE "generation_jobs" (
+    "id" TEXT NOT NULL,
+    "status" "GenerationJobStatus" NOT NULL DEFAULT 'queued',
+    "payload" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "error" TEXT,
+    "sequenceId" TEXT,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "generation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generation_jobs_status_runAt_idx" ON "generation_jobs"("status", "runAt");
+
+-- AddForeignKey
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "message_sequences"("id") ON DELETE SET NULL ON UPDATE CASCADE;
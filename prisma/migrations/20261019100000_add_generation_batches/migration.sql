@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "BatchStatus" AS ENUM ('processing', 'completed');
+
+-- CreateEnum
+CREATE TYPE "BatchItemStatus" AS ENUM ('pending', 'running', 'succeeded', 'failed');
+
+-- CreateTable
+CREATE TABLE "generation_batches" (
+    "id" TEXT NOT NULL,
+    "companyContext" TEXT NOT NULL,
+    "tovConfig" JSONB NOT NULL,
+    "sequenceLength" INTEGER NOT NULL,
+    "status" "BatchStatus" NOT NULL DEFAULT 'processing',
+    "totalItems" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "generation_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "batch_items" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "rowIndex" INTEGER NOT NULL,
+    "prospectUrl" TEXT NOT NULL,
+    "overrides" JSONB,
+    "status" "BatchItemStatus" NOT NULL DEFAULT 'pending',
+    "sequenceId" TEXT,
+    "cached" BOOLEAN NOT NULL DEFAULT false,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "estimatedCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "batch_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "batch_items_batchId_rowIndex_key" ON "batch_items"("batchId", "rowIndex");
+
+-- CreateIndex
+CREATE INDEX "batch_items_batchId_status_idx" ON "batch_items"("batchId", "status");
+
+-- AddForeignKey
+ALTER TABLE "batch_items" ADD CONSTRAINT "batch_items_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "generation_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batch_items" ADD CONSTRAINT "batch_items_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "message_sequences"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "RevisionSource" AS ENUM ('ai_original', 'ai_regeneration');
+
+-- CreateTable
+CREATE TABLE "sequence_revisions" (
+    "id" TEXT NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "step" INTEGER NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "source" "RevisionSource" NOT NULL,
+    "message" TEXT NOT NULL,
+    "reasoning" TEXT NOT NULL,
+    "aiGenerationId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sequence_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sequence_revisions_sequenceId_step_revision_key" ON "sequence_revisions"("sequenceId", "step", "revision");
+
+-- AddForeignKey
+ALTER TABLE "sequence_revisions" ADD CONSTRAINT "sequence_revisions_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "message_sequences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sequence_revisions" ADD CONSTRAINT "sequence_revisions_aiGenerationId_fkey" FOREIGN KEY ("aiGenerationId") REFERENCES "ai_generations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "RevisionSource" ADD VALUE 'human_edit';
+
+-- AlterTable
+ALTER TABLE "sequence_revisions" ADD COLUMN     "editedBy" TEXT;
@@ -0,0 +1,93 @@
+-- CreateTable
+CREATE TABLE "tenants" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tenants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing data predates tenants: it all belongs to one default tenant.
+INSERT INTO "tenants" ("id", "name") VALUES ('00000000-0000-0000-0000-000000000001', 'Default');
+
+-- AddColumn (backfilled through the default, which is then dropped)
+ALTER TABLE "prospects" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "tov_configs" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "message_sequences" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "ai_generations" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "generation_jobs" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "generation_batches" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "idempotency_keys" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+
+ALTER TABLE "prospects" ALTER COLUMN "tenantId" DROP DEFAULT;
+ALTER TABLE "tov_configs" ALTER COLUMN "tenantId" DROP DEFAULT;
+ALTER TABLE "message_sequences" ALTER COLUMN "tenantId" DROP DEFAULT;
+ALTER TABLE "ai_generations" ALTER COLUMN "tenantId" DROP DEFAULT;
+ALTER TABLE "generation_jobs" ALTER COLUMN "tenantId" DROP DEFAULT;
+ALTER TABLE "generation_batches" ALTER COLUMN "tenantId" DROP DEFAULT;
+ALTER TABLE "idempotency_keys" ALTER COLUMN "tenantId" DROP DEFAULT;
+
+-- DropIndex
+DROP INDEX "prospects_linkedinUrl_key";
+
+-- DropIndex
+DROP INDEX "idempotency_keys_key_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_keyHash_key" ON "api_keys"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "api_keys_tenantId_idx" ON "api_keys"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prospects_tenantId_linkedinUrl_key" ON "prospects"("tenantId", "linkedinUrl");
+
+-- CreateIndex
+CREATE INDEX "tov_configs_tenantId_idx" ON "tov_configs"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "message_sequences_tenantId_createdAt_idx" ON "message_sequences"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_generations_tenantId_createdAt_idx" ON "ai_generations"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idempotency_keys_tenantId_key_key" ON "idempotency_keys"("tenantId", "key");
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prospects" ADD CONSTRAINT "prospects_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tov_configs" ADD CONSTRAINT "tov_configs_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_sequences" ADD CONSTRAINT "message_sequences_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_generations" ADD CONSTRAINT "ai_generations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "generation_batches" ADD CONSTRAINT "generation_batches_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "idempotency_keys" ADD CONSTRAINT "idempotency_keys_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "dailyBudgetUsd" DOUBLE PRECISION,
+ADD COLUMN "monthlyBudgetUsd" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN "rateLimitPerMinute" INTEGER,
+ADD COLUMN "rateLimitBurst" INTEGER,
+ADD COLUMN "bucketTokens" DOUBLE PRECISION,
+ADD COLUMN "bucketUpdatedAt" TIMESTAMP(3);
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "AIGenerationStatus" AS ENUM ('succeeded', 'failed');
+
+-- AlterTable
+ALTER TABLE "ai_generations" ALTER COLUMN "sequenceId" DROP NOT NULL,
+ADD COLUMN "attempt" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "repair" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "status" "AIGenerationStatus" NOT NULL DEFAULT 'succeeded',
+ADD COLUMN "error" TEXT;
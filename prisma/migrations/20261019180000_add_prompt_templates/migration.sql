@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "promptVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "ai_generations" ADD COLUMN "promptHash" TEXT;
+
+-- Existing v5.3 generations used exactly the text now registered as v5.3,
+-- so they stay reusable by the cache.
+UPDATE "ai_generations" SET "promptHash" = '2034b6c36f91e029' WHERE "promptVersion" = 'v5.3';
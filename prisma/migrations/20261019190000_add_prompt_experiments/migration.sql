@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "SequenceOutcome" AS ENUM ('no_reply', 'replied', 'positive_reply', 'meeting_booked');
+
+-- CreateEnum
+CREATE TYPE "PromptExperimentStatus" AS ENUM ('active', 'stopped');
+
+-- AlterTable
+ALTER TABLE "message_sequences" ADD COLUMN "outcome" "SequenceOutcome",
+ADD COLUMN "outcomeRecordedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ai_generations" ADD COLUMN "temperature" DOUBLE PRECISION,
+ADD COLUMN "experimentId" TEXT,
+ADD COLUMN "experimentArm" TEXT;
+
+-- Every generation so far ran at the fixed temperature of 0.5.
+UPDATE "ai_generations" SET "temperature" = 0.5;
+
+-- CreateTable
+CREATE TABLE "prompt_experiments" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "PromptExperimentStatus" NOT NULL DEFAULT 'active',
+    "arms" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stoppedAt" TIMESTAMP(3),
+
+    CONSTRAINT "prompt_experiments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prompt_experiments_tenantId_status_idx" ON "prompt_experiments"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "ai_generations_experimentId_experimentArm_idx" ON "ai_generations"("experimentId", "experimentArm");
+
+-- AddForeignKey
+ALTER TABLE "prompt_experiments" ADD CONSTRAINT "prompt_experiments_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_generations" ADD CONSTRAINT "ai_generations_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "prompt_experiments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "RevisionSource" ADD VALUE 'ai_candidate';
+
+-- CreateTable
+CREATE TABLE "sequence_candidates" (
+    "id" TEXT NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "aiGenerationId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "qualityIssues" JSONB NOT NULL,
+    "analysis" JSONB NOT NULL,
+    "messages" JSONB NOT NULL,
+    "selected" BOOLEAN NOT NULL DEFAULT false,
+    "selectedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sequence_candidates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sequence_candidates_aiGenerationId_key" ON "sequence_candidates"("aiGenerationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sequence_candidates_sequenceId_rank_key" ON "sequence_candidates"("sequenceId", "rank");
+
+-- AddForeignKey
+ALTER TABLE "sequence_candidates" ADD CONSTRAINT "sequence_candidates_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "message_sequences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sequence_candidates" ADD CONSTRAINT "sequence_candidates_aiGenerationId_fkey" FOREIGN KEY ("aiGenerationId") REFERENCES "ai_generations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
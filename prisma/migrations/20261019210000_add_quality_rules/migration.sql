@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "qualityRules" JSONB;
+
+-- AlterTable
+ALTER TABLE "message_sequences" ADD COLUMN "triggeredRules" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "sequence_candidates" ADD COLUMN "triggeredRules" JSONB NOT NULL DEFAULT '[]';
+
+-- Left null on earlier generations: they recorded issue strings, not rule
+-- violations, so the cache regenerates them once instead of reporting none.
+-- AlterTable
+ALTER TABLE "ai_generations" ADD COLUMN "qualityRulesHash" TEXT;
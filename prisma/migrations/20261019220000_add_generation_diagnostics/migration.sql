@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ai_generations" ADD COLUMN "diagnostics" JSONB;
+
+-- AlterTable
+ALTER TABLE "message_sequences" ADD COLUMN "diagnostics" JSONB;
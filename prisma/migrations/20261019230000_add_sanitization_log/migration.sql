@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "sanitizationRules" JSONB;
+
+-- AlterTable
+ALTER TABLE "message_sequences" ADD COLUMN "sanitization" JSONB NOT NULL DEFAULT '[]';
+
+-- Left null on earlier generations: their sanitizer edits weren't recorded,
+-- so the cache regenerates them once instead of reporting none.
+-- AlterTable
+ALTER TABLE "ai_generations" ADD COLUMN "sanitizationRulesHash" TEXT,
+ADD COLUMN "sanitization" JSONB;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "message_sequences" ADD COLUMN "channels" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+-- Every earlier sequence was written as LinkedIn DMs.
+UPDATE "message_sequences"
+SET "channels" = array_fill('linkedin_dm'::TEXT, ARRAY["sequenceLength"]);
+
+UPDATE "message_sequences" s
+SET "messages" = (
+  SELECT COALESCE(jsonb_agg(m || '{"channel": "linkedin_dm", "subject": null}'::jsonb ORDER BY i), '[]'::jsonb)
+  FROM jsonb_array_elements(s."messages") WITH ORDINALITY AS t(m, i)
+);
+
+UPDATE "sequence_candidates" c
+SET "messages" = (
+  SELECT COALESCE(jsonb_agg(m || '{"channel": "linkedin_dm", "subject": null}'::jsonb ORDER BY i), '[]'::jsonb)
+  FROM jsonb_array_elements(c."messages") WITH ORDINALITY AS t(m, i)
+);
+
+-- AlterTable
+ALTER TABLE "sequence_revisions" ADD COLUMN "subject" TEXT;
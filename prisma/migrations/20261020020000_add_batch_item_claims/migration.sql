@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "batch_items" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "heartbeatAt" TIMESTAMP(3);
+
+-- Items left running by the in-process runner count as one attempt, with a
+-- heartbeat old enough that the next sweep reclaims them.
+UPDATE "batch_items" SET "attempts" = 1, "heartbeatAt" = "createdAt" WHERE "status" = 'running';
@@ -0,0 +1,14 @@
+-- Keep only each tenant's newest active experiment (the one generations use).
+UPDATE "prompt_experiments" AS e
+SET "status" = 'stopped', "stoppedAt" = NOW()
+WHERE e."status" = 'active'
+  AND EXISTS (
+    SELECT 1 FROM "prompt_experiments" AS newer
+    WHERE newer."tenantId" = e."tenantId"
+      AND newer."status" = 'active'
+      AND (newer."createdAt", newer."id") > (e."createdAt", e."id")
+  );
+
+-- CreateIndex: at most one active experiment per tenant. Prisma can't declare
+-- partial indexes, so this one exists only here.
+CREATE UNIQUE INDEX "prompt_experiments_tenantId_active_key" ON "prompt_experiments"("tenantId") WHERE "status" = 'active';
@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  createApiKeyService,
+  createTenantService,
+  listApiKeysService,
+  listTenantsService,
+  revokeApiKeyService,
+  rotateApiKeyService,
+  updateApiKeyService,
+  updateTenantService,
+} from '../services/apiKeyService';
+
+export const createTenantController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await createTenantService(req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const listTenantsController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listTenantsService();
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateTenantController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await updateTenantService(req.params, req.body);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createApiKeyController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await createApiKeyService(req.params, req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const listApiKeysController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listApiKeysService(req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateApiKeyController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await updateApiKeyService(req.params, req.body);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const rotateApiKeyController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await rotateApiKeyService(req.params, req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeApiKeyController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await revokeApiKeyService(req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  createBatchService,
+  csvToBatchInput,
+  getBatchSummaryService,
+  listBatchItemsService,
+} from '../services/batchService';
+import { withKeyWebhook } from '../services/webhookService';
+import { getAuth, getTenantId } from '../middleware/auth';
+import { createBatchSchema } from '../utils/validation';
+
+export const createBatchController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // CSV uploads carry batch defaults in the query string; JSON carries them in the body.
+    const input = req.is('text/csv')
+      ? csvToBatchInput(String(req.body ?? ''), req.query)
+      : createBatchSchema.parse(req.body);
+    const batch = await createBatchService(getTenantId(req), withKeyWebhook(input, getAuth(req)));
+    res.status(202).json({ ...batch, statusUrl: `/api/batches/${batch.batchId}` });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getBatchSummaryController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await getBatchSummaryService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const listBatchItemsController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listBatchItemsService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { listCandidatesService, selectCandidateService } from '../services/candidateService';
+import { getTenantId } from '../middleware/auth';
+
+export const listCandidatesController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listCandidatesService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const selectCandidateController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await selectCandidateService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
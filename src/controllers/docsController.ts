@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import { getOpenApiDocument } from '../utils/openapi';
+
+export const openApiController = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(getOpenApiDocument());
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Swagger UI from the CDN, pointed at /openapi.json — no UI assets to bundle.
+const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>AI Sequence Generation API — Docs</title>
+    <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js" crossorigin></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: '/openapi.json', dom_id: '#swagger-ui' });
+    </script>
+  </body>
+</html>
+`;
+
+export const docsPageController = (req: Request, res: Response) => {
+  res.type('html').send(DOCS_PAGE);
+};
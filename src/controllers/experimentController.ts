@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  createExperimentService,
+  getExperimentReportService,
+  getExperimentService,
+  listExperimentsService,
+  recordSequenceOutcomeService,
+  stopExperimentService,
+} from '../services/experimentService';
+import { getTenantId } from '../middleware/auth';
+
+export const createExperimentController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await createExperimentService(getTenantId(req), req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const listExperimentsController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listExperimentsService(getTenantId(req));
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getExperimentController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await getExperimentService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const stopExperimentController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await stopExperimentService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getExperimentReportController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await getExperimentReportService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const recordSequenceOutcomeController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await recordSequenceOutcomeService(getTenantId(req), req.params, req.body);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
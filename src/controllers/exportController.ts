@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  exportBatchService,
+  exportSequenceService,
+  exportSequencesService,
+} from '../services/exportService';
+import type { SequenceExport } from '../services/exportService';
+import { getTenantId } from '../middleware/auth';
+
+function sendExport(res: Response, file: SequenceExport) {
+  res
+    .status(200)
+    .type(file.contentType)
+    .attachment(file.filename)
+    .send(file.body);
+}
+
+export const exportSequenceController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    sendExport(res, await exportSequenceService(getTenantId(req), req.params, req.query));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const exportSequencesController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    sendExport(res, await exportSequencesService(getTenantId(req), req.body));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const exportBatchController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    sendExport(res, await exportBatchService(getTenantId(req), req.params, req.query));
+  } catch (error) {
+    next(error);
+  }
+};
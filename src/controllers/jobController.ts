@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from 'express';
+import { getJobService } from '../services/jobService';
+import { getTenantId } from '../middleware/auth';
+
+export const getJobController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await getJobService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  diffPromptTemplatesService,
+  getPromptTemplateService,
+  listPromptTemplatesService,
+} from '../services/promptTemplateService';
+import { getTenantId } from '../middleware/auth';
+
+export const listPromptTemplatesController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listPromptTemplatesService(getTenantId(req));
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPromptTemplateController = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = getPromptTemplateService(req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const diffPromptTemplatesController = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = diffPromptTemplatesService(req.query);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from 'express';
+import { listQualityRulesService } from '../services/qualityRuleService';
+import { getTenantId } from '../middleware/auth';
+
+export const listQualityRulesController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listQualityRulesService(getTenantId(req));
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
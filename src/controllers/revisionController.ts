@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  editStepService,
+  listRevisionsService,
+  regenerateStepService,
+} from '../services/revisionService';
+import { getAuth, getTenantId } from '../middleware/auth';
+
+export const regenerateStepController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await regenerateStepService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const editStepController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { tenantId, apiKeyId } = getAuth(req);
+    const result = await editStepService(tenantId, req.params, req.body, apiKeyId);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const listRevisionsController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listRevisionsService(getTenantId(req), req.params, req.query);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
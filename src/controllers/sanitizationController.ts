@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { listSanitizationRulesService } from '../services/sanitizationRuleService';
+import { revertSanitizationService } from '../services/sanitizationService';
+import { getAuth, getTenantId } from '../middleware/auth';
+
+export const listSanitizationRulesController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listSanitizationRulesService(getTenantId(req));
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revertSanitizationController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { tenantId, apiKeyId } = getAuth(req);
+    const result = await revertSanitizationService(tenantId, req.params, req.body, apiKeyId);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
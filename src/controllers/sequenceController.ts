@@ -1,7 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
-import { generateSequenceService } from '../services/sequenceService';
+import {
+  assertStreamable,
+  generateSequenceService,
+  previewSequenceService,
+  streamSequenceService,
+} from '../services/sequenceService';
+import type { SequenceStreamEvent } from '../services/sequenceService';
+import { getSequenceService, listSequencesService } from '../services/sequenceQueryService';
+import { enqueueGenerationJob } from '../services/jobService';
+import { withKeyWebhook } from '../services/webhookService';
 import { generateSequenceSchema } from '../utils/validation';
 import { ZodError } from 'zod';
+import { AppError } from '../utils/errorHandler';
+import { getAuth, getTenantId } from '../middleware/auth';
 
 export const generateSequenceController = async (
   req: Request,
@@ -10,8 +21,113 @@ export const generateSequenceController = async (
 ) => {
   try {
     // Validation is handled in service, but we can also validate here for early rejection
-    const validatedInput = generateSequenceSchema.parse(req.body);
-    const result = await generateSequenceService(validatedInput);
+    const validatedInput = withKeyWebhook(generateSequenceSchema.parse(req.body), getAuth(req));
+
+    // Job mode: queue the generation and let the worker process it.
+    if (req.query.async === 'true') {
+      const job = await enqueueGenerationJob(getTenantId(req), validatedInput);
+      res.status(202).json({ ...job, statusUrl: `/api/jobs/${job.jobId}` });
+      return;
+    }
+
+    const result = await generateSequenceService(getTenantId(req), validatedInput);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Server-Sent Events variant of generate-sequence. Validation errors are
+ * returned as a normal JSON 400 before the stream opens; failures after that
+ * are reported as an `error` event, since the status line is already sent.
+ */
+export const streamSequenceController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  let validatedInput;
+  try {
+    validatedInput = withKeyWebhook(generateSequenceSchema.parse(req.body), getAuth(req));
+    assertStreamable(validatedInput);
+  } catch (error) {
+    return next(error);
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  // Keep generating if the client disconnects — the result is persisted and
+  // served from the idempotency cache on the next request.
+  // `req` closes as soon as its body has been read, so watch the response:
+  // it closing before res.end() means the client went away.
+  let clientClosed = false;
+  res.on('close', () => {
+    if (!res.writableEnded) clientClosed = true;
+  });
+
+  const send = ({ event, data }: SequenceStreamEvent | { event: 'error'; data: unknown }) => {
+    if (clientClosed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    await streamSequenceService(getTenantId(req), validatedInput, send);
+  } catch (error) {
+    const isAIError = error instanceof AppError && error.code === 'AI_GENERATION_FAILED';
+    console.error('Streaming generation failed', {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    send({
+      event: 'error',
+      data: isAIError
+        ? { error: 'AI generation failed', message: 'Please retry later' }
+        : { error: error instanceof AppError ? error.message : 'Internal server error' },
+    });
+  } finally {
+    res.end();
+  }
+};
+
+export const getSequenceController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await getSequenceService(getTenantId(req), req.params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const listSequencesController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await listSequencesService(getTenantId(req), req.query);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const previewSequenceController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await previewSequenceService(getTenantId(req), req.body);
     res.json(result);
   } catch (error) {
     next(error);
@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import { analyzeStrategyService } from '../services/strategyService';
+
+export const analyzeStrategyController = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = analyzeStrategyService(req.body);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from 'express';
+import { budgetHeaders, getUsageService } from '../services/usageService';
+import { getAuth } from '../middleware/auth';
+
+export const getUsageController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { tenantId, apiKeyId } = getAuth(req);
+    const result = await getUsageService(tenantId, apiKeyId);
+    res.set(budgetHeaders(result.periods)).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,44 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Raw SQL for the generation job queue, kept apart from jobService so the
+ * claim conditions can be checked without a database.
+ */
+
+/**
+ * Claim the next runnable job: queued and due, or running with a stopped
+ * heartbeat (updatedAt before `staleBefore`) and attempts left.
+ * FOR UPDATE SKIP LOCKED lets several workers poll the same table without
+ * blocking each other or claiming the same row twice.
+ */
+export function claimNextJobQuery(staleBefore: Date): Prisma.Sql {
+  return Prisma.sql`
+    UPDATE "generation_jobs"
+    SET "status" = 'running',
+        "attempts" = "attempts" + 1,
+        "startedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "generation_jobs"
+      WHERE ("status" = 'queued' AND "runAt" <= NOW())
+         OR ("status" = 'running' AND "updatedAt" < ${staleBefore} AND "attempts" < "maxAttempts")
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+/** Fail running jobs with a stopped heartbeat and no attempts left; returns the failed rows. */
+export function failExhaustedStaleJobsQuery(staleBefore: Date): Prisma.Sql {
+  return Prisma.sql`
+    UPDATE "generation_jobs"
+    SET "status" = 'failed',
+        "error" = 'Worker stopped responding on the last attempt',
+        "completedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "status" = 'running' AND "updatedAt" < ${staleBefore} AND "attempts" >= "maxAttempts"
+    RETURNING *
+  `;
+}
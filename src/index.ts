@@ -2,18 +2,32 @@ import 'dotenv/config';
 import express from 'express';
 import { errorHandler } from './utils/errorHandler';
 import { sequenceRoutes } from './routes/sequenceRoutes';
+import { jobRoutes } from './routes/jobRoutes';
+import { batchJsonParser, batchRoutes } from './routes/batchRoutes';
+import { strategyRoutes } from './routes/strategyRoutes';
+import { usageRoutes } from './routes/usageRoutes';
+import { promptTemplateRoutes } from './routes/promptTemplateRoutes';
+import { experimentRoutes } from './routes/experimentRoutes';
+import { qualityRuleRoutes } from './routes/qualityRuleRoutes';
+import { sanitizationRuleRoutes } from './routes/sanitizationRuleRoutes';
+import { docsRoutes } from './routes/docsRoutes';
+import { adminRoutes } from './routes/adminRoutes';
+import { requireAdminKey, requireApiKey } from './middleware/auth';
+import { rateLimit } from './middleware/rateLimit';
+import { startBatchSweeper } from './services/batchService';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
+app.use('/api/batches', batchJsonParser);
 app.use(express.json());
 app.set('json spaces', 2);
 
 // Root info endpoint for browsers
 app.get('/', (req, res) => {
   res.send(
-    'AI Sequence Generation API is running. Use GET /health or POST /api/generate-sequence to interact with the service.'
+    'AI Sequence Generation API is running. Use GET /health or POST /api/generate-sequence to interact with the service. API docs: GET /docs.'
   );
 });
 
@@ -22,8 +36,23 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok' });
 });
 
-// Routes
+// API contract (GET /openapi.json) and docs page (GET /docs)
+app.use(docsRoutes);
+
+// Admin API (ADMIN_API_KEY): tenants and their API keys
+app.use('/api/admin', requireAdminKey, adminRoutes);
+
+// Routes — every other /api route needs a tenant API key and is rate limited per key
+app.use('/api', requireApiKey, rateLimit);
 app.use('/api', sequenceRoutes);
+app.use('/api', jobRoutes);
+app.use('/api', batchRoutes);
+app.use('/api', strategyRoutes);
+app.use('/api', usageRoutes);
+app.use('/api', promptTemplateRoutes);
+app.use('/api', experimentRoutes);
+app.use('/api', qualityRuleRoutes);
+app.use('/api', sanitizationRuleRoutes);
 
 // Global error handler
 app.use(errorHandler);
@@ -32,6 +61,7 @@ app.use(errorHandler);
 if (require.main === module) {
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
+    startBatchSweeper();
   });
 }
 
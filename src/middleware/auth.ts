@@ -0,0 +1,78 @@
+import { timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateApiKey } from '../services/apiKeyService';
+import type { AuthContext } from '../services/apiKeyService';
+import { AppError } from '../utils/errorHandler';
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by requireApiKey. */
+      auth?: AuthContext;
+    }
+  }
+}
+
+/**
+ * Authenticate a tenant API key, sent as `Authorization: Bearer <key>` or
+ * `X-API-Key: <key>`, and attach the tenant to `req.auth`.
+ */
+export const requireApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  const key = presentedKey(req);
+  if (!key) {
+    return next(new AppError('API key required', 401, 'AUTHENTICATION_REQUIRED'));
+  }
+
+  try {
+    req.auth = await authenticateApiKey(key);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Guard for the admin API: the presented key must equal ADMIN_API_KEY.
+ * Without ADMIN_API_KEY set the admin API is disabled.
+ */
+export const requireAdminKey = (req: Request, res: Response, next: NextFunction) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return next(new AppError('Admin API is not configured', 403, 'ADMIN_API_DISABLED'));
+  }
+
+  const key = presentedKey(req);
+  if (!key || !constantTimeEquals(key, adminKey)) {
+    return next(new AppError('Invalid admin key', 401, 'INVALID_ADMIN_KEY'));
+  }
+
+  next();
+};
+
+/** Tenant and key of an authenticated request. Only valid behind requireApiKey. */
+export function getAuth(req: Request): AuthContext {
+  if (!req.auth) {
+    throw new AppError('API key required', 401, 'AUTHENTICATION_REQUIRED');
+  }
+  return req.auth;
+}
+
+export function getTenantId(req: Request): string {
+  return getAuth(req).tenantId;
+}
+
+function presentedKey(req: Request): string | undefined {
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || undefined;
+  }
+  return req.get(API_KEY_HEADER)?.trim() || undefined;
+}
+
+function constantTimeEquals(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
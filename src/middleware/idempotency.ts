@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { getTenantId } from './auth';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from '../services/idempotencyService';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// "Try again later" answers are not stored: a retry after the wait should run.
+const RETRY_LATER_STATUSES = new Set([402, 429]);
+
+/**
+ * Honour an optional Idempotency-Key header on a JSON route.
+ *
+ * The first request with a key runs normally and its response (any status
+ * below 500) is stored. Repeats with the same method, path, query and body get
+ * that response back with `Idempotent-Replayed: true` and do no work. 5xx and
+ * 402/429 (budget and rate limits) release the key so the client can retry.
+ * A repeat while the first request is still running gets a 409, also when
+ * the first client has disconnected. A handler that never answers leaves the
+ * key to expire as abandoned.
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === undefined) {
+    return next();
+  }
+
+  let claim;
+  try {
+    claim = await claimIdempotencyKey({
+      tenantId: getTenantId(req),
+      key,
+      method: req.method,
+      path: req.baseUrl + req.path,
+      query: req.query,
+      body: req.body,
+    });
+  } catch (error) {
+    return next(error);
+  }
+
+  const { record } = claim;
+
+  if (claim.outcome === 'replay') {
+    res.set('Idempotent-Replayed', 'true');
+    res.status(record.responseStatus ?? 200).json(record.responseBody);
+    return;
+  }
+
+  // Settle on the handler's response rather than on the socket: a client
+  // that disconnects doesn't stop the work, so the key stays claimed until
+  // the handler answers, and the answer is stored even if nobody receives it.
+  let settled = false;
+  const settle = (status: number, body: unknown) => {
+    if (settled) return;
+    settled = true;
+
+    const done =
+      status < 500 && !RETRY_LATER_STATUSES.has(status)
+        ? completeIdempotencyKey(record.id, status, body)
+        : releaseIdempotencyKey(record.id);
+
+    done.catch((error) => {
+      console.error('Failed to settle idempotency key', {
+        key: record.key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  };
+
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    settle(res.statusCode, body);
+    return json(body);
+  };
+
+  next();
+};
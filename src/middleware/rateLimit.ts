@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  consumeRateLimit,
+  RATE_LIMIT_LIMIT_HEADER,
+  RATE_LIMIT_REMAINING_HEADER,
+} from '../services/usageService';
+
+/**
+ * Per-key token bucket. Runs after requireApiKey; a request without a token
+ * gets 429 with Retry-After. Allowed requests carry the key's limit and
+ * remaining tokens as X-RateLimit-* headers.
+ */
+export const rateLimit = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.auth) {
+    return next();
+  }
+
+  try {
+    const { limit, remaining } = await consumeRateLimit(req.auth.apiKeyId);
+    res.set({
+      [RATE_LIMIT_LIMIT_HEADER]: String(limit),
+      [RATE_LIMIT_REMAINING_HEADER]: String(remaining),
+    });
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
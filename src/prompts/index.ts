@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+import { AppError } from '../utils/errorHandler';
+import { diffLines } from '../utils/wordDiff';
+import type { WordDiff } from '../utils/wordDiff';
+import { PROMPT_PARTS, PROMPT_PART_VARIABLES } from './types';
+import type { PromptPartName, PromptTemplate, PromptTemplateDefinition } from './types';
+import { v5_3 } from './v5.3';
+import { v5_4 } from './v5.4';
+
+export { PROMPT_PARTS } from './types';
+export type { PromptPartName, PromptTemplate, PromptTemplateDefinition } from './types';
+
+/**
+ * Prompt template registry.
+ *
+ * Each prompt version is a file in this directory, registered below. A
+ * version's content hash is stored on every AIGeneration and is part of the
+ * cache key, so a wording change never reuses sequences written by the old
+ * text — even if someone edits a version in place instead of adding one.
+ *
+ * To ship new wording: copy the latest file, edit it, give it a new
+ * `version`, and append it to DEFINITIONS. Which version a generation uses is
+ * chosen per request (`prompt_version`), per tenant (admin API), or
+ * server-wide (PROMPT_VERSION); SERVER_DEFAULT_VERSION is the fallback.
+ * Registering a version never changes the default — moving every tenant
+ * (and invalidating their caches) is a separate, deliberate edit to
+ * SERVER_DEFAULT_VERSION.
+ */
+const DEFINITIONS: PromptTemplateDefinition[] = [v5_3, v5_4];
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+// Short enough to read in logs and listings; collisions between versions are not a concern.
+const CONTENT_HASH_LENGTH = 16;
+
+const TEMPLATES = new Map<string, PromptTemplate>();
+for (const definition of DEFINITIONS) {
+  if (TEMPLATES.has(definition.version)) {
+    throw new Error(`Prompt version "${definition.version}" is registered twice`);
+  }
+  TEMPLATES.set(definition.version, compileTemplate(definition));
+}
+
+/** Version used when neither the request, the tenant, nor PROMPT_VERSION names one. */
+const SERVER_DEFAULT_VERSION = 'v5.3';
+
+if (!TEMPLATES.has(SERVER_DEFAULT_VERSION)) {
+  throw new Error(`Default prompt version "${SERVER_DEFAULT_VERSION}" is not registered`);
+}
+
+/** Server-wide default: PROMPT_VERSION if it names a registered version, else SERVER_DEFAULT_VERSION. */
+export const DEFAULT_PROMPT_VERSION = defaultVersion(process.env.PROMPT_VERSION);
+
+export function isPromptVersion(version: string): boolean {
+  return TEMPLATES.has(version);
+}
+
+/** Registered versions, oldest first. */
+export function listPromptTemplates(): PromptTemplate[] {
+  return [...TEMPLATES.values()];
+}
+
+export function getPromptTemplate(version: string): PromptTemplate {
+  const template = TEMPLATES.get(version);
+  if (!template) {
+    throw new AppError(`Prompt version "${version}" not found`, 404, 'PROMPT_VERSION_NOT_FOUND');
+  }
+  return template;
+}
+
+export function defaultPromptTemplate(): PromptTemplate {
+  return getPromptTemplate(DEFAULT_PROMPT_VERSION);
+}
+
+/**
+ * Fill a part's {{variables}}. Values are inserted as-is and never re-scanned,
+ * so prospect or company text containing braces is safe.
+ */
+export function renderPrompt(
+  template: PromptTemplate,
+  part: PromptPartName,
+  variables: Record<string, string | number> = {}
+): string {
+  return template.parts[part].replace(PLACEHOLDER, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Prompt ${template.version} part "${part}" needs variable "${name}"`);
+    }
+    return String(value);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+export interface PromptPartDiff {
+  part: PromptPartName;
+  variables: { added: string[]; removed: string[] };
+  /** Line-level diff of the part's template text. */
+  diff: WordDiff;
+}
+
+export interface PromptTemplateDiff {
+  from: { version: string; contentHash: string };
+  to: { version: string; contentHash: string };
+  identical: boolean;
+  changedParts: PromptPartDiff[];
+  unchangedParts: PromptPartName[];
+}
+
+export function diffPromptTemplates(from: PromptTemplate, to: PromptTemplate): PromptTemplateDiff {
+  const changedParts: PromptPartDiff[] = [];
+  const unchangedParts: PromptPartName[] = [];
+
+  for (const part of PROMPT_PARTS) {
+    if (from.parts[part] === to.parts[part]) {
+      unchangedParts.push(part);
+      continue;
+    }
+
+    const before = new Set(from.variables[part]);
+    const after = new Set(to.variables[part]);
+    changedParts.push({
+      part,
+      variables: {
+        added: [...after].filter((name) => !before.has(name)),
+        removed: [...before].filter((name) => !after.has(name)),
+      },
+      diff: diffLines(from.parts[part], to.parts[part]),
+    });
+  }
+
+  return {
+    from: { version: from.version, contentHash: from.contentHash },
+    to: { version: to.version, contentHash: to.contentHash },
+    identical: from.contentHash === to.contentHash,
+    changedParts,
+    unchangedParts,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a definition and derive its hash and variables. Runs at startup,
+ * so a template using a variable aiService does not supply fails the boot,
+ * not a generation.
+ */
+function compileTemplate(definition: PromptTemplateDefinition): PromptTemplate {
+  const variables = {} as Record<PromptPartName, string[]>;
+
+  for (const part of PROMPT_PARTS) {
+    const text = definition.parts[part];
+    if (typeof text !== 'string') {
+      throw new Error(`Prompt ${definition.version} is missing part "${part}"`);
+    }
+
+    const used = [...new Set([...text.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+    const unknown = used.filter((name) => !PROMPT_PART_VARIABLES[part].includes(name));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Prompt ${definition.version} part "${part}" uses unknown variables: ${unknown.join(', ')}`
+      );
+    }
+    variables[part] = used;
+  }
+
+  const contentHash = createHash('sha256')
+    .update(JSON.stringify(PROMPT_PARTS.map((part) => [part, definition.parts[part]])))
+    .digest('hex')
+    .slice(0, CONTENT_HASH_LENGTH);
+
+  return { ...definition, contentHash, variables };
+}
+
+function defaultVersion(configured: string | undefined): string {
+  const version = configured?.trim();
+  if (!version) return SERVER_DEFAULT_VERSION;
+
+  if (!TEMPLATES.has(version)) {
+    console.warn(`Unknown PROMPT_VERSION "${version}". Falling back to "${SERVER_DEFAULT_VERSION}".`);
+    return SERVER_DEFAULT_VERSION;
+  }
+  return version;
+}
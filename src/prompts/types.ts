@@ -0,0 +1,84 @@
+/**
+ * Named pieces of prompt text. aiService decides which parts a call uses and
+ * fills their {{variables}}; a template version only supplies the wording.
+ */
+export const PROMPT_PARTS = [
+  'system',
+  'user',
+  'step_progression',
+  'step_system',
+  'step_user',
+  'greeting_first_step',
+  'greeting_later_step',
+  'grounding_context',
+  'persona_signal',
+  'context_keywords',
+  'layer_single',
+  'layer_observation',
+  'layer_spotlight',
+  'layer_cause',
+  'layer_improvement',
+  'layer_social_proof',
+  'layer_expansion',
+  'layer_follow_up',
+] as const;
+
+export type PromptPartName = (typeof PROMPT_PARTS)[number];
+
+/** Variables aiService supplies to each part. A part may use any subset. */
+export const PROMPT_PART_VARIABLES: Record<PromptPartName, readonly string[]> = {
+  system: ['sequence_length', 'step_progression', 'channel_plan'],
+  user: ['sequence_length', 'grounding_context'],
+  step_progression: ['steps'],
+  step_system: ['step', 'sequence_length', 'greeting_rule', 'layer', 'channel_rule'],
+  step_user: [
+    'step',
+    'sequence_length',
+    'grounding_context',
+    'value_proposition',
+    'personalization_hooks',
+    'current_sequence',
+  ],
+  greeting_first_step: [],
+  greeting_later_step: [],
+  grounding_context: [
+    'name',
+    'headline',
+    'company',
+    'role_category',
+    'seniority',
+    'skills',
+    'responsibilities',
+    'experience',
+    'persona_signal',
+    'company_context',
+    'context_keywords',
+    'tone',
+    'friction_block',
+  ],
+  persona_signal: ['target_persona', 'role_category'],
+  context_keywords: ['keywords'],
+  layer_single: [],
+  layer_observation: [],
+  layer_spotlight: [],
+  layer_cause: [],
+  layer_improvement: [],
+  layer_social_proof: [],
+  layer_expansion: [],
+  layer_follow_up: [],
+};
+
+/** One prompt version as written in src/prompts/<version>.ts. */
+export interface PromptTemplateDefinition {
+  /** Stored on every AIGeneration row as promptVersion. */
+  version: string;
+  description: string;
+  parts: Record<PromptPartName, string>;
+}
+
+export interface PromptTemplate extends PromptTemplateDefinition {
+  /** Hash of every part's text. Any wording change produces a new hash. */
+  contentHash: string;
+  /** Variables each part actually uses, in order of first use. */
+  variables: Record<PromptPartName, string[]>;
+}
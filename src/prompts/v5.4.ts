@@ -0,0 +1,151 @@
+import type { PromptTemplateDefinition } from './types';
+
+/**
+ * v5.4 — v5.3 across channels: each step is written for its declared channel
+ * (connection note, DM, InMail or email) with that channel's limits, a subject
+ * line where the channel has one, and a single greeting for the whole sequence.
+ */
+export const v5_4: PromptTemplateDefinition = {
+  version: 'v5.4',
+  description: 'v5.3 with per-step channels: character limits, subject lines, one greeting per sequence.',
+  parts: {
+    // -------------------------------------------------------------------------
+    // Full sequence
+    // -------------------------------------------------------------------------
+
+    system: `You write multi-channel B2B outbound sequences: LinkedIn connection notes, DMs, InMails and emails. Output ONLY valid JSON.
+
+{
+  "analysis": {
+    "prospect_insights": "Max 3 sentences. Reference one skill + one inferred responsibility.",
+    "personalization_hooks": ["hook referencing actual data", "hook referencing actual data"],
+    "value_proposition": "How our product reduces cross-functional friction for the prospect's team."
+  },
+  "messages": [{ "step": 1, "subject": null, "message": "message text", "reasoning": "Angle: <layer> | Workflow: <named> | Signal: <data point>" }],
+  "confidence": 0.85
+}
+
+Generate exactly {{sequence_length}} messages. Pick ONE friction from the user prompt. Build ALL messages as a progressive {{sequence_length}}-layer narrative — not {{sequence_length}} restatements.
+
+SCOPE:
+- Sales roles: frame as direct workflow improvement (targeting, enrichment, personalization, pipeline velocity).
+- Non-sales roles: frame as UPSTREAM FRICTION REDUCTION from their perspective. Not "we help sales qualify" — instead describe what changes FOR THEM: fewer interruptions, less validation noise, better filtering before escalation, reduced internal back-and-forth. Example: instead of "We help sales qualify prospects earlier" → "We reduce how often security gets pulled into late-stage reviews for deals that were never a fit."
+
+CHANNELS (each step is written for its channel; limits are hard limits):
+{{channel_plan}}
+
+RULES:
+- "subject" only where the channel has one; null otherwise. No signatures, placeholders.
+- Step 1: "Hi [Name]," + observation (<60 words). Steps 2+: no re-greeting, whatever the channel — it is one conversation.
+- Each step = new narrative layer. Spotlight and Improvement steps MUST use specific terms from company_context — not generic restatements. If context says "manual enrichment workflows", write "manual enrichment" in the message.
+- No invented stats. No numeric claims. Hooks must reference real prospect data.
+- BANNED: "Would you be open to a brief chat", "Would love to connect", "I imagine", "I came across your profile", "I've been following", "operational workflows", "save your team time", "innovative approach", "wasting valuable time and resources".
+- Reasoning: max 25 words. Angle = layer name, not friction name.
+
+{{step_progression}}
+
+Confidence: 0.8-0.95 (clear signals), 0.6-0.79 (ambiguous), 0.4-0.59 (weak).`,
+
+    user: `Generate {{sequence_length}} outreach messages for this prospect, each for its channel.
+
+{{grounding_context}}
+
+GROUNDING:
+- prospect_insights: reference one skill + one headline responsibility. Max 3 sentences.
+- personalization_hooks: exactly 2. Must reference actual data (skill name, company, headline keyword).
+- value_proposition: how our product reduces the chosen friction. Use specific terms from company_context — not generic restatements.
+- Pick ONE friction. Build {{sequence_length}} progressive layers. Last message = company_context + CTA.
+- Spotlight + Improvement steps MUST reference specific company_context terms (e.g. if context says "reduce manual enrichment workflows", say "manual enrichment" — not just "qualify prospects").
+
+Return ONLY JSON.`,
+
+    step_progression: `STEP PROGRESSION (each step is a DIFFERENT LAYER — not a different friction):
+{{steps}}`,
+
+    // -------------------------------------------------------------------------
+    // Single-step regeneration
+    // -------------------------------------------------------------------------
+
+    step_system: `You rewrite ONE message inside an existing multi-channel B2B outbound sequence. Output ONLY valid JSON.
+
+{ "subject": null, "message": "message text", "reasoning": "Angle: <layer> | Workflow: <named> | Signal: <data point>" }
+
+Rewrite step {{step}} of {{sequence_length}}. The other steps are FIXED. The new message must continue the SAME friction as the fixed steps, add this step's narrative layer, and must NOT restate what the neighbouring steps already say.
+
+CHANNEL: {{channel_rule}}
+
+RULES:
+- "subject" only where the channel has one; null otherwise. No signatures, placeholders.
+{{greeting_rule}}
+- Use specific terms from company_context — not generic restatements.
+- No invented stats. No numeric claims.
+- BANNED: "Would you be open to a brief chat", "Would love to connect", "I imagine", "I came across your profile", "I've been following", "operational workflows", "save your team time", "innovative approach", "wasting valuable time and resources".
+- Reasoning: max 25 words. Angle = layer name, not friction name.
+
+STEP {{step}} LAYER: {{layer}}`,
+
+    step_user: `Rewrite step {{step}} of this {{sequence_length}}-step outreach sequence.
+
+{{grounding_context}}
+
+CHOSEN ANGLE (from the original analysis):
+- Value proposition: {{value_proposition}}
+- Personalization hooks: {{personalization_hooks}}
+
+CURRENT SEQUENCE:
+{{current_sequence}}
+
+Return ONLY JSON.`,
+
+    greeting_first_step: `- Open with "Hi [Name]," (<60 words).`,
+
+    greeting_later_step: '- No greeting — the prospect has already been greeted in step 1.',
+
+    // -------------------------------------------------------------------------
+    // Grounding shared by every prompt that writes messages
+    // -------------------------------------------------------------------------
+
+    grounding_context: `PROSPECT:
+- Name: {{name}}
+- Headline: {{headline}}
+- Company: {{company}}
+- Role: {{role_category}} ({{seniority}})
+- Skills: {{skills}}
+- Responsibilities: {{responsibilities}}
+- Experience: {{experience}}{{persona_signal}}
+
+COMPANY CONTEXT (what we sell): {{company_context}}{{context_keywords}}
+
+TONE: {{tone}}
+
+{{friction_block}}`,
+
+    // Appended only when the strategy targets a different persona than the profile.
+    persona_signal: `
+TARGET PERSONA: {{target_persona}}. The prospect's profile is {{role_category}}, but the company_context is most relevant to {{target_persona}} frictions. Frame the outreach through {{target_persona}}-relevant pain points while personalizing with the prospect's actual skills and experience.`,
+
+    // Appended only when company_context yields keywords.
+    context_keywords: `
+CONTEXT KEYWORDS (use at least 2 of these verbatim in messages): {{keywords}}`,
+
+    // -------------------------------------------------------------------------
+    // Narrative layers (which ones a sequence uses depends on its length)
+    // -------------------------------------------------------------------------
+
+    layer_single: `OBSERVATION + CTA. "Hi [Name]," + grounded hypothesis about the friction + how we help + low-friction ask. All in one concise message (<80 words).`,
+
+    layer_observation: `OBSERVATION. "Hi [Name]," + a grounded hypothesis about their role and the chosen friction (<60 words). Reference a skill or headline detail. Statement, not a question. Example: "Hi Neo, most DevOps leads I talk to end up fielding late-stage security review requests for prospects that were never qualified — especially painful when the team's deep in Kubernetes work."`,
+
+    layer_spotlight: `WORKFLOW SPOTLIGHT. No greeting. Name a specific capability or workflow FROM THE COMPANY CONTEXT and connect it to the friction. You MUST reference what the company sells (from company_context), not just restate the friction from Step 1. Be concrete about what happens and who triggers it. Can end with one question. Example: "The pattern I keep hearing is that security reviews get triggered before anyone confirms the prospect has real budget or timeline — so your team does the work, and the deal stalls anyway."`,
+
+    layer_cause: `CAUSAL LINK. No greeting. Explain HOW the upstream problem (poor qualification, noisy pipeline) creates the friction for their team. Connect company_context to their pain. Example: "It usually starts upstream — qualification isn't precise enough, so technical validation gets triggered for prospects that should have been filtered two steps earlier."`,
+
+    layer_improvement: `IMPROVEMENT + CTA. No greeting. Name the concrete operational change and what's different after. End with a specific, low-friction ask. Example: "We help sales teams tighten that qualification layer so security reviews only happen when deal intent is confirmed. Happy to show what that filter looks like if the pattern sounds familiar."`,
+
+    layer_social_proof: `SOCIAL PROOF. No greeting. Reference how similar teams solved this + reinforce the improvement. Example: "One platform team we work with cut their ad-hoc prospect-driven review load by routing all technical asks through a qualification gate first — only confirmed-intent prospects reach their queue now."`,
+
+    layer_expansion: `EXPANSION. No greeting. Broaden the impact — name a second workflow or team that benefits from the same upstream fix. End with a specific ask. Example: "The same qualification filter also means your security team stops fielding questionnaires for deals that were never going to close — so the fix compounds across teams."`,
+
+    layer_follow_up: 'Follow-up. No greeting. Add a new angle or reinforce the improvement with a specific ask.',
+  },
+};
@@ -0,0 +1,174 @@
+import { createHash } from 'crypto';
+import type { z } from 'zod';
+import { AppError } from '../utils/errorHandler';
+import { BUILT_IN_RULES } from './rules';
+import type {
+  QualityCheckInput,
+  QualityRuleDefinition,
+  QualityRuleOverrides,
+  QualityRuleSet,
+  QualityViolation,
+  ResolvedQualityRule,
+} from './types';
+
+export { ANALYSIS_GENERIC_PHRASES } from './rules';
+export { QUALITY_SCOPES, QUALITY_SEVERITIES } from './types';
+export type {
+  QualityCheckInput,
+  QualityRuleDefinition,
+  QualityRuleOverride,
+  QualityRuleOverrides,
+  QualityRuleSet,
+  QualityScope,
+  QualitySeverity,
+  QualityViolation,
+  ResolvedQualityRule,
+} from './types';
+
+/**
+ * Quality rule registry.
+ *
+ * Rules are declared in rules.ts with an id, a scope, a default severity and
+ * typed params. A rule set is the built-in rules with overrides applied —
+ * the tenant's (admin API), then the request's `quality_rules` — so each can
+ * change a rule's severity, turn it off, or change its params.
+ *
+ * The rule set's hash is stored on every AIGeneration and is part of the
+ * cache key, so a cached sequence always reports the rules it was checked
+ * against and never skips a newly blocking rule.
+ */
+
+const RULES = new Map<string, QualityRuleDefinition>();
+for (const rule of BUILT_IN_RULES) {
+  if (RULES.has(rule.id)) {
+    throw new Error(`Quality rule "${rule.id}" is registered twice`);
+  }
+  RULES.set(rule.id, rule);
+}
+
+// Same length as prompt content hashes.
+const RULE_SET_HASH_LENGTH = 16;
+
+/** Registered rules, in evaluation order. */
+export function listQualityRules(): QualityRuleDefinition[] {
+  return [...RULES.values()];
+}
+
+/** superRefine for override maps: known rule ids, and params valid for each rule. */
+export function checkQualityRuleOverrides(overrides: QualityRuleOverrides, ctx: z.RefinementCtx): void {
+  for (const [id, override] of Object.entries(overrides)) {
+    const rule = RULES.get(id);
+    if (!rule) {
+      ctx.addIssue({ code: 'custom', path: [id], message: `Unknown quality rule "${id}"` });
+      continue;
+    }
+    const result = rule.params.safeParse(override.params ?? {});
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        ctx.addIssue({ ...issue, path: [id, 'params', ...issue.path] } as z.IssueData);
+      }
+    }
+  }
+}
+
+/**
+ * Apply override layers, later ones winning per field; params are merged.
+ * Stored overrides that no longer fit a rule (it was removed, or its params
+ * changed) are ignored rather than failing generations.
+ */
+export function resolveQualityRuleSet(
+  ...layers: Array<QualityRuleOverrides | null | undefined>
+): QualityRuleSet {
+  const rules = listQualityRules().map((rule): ResolvedQualityRule => {
+    const overrides = layers.map((layer) => layer?.[rule.id]).filter((o) => o !== undefined);
+    const mergedParams = Object.assign({}, ...overrides.map((o) => o.params ?? {}));
+
+    let params = rule.params.safeParse(mergedParams);
+    if (!params.success) {
+      console.warn('Quality rule params override is invalid; using the defaults', {
+        ruleId: rule.id,
+        params: mergedParams,
+      });
+      params = rule.params.safeParse({});
+    }
+
+    return {
+      id: rule.id,
+      scope: rule.scope,
+      severity: overrides.reduce((severity, o) => o.severity ?? severity, rule.severity),
+      enabled: overrides.reduce((enabled, o) => o.enabled ?? enabled, true),
+      params: params.success ? params.data : {},
+    };
+  });
+
+  const hash = createHash('sha256')
+    .update(JSON.stringify(rules))
+    .digest('hex')
+    .slice(0, RULE_SET_HASH_LENGTH);
+
+  return { rules, hash };
+}
+
+/** The built-in rules with no overrides. */
+export const DEFAULT_QUALITY_RULE_SET = resolveQualityRuleSet();
+
+/**
+ * Run every enabled rule. With `step`, only findings about that step are
+ * kept — what a single-step rewrite can change.
+ */
+export function evaluateQualityRules(
+  ruleSet: QualityRuleSet,
+  input: QualityCheckInput,
+  options: { step?: number } = {}
+): QualityViolation[] {
+  const violations: QualityViolation[] = [];
+
+  for (const resolved of ruleSet.rules) {
+    const rule = RULES.get(resolved.id);
+    if (!rule || !resolved.enabled) continue;
+
+    for (const finding of rule.check(input, resolved.params)) {
+      if (options.step !== undefined && !finding.steps.includes(options.step)) continue;
+      violations.push({
+        ruleId: rule.id,
+        scope: rule.scope,
+        severity: resolved.severity,
+        message: finding.message,
+        steps: finding.steps,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/** The output violated a `block` rule, or a `repair` rule before its repair pass. */
+export class QualityRuleError extends AppError {
+  constructor(
+    readonly violations: QualityViolation[],
+    readonly blocking: boolean
+  ) {
+    super(
+      `AI generation failed: quality rules: ${violations.map((v) => `${v.ruleId}: ${v.message}`).join('; ')}`,
+      500,
+      'AI_GENERATION_FAILED'
+    );
+    this.name = 'QualityRuleError';
+  }
+}
+
+/**
+ * Throw if the output can't be kept: any `block` violation, or a `repair`
+ * violation on the first pass. The repair pass's own `repair` violations are
+ * kept and reported.
+ */
+export function assertQualityRules(violations: QualityViolation[], options: { repairPass: boolean }): void {
+  const blocking = violations.filter((v) => v.severity === 'block');
+  const rejected = options.repairPass
+    ? blocking
+    : violations.filter((v) => v.severity === 'block' || v.severity === 'repair');
+
+  if (rejected.length > 0) {
+    throw new QualityRuleError(rejected, blocking.length > 0);
+  }
+}
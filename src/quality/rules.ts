@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import {
+  extractContentWords,
+  extractContextKeywords,
+  extractLabel,
+  hits,
+  isSales,
+  str,
+} from '../utils/textSignals';
+import type { QualityCheckInput, QualityFinding, QualityRuleDefinition } from './types';
+
+/**
+ * Built-in quality rules. Every default severity is `warn`, which keeps
+ * output as it is and only reports the finding.
+ */
+
+// Only flag the truly egregious claims — outbound cannot touch these systems.
+const HARD_DOMAIN_CLAIMS = [
+  'improve ci/cd', 'improve deployment', 'improve backend performance',
+  'improve threat modeling', 'improve security controls',
+  'enhance infrastructure', 'boost reliability',
+];
+
+// Generic marketing-speak in messages.
+const GENERIC_FILLER_PHRASES = [
+  'would you be open to a brief chat', 'would love to connect',
+  'let me know if you\'d be interested', 'can we schedule a call',
+  'happy to chat', 'i\'ve been following', 'i came across your profile',
+  'innovative approach', 'i imagine', 'i can see how',
+  'cross-team collaboration', 'this could help',
+];
+
+// Also the confidence penalty in aiService, which rule overrides don't change.
+export const ANALYSIS_GENERIC_PHRASES = [
+  'industry-leading', 'unlock new opportunities', 'drive growth',
+  'transform your business',
+];
+
+const PERCENTAGE = /\d+%/;
+
+/** Keeps each rule's params typed against its own schema. */
+function defineRule<P extends z.AnyZodObject>(rule: QualityRuleDefinition<P>): QualityRuleDefinition {
+  return rule as unknown as QualityRuleDefinition;
+}
+
+const phrasesParams = (defaults: string[]) =>
+  z.object({ phrases: z.array(z.string().trim().min(1)).default(defaults) }).strict();
+
+/** One finding per message that fails `test`. */
+function eachMessage(
+  input: QualityCheckInput,
+  test: (message: QualityCheckInput['messages'][number]) => string | null
+): QualityFinding[] {
+  return input.messages.flatMap((msg) => {
+    const finding = test(msg);
+    return finding ? [{ message: finding, steps: [msg.step] }] : [];
+  });
+}
+
+const analysisFinding = (condition: boolean, message: string): QualityFinding[] =>
+  condition ? [{ message, steps: [] }] : [];
+
+export const BUILT_IN_RULES: QualityRuleDefinition[] = [
+  // --- analysis ---
+  defineRule({
+    id: 'analysis.percentage_claims',
+    scope: 'analysis',
+    description: 'No invented percentage statistics in prospect_insights or value_proposition.',
+    severity: 'warn',
+    params: z.object({}).strict(),
+    check: ({ analysis }) =>
+      analysisFinding(
+        PERCENTAGE.test(str(analysis.prospect_insights)) || PERCENTAGE.test(str(analysis.value_proposition)),
+        'analysis contains numeric percentage claims'
+      ),
+  }),
+  defineRule({
+    id: 'analysis.skill_reference',
+    scope: 'analysis',
+    description: 'prospect_insights names at least one of the prospect\'s skills.',
+    severity: 'warn',
+    params: z.object({}).strict(),
+    check: ({ analysis, prospect }) => {
+      const skills = prospect.skills.map((s) => s.toLowerCase());
+      return analysisFinding(
+        skills.length > 0 && !hits(str(analysis.prospect_insights), skills),
+        'prospect_insights should reference at least one skill'
+      );
+    },
+  }),
+  defineRule({
+    id: 'analysis.generic_phrasing',
+    scope: 'analysis',
+    description: 'prospect_insights avoids generic marketing phrases.',
+    severity: 'warn',
+    params: phrasesParams(ANALYSIS_GENERIC_PHRASES),
+    check: ({ analysis }, { phrases }) =>
+      analysisFinding(hits(str(analysis.prospect_insights), phrases), 'prospect_insights contains generic phrasing'),
+  }),
+  defineRule({
+    id: 'analysis.domain_claims',
+    scope: 'analysis',
+    description: 'value_proposition claims no improvement to core technical systems (skipped for sales roles).',
+    severity: 'warn',
+    params: phrasesParams(HARD_DOMAIN_CLAIMS),
+    check: ({ analysis, prospect }, { phrases }) =>
+      analysisFinding(
+        !isSales(prospect.roleCategory) && hits(str(analysis.value_proposition), phrases),
+        'value_proposition claims improvement to core technical system'
+      ),
+  }),
+
+  // --- message ---
+  defineRule({
+    id: 'message.percentage_claims',
+    scope: 'message',
+    description: 'No invented percentage statistics in a message.',
+    severity: 'warn',
+    params: z.object({}).strict(),
+    check: (input) =>
+      eachMessage(input, (msg) =>
+        PERCENTAGE.test(str(msg.message)) ? `message ${msg.step} contains numeric percentage claim` : null
+      ),
+  }),
+  defineRule({
+    id: 'message.generic_filler',
+    scope: 'message',
+    description: 'No generic outreach filler.',
+    severity: 'warn',
+    params: phrasesParams(GENERIC_FILLER_PHRASES),
+    check: (input, { phrases }) =>
+      eachMessage(input, (msg) =>
+        hits(str(msg.message), phrases) ? `message ${msg.step} contains generic filler` : null
+      ),
+  }),
+  defineRule({
+    id: 'message.domain_claims',
+    scope: 'message',
+    description: 'No claimed improvement to core technical systems (skipped for sales roles).',
+    severity: 'warn',
+    params: phrasesParams(HARD_DOMAIN_CLAIMS),
+    check: (input, { phrases }) =>
+      isSales(input.prospect.roleCategory)
+        ? []
+        : eachMessage(input, (msg) =>
+            hits(str(msg.message), phrases)
+              ? `message ${msg.step} claims improvement to core technical system`
+              : null
+          ),
+  }),
+  defineRule({
+    id: 'message.vague_signal',
+    scope: 'message',
+    description: 'The reasoning Signal names something concrete. The label format itself is enforced by the output schema.',
+    severity: 'warn',
+    params: z.object({ minLength: z.number().int().min(1).default(3) }).strict(),
+    check: (input, { minLength }) =>
+      eachMessage(input, (msg) =>
+        extractLabel(msg.reasoning.toLowerCase(), 'signal').length < minLength
+          ? `message ${msg.step} reasoning Signal too vague (should mention a concrete profile element)`
+          : null
+      ),
+  }),
+
+  // --- step ---
+  defineRule({
+    id: 'step.first_message_length',
+    scope: 'step',
+    description: 'The opening message stays short.',
+    severity: 'warn',
+    params: z.object({ maxWords: z.number().int().min(1).default(60) }).strict(),
+    check: ({ messages }, { maxWords }) => {
+      const first = messages.find((m) => m.step === 1);
+      const wordCount = first ? first.message.trim().split(/\s+/).length : 0;
+      return wordCount > maxWords
+        ? [{ message: `message 1 exceeds ${maxWords} words (${wordCount})`, steps: [1] }]
+        : [];
+    },
+  }),
+  defineRule({
+    id: 'step.all_questions',
+    scope: 'step',
+    description: 'Not every step ends with a question.',
+    severity: 'warn',
+    params: z.object({}).strict(),
+    check: ({ messages }) =>
+      messages.length >= 2 && messages.every((m) => m.message.trim().endsWith('?'))
+        ? [{ message: 'all messages end with questions — need progressive narrative layers', steps: [] }]
+        : [],
+  }),
+  defineRule({
+    id: 'step.context_coverage',
+    scope: 'step',
+    description: 'The steps and value_proposition use company_context keywords.',
+    severity: 'warn',
+    params: z.object({ minKeywords: z.number().int().min(1).default(2) }).strict(),
+    check: ({ analysis, messages, companyContext }, { minKeywords }) => {
+      const ctxKeywords = extractContextKeywords(companyContext);
+      if (ctxKeywords.length === 0) return [];
+
+      const allMessageText = messages.map((m) => str(m.message)).join(' ') + ' ' + str(analysis.value_proposition);
+      const matched = ctxKeywords.filter((kw) => allMessageText.includes(kw.toLowerCase()));
+      if (matched.length === 0) {
+        return [{ message: 'no messages reference specific company_context terms — output may be too generic', steps: [] }];
+      }
+      if (matched.length < minKeywords && ctxKeywords.length > minKeywords) {
+        return [{
+          message: `only ${matched.length} context keyword(s) referenced (expected ≥${minKeywords}): ${matched.join(', ')}`,
+          steps: [],
+        }];
+      }
+      return [];
+    },
+  }),
+  defineRule({
+    id: 'step.restatement',
+    scope: 'step',
+    description: 'Neighbouring steps don\'t restate each other.',
+    severity: 'warn',
+    params: z.object({ maxOverlap: z.number().min(0).max(1).default(0.5) }).strict(),
+    check: ({ messages }, { maxOverlap }) => {
+      const findings: QualityFinding[] = [];
+      for (let i = 1; i < messages.length; i++) {
+        const prevWords = extractContentWords(str(messages[i - 1].message));
+        const currWords = extractContentWords(str(messages[i].message));
+        if (prevWords.size === 0 || currWords.size === 0) continue;
+
+        let overlap = 0;
+        for (const w of currWords) {
+          if (prevWords.has(w)) overlap++;
+        }
+        const ratio = overlap / Math.min(prevWords.size, currWords.size);
+        if (ratio > maxOverlap) {
+          const [prev, curr] = [messages[i - 1].step, messages[i].step];
+          findings.push({
+            message: `messages ${prev} and ${curr} are too similar (${Math.round(ratio * 100)}% overlap)`,
+            steps: [prev, curr],
+          });
+        }
+      }
+      return findings;
+    },
+  }),
+];
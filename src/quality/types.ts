@@ -0,0 +1,81 @@
+import type { z } from 'zod';
+import type { ProspectProfile } from '../utils/linkedinParser';
+
+/**
+ * What a rule looks at:
+ * - `analysis`: the analysis block
+ * - `message`: each message on its own
+ * - `step`: steps in their position — limits for a given step and how
+ *   neighbouring steps relate
+ */
+export const QUALITY_SCOPES = ['analysis', 'message', 'step'] as const;
+export type QualityScope = (typeof QUALITY_SCOPES)[number];
+
+/**
+ * What a violation does to the output:
+ * - `block`: rejected; sent back once for a fix, then the next model is
+ *   tried, and the generation fails if none passes
+ * - `repair`: sent back once for a fix; what comes back is kept either way
+ * - `warn`: kept and reported
+ */
+export const QUALITY_SEVERITIES = ['block', 'repair', 'warn'] as const;
+export type QualitySeverity = (typeof QUALITY_SEVERITIES)[number];
+
+/** The output being checked and what it should be grounded in. */
+export interface QualityCheckInput {
+  analysis: Record<string, any>;
+  messages: Array<{ step: number; message: string; reasoning: string }>;
+  prospect: ProspectProfile;
+  companyContext: string;
+}
+
+export interface QualityFinding {
+  message: string;
+  /** Steps the finding is about; empty for the analysis or the sequence as a whole. */
+  steps: number[];
+}
+
+export interface QualityRuleDefinition<P extends z.AnyZodObject = z.AnyZodObject> {
+  /** Stable id, `<scope>.<name>`. Used in overrides and reported with violations. */
+  id: string;
+  scope: QualityScope;
+  description: string;
+  /** Severity when no override sets one. */
+  severity: QualitySeverity;
+  /** Strict schema with a default for every param. */
+  params: P;
+  check: (input: QualityCheckInput, params: z.infer<P>) => QualityFinding[];
+}
+
+/** Per-rule override, from the tenant or the request. */
+export interface QualityRuleOverride {
+  severity?: QualitySeverity;
+  enabled?: boolean;
+  params?: Record<string, unknown>;
+}
+
+export type QualityRuleOverrides = Record<string, QualityRuleOverride>;
+
+/** A rule with its overrides applied. */
+export interface ResolvedQualityRule {
+  id: string;
+  scope: QualityScope;
+  severity: QualitySeverity;
+  enabled: boolean;
+  params: Record<string, unknown>;
+}
+
+/** The rules one generation is checked against. */
+export interface QualityRuleSet {
+  rules: ResolvedQualityRule[];
+  /** Content hash of the resolved rules; part of the cache key. */
+  hash: string;
+}
+
+export interface QualityViolation {
+  ruleId: string;
+  scope: QualityScope;
+  severity: QualitySeverity;
+  message: string;
+  steps: number[];
+}
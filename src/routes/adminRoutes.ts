@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+  createApiKeyController,
+  createTenantController,
+  listApiKeysController,
+  listTenantsController,
+  revokeApiKeyController,
+  rotateApiKeyController,
+  updateApiKeyController,
+  updateTenantController,
+} from '../controllers/adminController';
+
+// Mounted at /api/admin behind requireAdminKey.
+export const adminRoutes = Router();
+
+adminRoutes.post('/tenants', createTenantController);
+adminRoutes.get('/tenants', listTenantsController);
+adminRoutes.patch('/tenants/:id', updateTenantController);
+adminRoutes.post('/tenants/:id/api-keys', createApiKeyController);
+adminRoutes.get('/tenants/:id/api-keys', listApiKeysController);
+adminRoutes.patch('/api-keys/:id', updateApiKeyController);
+adminRoutes.post('/api-keys/:id/rotate', rotateApiKeyController);
+adminRoutes.delete('/api-keys/:id', revokeApiKeyController);
@@ -0,0 +1,29 @@
+import express, { Router } from 'express';
+import {
+  createBatchController,
+  getBatchSummaryController,
+  listBatchItemsController,
+} from '../controllers/batchController';
+import { exportBatchController } from '../controllers/exportController';
+import { idempotency } from '../middleware/idempotency';
+
+// A batch holds up to MAX_BATCH_ROWS prospects, as CSV or JSON.
+const BATCH_BODY_LIMIT = '2mb';
+
+/**
+ * JSON parser for batch bodies. Mounted on the app ahead of the global
+ * express.json(), whose default 100kb limit is too small for a full batch.
+ */
+export const batchJsonParser = express.json({ limit: BATCH_BODY_LIMIT });
+
+export const batchRoutes = Router();
+
+batchRoutes.post(
+  '/batches',
+  express.text({ type: 'text/csv', limit: BATCH_BODY_LIMIT }),
+  idempotency,
+  createBatchController
+);
+batchRoutes.get('/batches/:id', getBatchSummaryController);
+batchRoutes.get('/batches/:id/items', listBatchItemsController);
+batchRoutes.get('/batches/:id/export', exportBatchController);
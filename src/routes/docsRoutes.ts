@@ -0,0 +1,7 @@
+import { Router } from 'express';
+import { docsPageController, openApiController } from '../controllers/docsController';
+
+export const docsRoutes = Router();
+
+docsRoutes.get('/openapi.json', openApiController);
+docsRoutes.get('/docs', docsPageController);
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import {
+  createExperimentController,
+  getExperimentController,
+  getExperimentReportController,
+  listExperimentsController,
+  recordSequenceOutcomeController,
+  stopExperimentController,
+} from '../controllers/experimentController';
+
+export const experimentRoutes = Router();
+
+experimentRoutes.post('/experiments', createExperimentController);
+experimentRoutes.get('/experiments', listExperimentsController);
+experimentRoutes.get('/experiments/:id', getExperimentController);
+experimentRoutes.post('/experiments/:id/stop', stopExperimentController);
+experimentRoutes.get('/experiments/:id/report', getExperimentReportController);
+experimentRoutes.put('/sequences/:id/outcome', recordSequenceOutcomeController);
@@ -0,0 +1,6 @@
+import { Router } from 'express';
+import { getJobController } from '../controllers/jobController';
+
+export const jobRoutes = Router();
+
+jobRoutes.get('/jobs/:id', getJobController);
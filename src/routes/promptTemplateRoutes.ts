@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import {
+  diffPromptTemplatesController,
+  getPromptTemplateController,
+  listPromptTemplatesController,
+} from '../controllers/promptTemplateController';
+
+export const promptTemplateRoutes = Router();
+
+promptTemplateRoutes.get('/prompt-templates', listPromptTemplatesController);
+// Before /:version so "diff" is not taken for a version name.
+promptTemplateRoutes.get('/prompt-templates/diff', diffPromptTemplatesController);
+promptTemplateRoutes.get('/prompt-templates/:version', getPromptTemplateController);
@@ -0,0 +1,6 @@
+import { Router } from 'express';
+import { listQualityRulesController } from '../controllers/qualityRuleController';
+
+export const qualityRuleRoutes = Router();
+
+qualityRuleRoutes.get('/quality-rules', listQualityRulesController);
@@ -0,0 +1,6 @@
+import { Router } from 'express';
+import { listSanitizationRulesController } from '../controllers/sanitizationController';
+
+export const sanitizationRuleRoutes = Router();
+
+sanitizationRuleRoutes.get('/sanitization-rules', listSanitizationRulesController);
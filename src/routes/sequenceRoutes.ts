@@ -1,6 +1,33 @@
 import { Router } from 'express';
-import { generateSequenceController } from '../controllers/sequenceController';
+import {
+  generateSequenceController,
+  streamSequenceController,
+  previewSequenceController,
+  getSequenceController,
+  listSequencesController,
+} from '../controllers/sequenceController';
+import {
+  editStepController,
+  listRevisionsController,
+  regenerateStepController,
+} from '../controllers/revisionController';
+import { listCandidatesController, selectCandidateController } from '../controllers/candidateController';
+import { revertSanitizationController } from '../controllers/sanitizationController';
+import { exportSequenceController, exportSequencesController } from '../controllers/exportController';
+import { idempotency } from '../middleware/idempotency';
 
 export const sequenceRoutes = Router();
 
-sequenceRoutes.post('/generate-sequence', generateSequenceController);
+sequenceRoutes.post('/generate-sequence', idempotency, generateSequenceController);
+sequenceRoutes.post('/generate-sequence/stream', streamSequenceController);
+sequenceRoutes.post('/generate-sequence/preview', previewSequenceController);
+sequenceRoutes.get('/sequences', listSequencesController);
+sequenceRoutes.post('/sequences/export', exportSequencesController);
+sequenceRoutes.get('/sequences/:id', getSequenceController);
+sequenceRoutes.post('/sequences/:id/steps/:step/regenerate', idempotency, regenerateStepController);
+sequenceRoutes.patch('/sequences/:id/messages/:step', editStepController);
+sequenceRoutes.get('/sequences/:id/revisions', listRevisionsController);
+sequenceRoutes.get('/sequences/:id/candidates', listCandidatesController);
+sequenceRoutes.post('/sequences/:id/candidates/:candidateId/select', selectCandidateController);
+sequenceRoutes.post('/sequences/:id/sanitization/revert', revertSanitizationController);
+sequenceRoutes.get('/sequences/:id/export', exportSequenceController);
@@ -0,0 +1,6 @@
+import { Router } from 'express';
+import { analyzeStrategyController } from '../controllers/strategyController';
+
+export const strategyRoutes = Router();
+
+strategyRoutes.post('/strategy/analyze', analyzeStrategyController);
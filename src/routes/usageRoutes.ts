@@ -0,0 +1,6 @@
+import { Router } from 'express';
+import { getUsageController } from '../controllers/usageController';
+
+export const usageRoutes = Router();
+
+usageRoutes.get('/usage', getUsageController);
@@ -0,0 +1,195 @@
+import { createHash } from 'crypto';
+import type { z } from 'zod';
+import { BUILT_IN_RULES } from './rules';
+import type {
+  ResolvedSanitizationRule,
+  SanitizationChange,
+  SanitizationRuleDefinition,
+  SanitizationRuleOverride,
+  SanitizationRuleSet,
+  SanitizedField,
+} from './types';
+
+export type {
+  ResolvedSanitizationRule,
+  SanitizationChange,
+  SanitizationRuleDefinition,
+  SanitizationRuleOverride,
+  SanitizationRuleSet,
+  SanitizedField,
+} from './types';
+
+/**
+ * Text sanitizer.
+ *
+ * Rewrites phrasing in model output through replacement rules: the built-in
+ * ones (rules.ts), changed or extended by the tenant's `sanitization_rules`.
+ * Every substitution is recorded per field as original span → replacement,
+ * so the edits can be shown as a diff and reverted.
+ *
+ * All rules are matched against the original text in one pass. At each
+ * position the earliest match wins, and between rules matching at the same
+ * position the first in order; a replacement is never matched again.
+ */
+
+const RULES = new Map<string, SanitizationRuleDefinition>();
+for (const rule of BUILT_IN_RULES) {
+  if (RULES.has(rule.id)) {
+    throw new Error(`Sanitization rule "${rule.id}" is registered twice`);
+  }
+  RULES.set(rule.id, rule);
+}
+
+// Same length as prompt content hashes.
+const RULE_SET_HASH_LENGTH = 16;
+
+/** Built-in rules, in priority order. */
+export function listSanitizationRules(): SanitizationRuleDefinition[] {
+  return [...RULES.values()];
+}
+
+/**
+ * superRefine for tenant rule lists: ids are unique, built-in rules aren't
+ * given a phrase, and added rules have a phrase and a replacement.
+ */
+export function checkSanitizationRuleOverrides(overrides: SanitizationRuleOverride[], ctx: z.RefinementCtx): void {
+  const seen = new Set<string>();
+  overrides.forEach((override, index) => {
+    if (seen.has(override.id)) {
+      ctx.addIssue({ code: 'custom', path: [index, 'id'], message: `Duplicate sanitization rule "${override.id}"` });
+    }
+    seen.add(override.id);
+
+    if (RULES.has(override.id)) {
+      if (override.phrase !== undefined) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [index, 'phrase'],
+          message: `Built-in rule "${override.id}" keeps its pattern; use a new id to add a phrase`,
+        });
+      }
+    } else if (override.phrase === undefined || override.replacement === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [index],
+        message: `Rule "${override.id}" is not built in, so it needs a phrase and a replacement`,
+      });
+    }
+  });
+}
+
+/**
+ * Built-in rules with the tenant's changes applied, then the tenant's added
+ * rules in the order given. Stored entries that no longer fit (an added rule
+ * whose id became built in) fall back to the built-in rule.
+ */
+export function resolveSanitizationRuleSet(overrides?: SanitizationRuleOverride[] | null): SanitizationRuleSet {
+  const byId = new Map((overrides ?? []).map((o) => [o.id, o]));
+
+  const builtIn = listSanitizationRules().flatMap((rule): ResolvedSanitizationRule[] => {
+    const override = byId.get(rule.id);
+    if (override?.enabled === false) return [];
+    return [
+      {
+        id: rule.id,
+        pattern: rule.pattern,
+        replacement: override?.replacement ?? rule.replacement,
+        wholeWord: override?.whole_word ?? true,
+        preserveCase: override?.preserve_case ?? true,
+      },
+    ];
+  });
+
+  const added = (overrides ?? [])
+    .filter((o) => !RULES.has(o.id) && o.enabled !== false && o.phrase && o.replacement !== undefined)
+    .map(
+      (o): ResolvedSanitizationRule => ({
+        id: o.id,
+        pattern: escapeRegExp(o.phrase!),
+        replacement: o.replacement!,
+        wholeWord: o.whole_word ?? true,
+        preserveCase: o.preserve_case ?? true,
+      })
+    );
+
+  const rules = [...builtIn, ...added];
+  const hash = createHash('sha256')
+    .update(JSON.stringify(rules))
+    .digest('hex')
+    .slice(0, RULE_SET_HASH_LENGTH);
+
+  return { rules, hash };
+}
+
+/** The built-in rules with no overrides. */
+export const DEFAULT_SANITIZATION_RULE_SET = resolveSanitizationRuleSet();
+
+/**
+ * Sanitize one field. Returns null when no rule matched, otherwise the
+ * field's record with every substitution.
+ */
+export function sanitizeField(ruleSet: SanitizationRuleSet, field: string, text: string): SanitizedField | null {
+  const matchers = ruleSet.rules.map((rule) => ({
+    rule,
+    regex: new RegExp(rule.wholeWord ? `\\b(?:${rule.pattern})\\b` : rule.pattern, 'gi'),
+  }));
+
+  const changes: SanitizationChange[] = [];
+  let position = 0;
+  while (position < text.length) {
+    let best: { rule: ResolvedSanitizationRule; match: RegExpExecArray } | null = null;
+    for (const { rule, regex } of matchers) {
+      regex.lastIndex = position;
+      const match = regex.exec(text);
+      if (match && match[0].length > 0 && (!best || match.index < best.match.index)) {
+        best = { rule, match };
+      }
+    }
+    if (!best) break;
+
+    const { rule, match } = best;
+    const start = match.index;
+    const end = start + match[0].length;
+    changes.push({
+      id: `${field}:${start}`,
+      ruleId: rule.id,
+      start,
+      end,
+      original: match[0],
+      replacement: rule.preserveCase ? matchCase(match[0], rule.replacement) : rule.replacement,
+      revertedAt: null,
+    });
+    position = end;
+  }
+
+  if (changes.length === 0) return null;
+  return { field, before: text, after: applyChanges(text, changes), changes };
+}
+
+/** `before` with every change that isn't reverted. */
+export function applyChanges(before: string, changes: SanitizationChange[]): string {
+  let result = '';
+  let position = 0;
+  for (const change of [...changes].sort((a, b) => a.start - b.start)) {
+    if (change.revertedAt) continue;
+    result += before.slice(position, change.start) + change.replacement;
+    position = change.end;
+  }
+  return result + before.slice(position);
+}
+
+/** Give the replacement the capitalization of the text it replaces: ALL CAPS or a leading capital. */
+function matchCase(original: string, replacement: string): string {
+  const letters = original.replace(/[^a-z]/gi, '');
+  if (letters.length > 1 && letters === letters.toUpperCase()) {
+    return replacement.toUpperCase();
+  }
+  if (/^[A-Z]/.test(original)) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,74 @@
+import type { SanitizationRuleDefinition } from './types';
+
+/**
+ * Built-in replacements for phrasing the prompt asks the model to avoid but
+ * that still gets through. Patterns are matched as whole words and
+ * case-insensitively unless a tenant override says otherwise; where two rules
+ * match at the same position, the earlier one wins.
+ */
+export const BUILT_IN_RULES: SanitizationRuleDefinition[] = [
+  // Grammar fixes (common model typos)
+  { id: 'grammar.can_reduces', pattern: 'can reduces', replacement: 'can reduce' },
+  { id: 'grammar.can_improves', pattern: 'can improves', replacement: 'can improve' },
+  { id: 'grammar.can_ensures', pattern: 'can ensures', replacement: 'can ensure' },
+  { id: 'grammar.can_eliminates', pattern: 'can eliminates', replacement: 'can eliminate' },
+  { id: 'grammar.which_helps_reduce', pattern: 'which helps? reduces?', replacement: 'which reduces' },
+  { id: 'grammar.this_means_fewer', pattern: 'this means? fewer', replacement: 'this means fewer' },
+
+  // Borderline domain phrasing → upstream friction framing
+  {
+    id: 'framing.fewer_pipeline_disruptions',
+    pattern: 'fewer disruptions (?:for|to) your (?:data )?pipelines?',
+    replacement: 'fewer ad-hoc requests reaching your team',
+  },
+  {
+    id: 'framing.pipeline_disruptions',
+    pattern: 'disruptions? (?:for|to) your (?:data )?pipelines?',
+    replacement: 'noise reaching your team from unqualified prospects',
+  },
+  {
+    id: 'framing.protect_pipelines',
+    pattern: 'protect(?:s|ing)? your (?:data )?pipelines?',
+    replacement: 'shields your team from unqualified upstream noise',
+  },
+  {
+    id: 'framing.fewer_infrastructure_disruptions',
+    pattern: 'fewer disruptions (?:for|to) your (?:core |critical )?(?:infrastructure|systems?)',
+    replacement: 'fewer unqualified requests pulling your team off planned work',
+  },
+
+  // Abstract language → concrete framing
+  { id: 'concrete.streamlining', pattern: 'streamlining', replacement: 'reducing' },
+  { id: 'concrete.streamlines_the', pattern: 'streamlines?\\s+the', replacement: 'reduces friction in' },
+  { id: 'concrete.streamlines', pattern: 'streamlines?', replacement: 'reduces' },
+  { id: 'concrete.smoother_operational', pattern: 'smoother\\s+operational', replacement: 'fewer disruptive' },
+  { id: 'concrete.operational_workflows', pattern: 'operational\\s+workflows?', replacement: 'cross-functional processes' },
+  { id: 'concrete.operational_readiness', pattern: 'operational\\s+readiness', replacement: 'team focus' },
+  { id: 'concrete.operational_efficiency', pattern: 'operational\\s+efficiency', replacement: 'qualification clarity' },
+  {
+    id: 'concrete.disrupt_workflow',
+    pattern: 'can disrupt workflow significantly',
+    replacement: 'pulls your team off planned work',
+  },
+  { id: 'concrete.save_team_time', pattern: 'save your team time', replacement: 'free your team from unqualified noise' },
+  {
+    id: 'concrete.waste_valuable_time',
+    pattern: 'waste valuable time',
+    replacement: 'cost your team cycles on deals that never close',
+  },
+  {
+    id: 'concrete.wasting_time_and_resources',
+    pattern: 'wasting valuable time and resources',
+    replacement: 'spending cycles on prospects that never close',
+  },
+  {
+    id: 'concrete.wasted_time_and_effort',
+    pattern: 'wasted time and effort',
+    replacement: 'cycles lost to prospects that were never a fit',
+  },
+  {
+    id: 'concrete.wasted_time_and_resources',
+    pattern: 'wasted time and resources',
+    replacement: 'effort spent on prospects that go nowhere',
+  },
+];
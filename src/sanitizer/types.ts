@@ -0,0 +1,65 @@
+/** A built-in replacement rule. */
+export interface SanitizationRuleDefinition {
+  /** Stable id; used in tenant overrides and reported with every change. */
+  id: string;
+  /** Regular expression source, matched case-insensitively. */
+  pattern: string;
+  replacement: string;
+}
+
+/**
+ * Per-tenant rule entry. With a built-in id it changes that rule; any other
+ * id adds a rule that replaces a literal `phrase`.
+ */
+export interface SanitizationRuleOverride {
+  id: string;
+  phrase?: string;
+  replacement?: string;
+  enabled?: boolean;
+  /** Only match the pattern as whole words. Default true. */
+  whole_word?: boolean;
+  /** Match the capitalization of the replaced text. Default true. */
+  preserve_case?: boolean;
+}
+
+/** A rule with the tenant's overrides applied. */
+export interface ResolvedSanitizationRule {
+  id: string;
+  pattern: string;
+  replacement: string;
+  wholeWord: boolean;
+  preserveCase: boolean;
+}
+
+/** The rules one generation is sanitized with. */
+export interface SanitizationRuleSet {
+  rules: ResolvedSanitizationRule[];
+  /** Content hash of the resolved rules; part of the cache key. */
+  hash: string;
+}
+
+export interface SanitizationChange {
+  /** `<field>:<start>`, unique within a sequence. */
+  id: string;
+  ruleId: string;
+  /** Span of `original` in the field's text before sanitization. */
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+  /** Set when a reviewer put the original text back. */
+  revertedAt: string | null;
+}
+
+/** Sanitizer edits to one text field. */
+export interface SanitizedField {
+  /**
+   * `analysis.value_proposition`, `analysis.prospect_insights`,
+   * `messages.<step>.subject` or `messages.<step>.message`.
+   */
+  field: string;
+  before: string;
+  /** `before` with the changes that aren't reverted. */
+  after: string;
+  changes: SanitizationChange[];
+}
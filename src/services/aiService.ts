@@ -1,77 +1,219 @@
-import OpenAI from 'openai';
+import { renderPrompt } from '../prompts';
+import type { PromptPartName, PromptTemplate } from '../prompts';
+import {
+  AIOutputValidationError,
+  aiOutputJsonSchema,
+  aiSequenceOutputSchema,
+  aiStepOutputSchema,
+  parseAIOutput,
+} from '../utils/aiOutputSchema';
+import type { AIMessage, AIOutputFieldError } from '../utils/aiOutputSchema';
+import {
+  DEFAULT_CHANNEL,
+  channelRule,
+  channelsToPromptBlock,
+  checkChannelMessage,
+  opensWithGreeting,
+} from '../utils/channels';
+import type { Channel } from '../utils/channels';
 import { AppError } from '../utils/errorHandler';
 import type { ProspectProfile } from '../utils/linkedinParser';
+import {
+  ANALYSIS_GENERIC_PHRASES,
+  QualityRuleError,
+  assertQualityRules,
+  evaluateQualityRules,
+} from '../quality';
+import type { QualityRuleSet, QualityViolation } from '../quality';
+import { sanitizeField } from '../sanitizer';
+import type { SanitizationRuleSet, SanitizedField } from '../sanitizer';
 import { strategyToPromptBlock } from '../utils/roleContextStrategy';
+import { StreamingJsonParser } from '../utils/streamingJsonParser';
+import { extractContextKeywords, extractSignalKeywords, hits, str } from '../utils/textSignals';
 import type { MessageStrategy } from '../utils/roleContextStrategy';
+import { getLLMProvider } from './llmProviderFactory';
+import { describeLLMError, isTransientLLMError, retryAfterMs } from './llmProvider';
+import type { LLMCompletion, LLMCompletionRequest, LLMPricing, LLMResponseSchema, LLMUsage } from './llmProvider';
+import { pricingForModel, routeModels } from './modelRouting';
+import type { ModelRoute, ModelRouteReason } from './modelRouting';
 
-const apiKey = process.env.OPENAI_API_KEY;
+// Model name and pricing come from the configured provider (llmProviderFactory.ts);
+// prompt wording comes from the template registry (src/prompts).
+export const DEFAULT_TEMPERATURE = 0.5;
 
-if (!apiKey) {
-  console.error(
-    'OPENAI_API_KEY environment variable is missing. AI generation requests will fail until it is set.'
-  );
-}
-
-const openai = apiKey ? new OpenAI({ apiKey }) : null;
+// Retries for transient provider errors (rate limits, timeouts, 5xx), with
+// full-jitter exponential backoff: retry n waits up to base * 2^(n-1), capped.
+const AI_MAX_RETRIES = Math.max(0, Number(process.env.AI_MAX_RETRIES ?? 2) || 0);
+const AI_RETRY_BASE_DELAY_MS = Number(process.env.AI_RETRY_BASE_DELAY_MS) || 500;
+const AI_RETRY_MAX_DELAY_MS = Number(process.env.AI_RETRY_MAX_DELAY_MS) || 8000;
 
-const PROMPT_VERSION = 'v5.3';
-const MODEL = 'gpt-4o-mini';
-const TEMPERATURE = 0.5;
-
-// Cost per 1M tokens (gpt-4o-mini pricing)
-const PROMPT_COST_PER_1M = 0.15;
-const COMPLETION_COST_PER_1M = 0.6;
+// Opt-in: on a schema failure, send the field errors and the bad JSON back once.
+const AI_REPAIR_ENABLED = process.env.AI_REPAIR_ENABLED === 'true';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export interface AIGenerationResult {
-  analysis: Record<string, any>;
-  messages: Array<{ step: number; message: string; reasoning: string }>;
-  confidence: number;
-  tokenUsage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-    estimatedCost: number;
-  };
-  rawResponse: any;
+/** What a generation's prompts are built from. */
+export interface PromptSettings {
+  template: PromptTemplate;
+  temperature: number;
+  /** Experiment arm the generation was assigned to. Recorded only; it does not change the prompt. */
+  experiment: { id: string; arm: string } | null;
 }
 
-type ProspectData = ProspectProfile;
+/** How a call's prompt was produced. Field names match the AIGeneration columns. */
+export interface PromptAttribution {
+  promptVersion: string;
+  promptHash: string;
+  temperature: number;
+  experimentId: string | null;
+  experimentArm: string | null;
+}
 
-interface TokenUsage {
+export interface TokenUsage {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
   estimatedCost: number;
 }
 
-// ---------------------------------------------------------------------------
-// Post-generation validation constants (light guardrails in code)
-// ---------------------------------------------------------------------------
+/** A model call that did not produce the result. Stored as a failed AIGeneration row. */
+export interface FailedGenerationAttempt {
+  attempt: number;
+  repair: boolean;
+  model: string;
+  prompt: PromptAttribution;
+  tokenUsage: TokenUsage;
+  /** The bad response, or the provider error when the call itself failed. */
+  rawResponse: any;
+  error: string;
+  /** Set when the response failed the output schema. */
+  fieldErrors?: AIOutputFieldError[];
+  createdAt: Date;
+}
 
-// Only flag the truly egregious claims — outbound cannot touch these systems.
-const HARD_DOMAIN_CLAIMS = [
-  'improve ci/cd', 'improve deployment', 'improve backend performance',
-  'improve threat modeling', 'improve security controls',
-  'enhance infrastructure', 'boost reliability',
-];
+/** Which model call produced a result, and what it cost. */
+export interface GenerationAttemptInfo {
+  /** Model that served the call. */
+  model: string;
+  /** Models the generation was allowed to use, and why the first was picked. */
+  route: ModelRoute;
+  prompt: PromptAttribution;
+  tokenUsage: TokenUsage;
+  rawResponse: any;
+  /** 1-based number of the call that produced the result. */
+  attempt: number;
+  /** True when the result came from the repair pass. */
+  repair: boolean;
+  /** Earlier calls in the same generation: retried errors and the output that was repaired. */
+  failedAttempts: FailedGenerationAttempt[];
+}
 
-// Discourage generic marketing-speak — logged, not blocked.
-const GENERIC_FILLER_PHRASES = [
-  'would you be open to a brief chat', 'would love to connect',
-  'let me know if you\'d be interested', 'can we schedule a call',
-  'happy to chat', 'i\'ve been following', 'i came across your profile',
-  'innovative approach', 'i imagine', 'i can see how',
-  'cross-team collaboration', 'this could help',
-];
+/** A generated step, tagged with the channel it was written for. */
+export type SequenceMessage = AIMessage & { channel: Channel };
 
-const ANALYSIS_GENERIC_PHRASES = [
-  'industry-leading', 'unlock new opportunities', 'drive growth',
-  'transform your business',
-];
+export interface AIGenerationResult extends GenerationAttemptInfo {
+  analysis: Record<string, any>;
+  messages: SequenceMessage[];
+  confidence: number;
+  /** calculateConfidence alone, without the model's self-rating. */
+  groundingScore: number;
+  /** Quality rules the kept output violates (src/quality). */
+  triggeredRules: QualityViolation[];
+  /** Their messages. */
+  qualityIssues: string[];
+  /** Hash of the rule set the output was checked against. */
+  qualityRulesHash: string;
+  diagnostics: GenerationDiagnostics;
+  /** Sanitizer edits, per field that had any. */
+  sanitization: SanitizedField[];
+  /** Hash of the sanitization rule set applied. */
+  sanitizationRulesHash: string;
+}
+
+/** One term of calculateConfidence. */
+export interface ConfidenceFactor {
+  factor: 'skills' | 'headline_keywords' | 'named_workflow' | 'generic_penalty';
+  /** Whether the signal was found; for generic_penalty, whether generic phrasing was. */
+  matched: boolean;
+  contribution: number;
+}
+
+/** How a generation's confidence was reached, and what was wrong with it. */
+export interface GenerationDiagnostics {
+  qualityIssues: string[];
+  confidence: {
+    /** The confidence returned with the sequence. */
+    final: number;
+    /** The model's self-rating. */
+    aiReported: number;
+    /** calculateConfidence: `base` plus the factors, clamped to `bounds`. */
+    calculated: number;
+    base: number;
+    factors: ConfidenceFactor[];
+    bounds: { min: number; max: number };
+    /**
+     * `average` of aiReported and calculated when they are at most
+     * `maxDivergence` apart, otherwise `calculated` alone.
+     */
+    blend: { rule: 'average' | 'calculated'; divergence: number; maxDivergence: number };
+  };
+  alignmentScore: number;
+}
+
+/** One of several candidates for the same request, ranked best first. */
+export interface RankedCandidate extends AIGenerationResult {
+  /** 1 = best. */
+  rank: number;
+  score: number;
+}
+
+export interface SequenceCandidatesResult {
+  candidates: RankedCandidate[];
+  /** Calls made for candidates that failed outright. */
+  failedAttempts: FailedGenerationAttempt[];
+}
+
+/**
+ * Generation failed after all retries (and the repair pass, if enabled).
+ * Carries every attempt so callers can record their cost. When the last
+ * response failed the output schema, its field errors become `details`.
+ */
+export class AIGenerationError extends AppError {
+  constructor(
+    message: string,
+    readonly failedAttempts: FailedGenerationAttempt[],
+    statusCode = 500,
+    code = 'AI_GENERATION_FAILED'
+  ) {
+    super(message, statusCode, code);
+    this.name = 'AIGenerationError';
+    this.details = failedAttempts.at(-1)?.fieldErrors;
+  }
+}
+
+/** Every model's output violated a `block` quality rule, repair pass included. */
+export class QualityRuleBlockedError extends AIGenerationError {
+  constructor(
+    readonly violations: QualityViolation[],
+    failedAttempts: FailedGenerationAttempt[]
+  ) {
+    super(
+      `Output blocked by quality rules: ${violations.map((v) => `${v.ruleId} (${v.message})`).join('; ')}`,
+      failedAttempts,
+      422,
+      'QUALITY_RULE_BLOCKED'
+    );
+    this.name = 'QualityRuleBlockedError';
+  }
+}
+
+type ProspectData = ProspectProfile;
+
+// ---------------------------------------------------------------------------
+// Confidence signals
+// ---------------------------------------------------------------------------
 
 const CROSS_FUNCTIONAL_WORKFLOW_HINTS = [
   'sales-engineering handoff', 'technical validation loop',
@@ -81,12 +223,6 @@ const CROSS_FUNCTIONAL_WORKFLOW_HINTS = [
   'inbound triage', 'technical validation step', 'cross-functional escalation loop',
 ];
 
-const STOPWORDS = new Set([
-  'and', 'the', 'for', 'with', 'that', 'this', 'from', 'into', 'your',
-  'their', 'about', 'over', 'under', 'build', 'building', 'senior',
-  'lead', 'manager', 'engineer', 'team', 'role',
-]);
-
 // ---------------------------------------------------------------------------
 // Main entry point — ONE model call
 // ---------------------------------------------------------------------------
@@ -95,17 +231,17 @@ export async function generateSequenceWithAI(
   prospectData: ProspectData,
   companyContext: string,
   tovDescription: string,
-  sequenceLength: number,
-  strategy: MessageStrategy
+  channels: Channel[],
+  strategy: MessageStrategy,
+  settings: PromptSettings,
+  qualityRules: QualityRuleSet,
+  sanitizationRules: SanitizationRuleSet
 ): Promise<AIGenerationResult> {
-  if (!openai) {
-    console.error('AI generation attempted without a configured OpenAI client (missing OPENAI_API_KEY).');
-    throw new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
-  }
-
   try {
-  const systemPrompt = buildSystemPrompt(sequenceLength);
-  const userPrompt = buildUserPrompt(prospectData, companyContext, tovDescription, sequenceLength, strategy);
+  const { template } = settings;
+  const sequenceLength = channels.length;
+  const systemPrompt = buildSystemPrompt(template, channels);
+  const userPrompt = buildUserPrompt(template, prospectData, companyContext, tovDescription, sequenceLength, strategy);
 
     // Token observability — pre-call
     console.log('Prompt lengths (chars)', {
@@ -113,165 +249,827 @@ export async function generateSequenceWithAI(
       userPrompt: userPrompt.length,
     });
 
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: TEMPERATURE,
-    });
+    const { value, ...attemptInfo } = await runAttempts(
+      {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        temperature: settings.temperature,
+        responseSchema: sequenceResponseSchema(sequenceLength),
+      },
+      routeModels(getLLMProvider(), { sequenceLength, alignmentScore: strategy.alignmentScore }),
+      settings,
+      (content, repair) =>
+        finalizeGeneration(
+          content,
+          prospectData,
+          companyContext,
+          channels,
+          strategy,
+          { qualityRules, sanitizationRules },
+          repair
+        )
+    );
+
+    return { ...value, ...attemptInfo };
+  } catch (error: any) {
+    throw normalizeGenerationError(error);
+  }
+}
+
+// Each quality issue costs this much of the grounding score when ranking candidates.
+const CANDIDATE_QUALITY_ISSUE_PENALTY = 0.05;
+
+/**
+ * Generate `count` candidates for the same prompts in parallel and rank them:
+ * grounding score (calculateConfidence) minus a penalty per quality issue,
+ * fewer issues first on a tie. Each candidate is its own call with its own
+ * retries, repair pass and fallback. Fails only when every candidate fails.
+ */
+export async function generateSequenceCandidatesWithAI(
+  prospectData: ProspectData,
+  companyContext: string,
+  tovDescription: string,
+  channels: Channel[],
+  strategy: MessageStrategy,
+  settings: PromptSettings,
+  qualityRules: QualityRuleSet,
+  sanitizationRules: SanitizationRuleSet,
+  count: number
+): Promise<SequenceCandidatesResult> {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, () =>
+      generateSequenceWithAI(
+        prospectData,
+        companyContext,
+        tovDescription,
+        channels,
+        strategy,
+        settings,
+        qualityRules,
+        sanitizationRules
+      )
+    )
+  );
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      console.error('Empty response from OpenAI API', { responseId: response.id });
-      throw new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
+  const generated: AIGenerationResult[] = [];
+  const failedAttempts: FailedGenerationAttempt[] = [];
+  let lastError: unknown = null;
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      generated.push(result.value);
+    } else {
+      lastError = result.reason;
+      if (result.reason instanceof AIGenerationError) {
+        failedAttempts.push(...result.reason.failedAttempts);
+      }
     }
+  }
 
-    const tokenUsage = extractTokenUsage(response);
+  if (generated.length === 0) {
+    if (lastError instanceof QualityRuleBlockedError) {
+      throw new QualityRuleBlockedError(lastError.violations, failedAttempts);
+    }
+    throw new AIGenerationError(
+      lastError instanceof AppError ? lastError.message : 'AI generation failed',
+      failedAttempts
+    );
+  }
 
-    // Token observability — post-call
-    console.log('AI generation token usage', {
-      model: MODEL,
-      promptVersion: PROMPT_VERSION,
-      promptTokens: tokenUsage.promptTokens,
-      completionTokens: tokenUsage.completionTokens,
-      totalTokens: tokenUsage.totalTokens,
-      estimatedCost: tokenUsage.estimatedCost,
-    });
+  const candidates = generated
+    .map((result) => ({
+      ...result,
+      score: result.groundingScore - CANDIDATE_QUALITY_ISSUE_PENALTY * result.qualityIssues.length,
+    }))
+    .sort((a, b) => b.score - a.score || a.qualityIssues.length - b.qualityIssues.length)
+    .map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+
+  console.log('Sequence candidates ranked', {
+    requested: count,
+    generated: candidates.length,
+    ranking: candidates.map((c) => ({ rank: c.rank, score: c.score, qualityIssues: c.qualityIssues.length })),
+  });
 
-    const parsed = parseAIJsonContent(content);
+  return { candidates, failedAttempts };
+}
 
-    // Structural validation (throws on failure)
-    validateOutputStructure(parsed, sequenceLength);
+/**
+ * Callbacks for streamed generation. Each fires as soon as the corresponding
+ * JSON value is complete in the model output — before validation and
+ * sanitization, so the final result may differ slightly in wording.
+ */
+export interface GenerationStreamHandlers {
+  onAnalysis?: (analysis: Record<string, any>) => void;
+  onMessage?: (message: SequenceMessage) => void;
+}
 
-    // Content validation — log issues but accept output (no repair pass).
-    // A senior engineer optimizes cost and complexity, not perfection.
-    const issues = validateContentQuality(parsed, prospectData, companyContext);
-    if (issues.length > 0) {
-      console.warn('Quality issues detected (accepted, no repair)', { issues });
-    }
+/**
+ * Streaming variant of generateSequenceWithAI. Same prompts, same model call
+ * parameters, same post-generation pipeline — but the response is consumed as
+ * a stream and partial results are reported through handlers.
+ *
+ * Transient errors are retried only until the first delta has been streamed.
+ * A repair pass, if needed, is a blocking call: handlers have already fired
+ * for the bad output, and the returned result is the repaired one.
+ */
+export async function streamSequenceWithAI(
+  prospectData: ProspectData,
+  companyContext: string,
+  tovDescription: string,
+  channels: Channel[],
+  strategy: MessageStrategy,
+  settings: PromptSettings,
+  qualityRules: QualityRuleSet,
+  sanitizationRules: SanitizationRuleSet,
+  handlers: GenerationStreamHandlers
+): Promise<AIGenerationResult> {
+  try {
+    const { template } = settings;
+    const sequenceLength = channels.length;
+    const systemPrompt = buildSystemPrompt(template, channels);
+    const userPrompt = buildUserPrompt(template, prospectData, companyContext, tovDescription, sequenceLength, strategy);
 
-    // In-code sanitization for persistent banned phrases
-    sanitizeOutput(parsed);
+    console.log('Prompt lengths (chars)', {
+      systemPrompt: systemPrompt.length,
+      userPrompt: userPrompt.length,
+      streaming: true,
+    });
 
-    const calcConf = calculateConfidence(parsed, prospectData);
-    const aiConf = parsed.confidence || 0.5;
-    const confidence = Math.abs(aiConf - calcConf) > 0.3 ? calcConf : (aiConf + calcConf) / 2;
+    const parser = new StreamingJsonParser((path, value) => {
+      if (path.length === 1 && path[0] === 'analysis' && value && typeof value === 'object') {
+        handlers.onAnalysis?.(value as Record<string, any>);
+      } else if (path.length === 2 && path[0] === 'messages' && typeof path[1] === 'number') {
+        const msg = value as Record<string, any>;
+        if (msg && typeof msg.message === 'string') {
+          handlers.onMessage?.({
+            step: path[1] + 1,
+            channel: channels[path[1]] ?? DEFAULT_CHANNEL,
+            subject: typeof msg.subject === 'string' ? msg.subject : null,
+            message: msg.message,
+            reasoning: String(msg.reasoning ?? ''),
+          });
+        }
+      }
+    });
+
+    let streamed = false;
+    const { value, ...attemptInfo } = await runAttempts(
+      {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        temperature: settings.temperature,
+        responseSchema: sequenceResponseSchema(sequenceLength),
+      },
+      routeModels(getLLMProvider(), { sequenceLength, alignmentScore: strategy.alignmentScore }),
+      settings,
+      (content, repair) =>
+        finalizeGeneration(
+          content,
+          prospectData,
+          companyContext,
+          channels,
+          strategy,
+          { qualityRules, sanitizationRules },
+          repair
+        ),
+      {
+        onDelta: (delta) => {
+          streamed = true;
+          parser.push(delta);
+        },
+        canRetry: () => !streamed,
+      }
+    );
 
-    return {
-      analysis: parsed.analysis || {},
-      messages: parsed.messages,
-      confidence,
-      tokenUsage,
-      rawResponse: response,
-    };
+    return { ...value, ...attemptInfo };
   } catch (error: any) {
-    console.error('AI generation error', {
-      error: error instanceof Error ? error.message : String(error),
-      stack: process.env.NODE_ENV === 'development' && error instanceof Error ? error.stack : undefined,
+    throw normalizeGenerationError(error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Single-step regeneration — ONE model call for ONE message
+// ---------------------------------------------------------------------------
+
+export interface StepRegenerationResult extends GenerationAttemptInfo {
+  message: SequenceMessage;
+  /** Violations about the new step: its own, and against its neighbours. */
+  triggeredRules: QualityViolation[];
+  qualityIssues: string[];
+  /** Sanitizer edits to the new subject and message, one entry per field that changed. */
+  sanitization: SanitizedField[];
+}
+
+/**
+ * Rewrite one step of an existing sequence. The other steps are passed to the
+ * model as fixed context, and the prompt asks only for the layer that belongs
+ * at this position — so cost is a fraction of a full generation and the rest
+ * of the sequence is untouched. The step keeps its channel.
+ */
+export async function regenerateStepWithAI(
+  prospectData: ProspectData,
+  companyContext: string,
+  tovDescription: string,
+  strategy: MessageStrategy,
+  sequence: {
+    analysis: Record<string, any>;
+    messages: SequenceMessage[];
+  },
+  step: number,
+  settings: PromptSettings,
+  qualityRules: QualityRuleSet,
+  sanitizationRules: SanitizationRuleSet
+): Promise<StepRegenerationResult> {
+  try {
+    const { template } = settings;
+    const sequenceLength = sequence.messages.length;
+    const channel = sequence.messages.find((m) => m.step === step)?.channel ?? DEFAULT_CHANNEL;
+    const greetedStep = sequence.messages.find((m) => m.step !== step && opensWithGreeting(m.message))?.step ?? null;
+    const systemPrompt = buildStepSystemPrompt(template, sequenceLength, step, channel);
+    const userPrompt = buildStepUserPrompt(
+      template,
+      prospectData,
+      companyContext,
+      tovDescription,
+      strategy,
+      sequence,
+      step
+    );
+
+    console.log('Prompt lengths (chars)', {
+      systemPrompt: systemPrompt.length,
+      userPrompt: userPrompt.length,
+      regeneratedStep: step,
     });
 
-    if (error instanceof AppError) throw error;
+    const { value, ...attemptInfo } = await runAttempts(
+      {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        temperature: settings.temperature,
+        responseSchema: STEP_RESPONSE_SCHEMA,
+      },
+      routeModels(getLLMProvider(), { sequenceLength, alignmentScore: strategy.alignmentScore }),
+      settings,
+      (content, repair) => {
+        const parsed = parseAIOutput(aiStepOutputSchema(channel, greetedStep), parseAIJsonContent(content));
+        const subjectSanitization =
+          parsed.subject == null
+            ? null
+            : sanitizeField(sanitizationRules, `messages.${step}.subject`, parsed.subject);
+        const messageSanitization = sanitizeField(sanitizationRules, `messages.${step}.message`, parsed.message);
+        const sanitization = [subjectSanitization, messageSanitization].filter(
+          (field): field is SanitizedField => field !== null
+        );
+        const message: SequenceMessage = {
+          step,
+          channel,
+          subject: subjectSanitization?.after ?? parsed.subject,
+          message: messageSanitization?.after ?? parsed.message,
+          reasoning: parsed.reasoning,
+        };
+        assertFitsChannels([message]);
+
+        // Quality: the new step in place, keeping only findings about it.
+        const triggeredRules = evaluateQualityRules(
+          qualityRules,
+          {
+            analysis: sequence.analysis,
+            messages: sequence.messages.map((m) => (m.step === step ? message : m)),
+            prospect: prospectData,
+            companyContext,
+          },
+          { step }
+        );
+        assertQualityRules(triggeredRules, { repairPass: repair });
+        return { message, triggeredRules, sanitization };
+      }
+    );
+
+    console.log('AI step regeneration token usage', {
+      model: attemptInfo.model,
+      promptVersion: attemptInfo.prompt.promptVersion,
+      step,
+      attempt: attemptInfo.attempt,
+      ...attemptInfo.tokenUsage,
+    });
 
-    if (error instanceof OpenAI.APIError) {
-      console.error('OpenAI API error details', {
-        status: error.status,
-        code: error.code,
-        type: error.type,
+    const qualityIssues = value.triggeredRules.map((v) => v.message);
+    if (qualityIssues.length > 0) {
+      console.warn('Quality rules triggered by regenerated step (accepted)', {
+        step,
+        issues: value.triggeredRules.map(({ ruleId, severity, message }) => ({ ruleId, severity, message })),
       });
     }
 
-    throw new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
+    return { ...value, qualityIssues, ...attemptInfo };
+  } catch (error: any) {
+    throw normalizeGenerationError(error);
   }
 }
 
 // ---------------------------------------------------------------------------
-// Adaptive step progression — narrative layers scale with sequence length
+// Dry run — the exact prompts, no model call
 // ---------------------------------------------------------------------------
 
-const LAYER_OBSERVATION = `OBSERVATION. "Hi [Name]," + a grounded hypothesis about their role and the chosen friction (<60 words). Reference a skill or headline detail. Statement, not a question. Example: "Hi Neo, most DevOps leads I talk to end up fielding late-stage security review requests for prospects that were never qualified — especially painful when the team's deep in Kubernetes work."`;
+// Rough chars-per-token for English prompt text; good enough for a cost preview.
+const CHARS_PER_TOKEN = 4;
+// Chat format overhead per message (role marker + separators).
+const TOKENS_PER_CHAT_MESSAGE = 4;
+// Typical completion: the analysis block plus one message + reasoning per step.
+const EXPECTED_ANALYSIS_TOKENS = 200;
+const EXPECTED_TOKENS_PER_STEP = 150;
+
+export interface PromptPreview {
+  /** Routed model; the projected cost is priced for it. */
+  model: string;
+  routeReason: ModelRouteReason;
+  /** Tried in order if the routed model fails. */
+  fallbackModels: string[];
+  promptVersion: string;
+  promptHash: string;
+  temperature: number;
+  systemPrompt: string;
+  userPrompt: string;
+  contextKeywords: string[];
+  tokenEstimate: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  projectedCost: number;
+}
 
-const LAYER_SPOTLIGHT = `WORKFLOW SPOTLIGHT. No greeting. Name a specific capability or workflow FROM THE COMPANY CONTEXT and connect it to the friction. You MUST reference what the company sells (from company_context), not just restate the friction from Step 1. Be concrete about what happens and who triggers it. Can end with one question. Example: "The pattern I keep hearing is that security reviews get triggered before anyone confirms the prospect has real budget or timeline — so your team does the work, and the deal stalls anyway."`;
+/**
+ * Render the system and user prompts generateSequenceWithAI would send, with
+ * an estimated token count and cost. Token counts are a character-based
+ * estimate, not tokenizer output.
+ */
+export function previewSequencePrompts(
+  prospectData: ProspectData,
+  companyContext: string,
+  tovDescription: string,
+  channels: Channel[],
+  strategy: MessageStrategy,
+  { template, temperature }: PromptSettings
+): PromptPreview {
+  const provider = getLLMProvider();
+  const sequenceLength = channels.length;
+  const route = routeModels(provider, { sequenceLength, alignmentScore: strategy.alignmentScore });
+  const [model, ...fallbackModels] = route.models;
+  const systemPrompt = buildSystemPrompt(template, channels);
+  const userPrompt = buildUserPrompt(template, prospectData, companyContext, tovDescription, sequenceLength, strategy);
+
+  const promptTokens =
+    Math.ceil((systemPrompt.length + userPrompt.length) / CHARS_PER_TOKEN) + 2 * TOKENS_PER_CHAT_MESSAGE;
+  const completionTokens = EXPECTED_ANALYSIS_TOKENS + sequenceLength * EXPECTED_TOKENS_PER_STEP;
+
+  return {
+    model,
+    routeReason: route.reason,
+    fallbackModels,
+    promptVersion: template.version,
+    promptHash: template.contentHash,
+    temperature,
+    systemPrompt,
+    userPrompt,
+    contextKeywords: extractContextKeywords(companyContext),
+    tokenEstimate: {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    },
+    projectedCost: estimateCost(pricingForModel(provider, model), promptTokens, completionTokens),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Post-call pipeline (shared by blocking and streaming calls)
+// ---------------------------------------------------------------------------
 
-const LAYER_CAUSE = `CAUSAL LINK. No greeting. Explain HOW the upstream problem (poor qualification, noisy pipeline) creates the friction for their team. Connect company_context to their pain. Example: "It usually starts upstream — qualification isn't precise enough, so technical validation gets triggered for prospects that should have been filtered two steps earlier."`;
+/**
+ * Parse, validate and clean one model response. Throws on invalid JSON, with
+ * field-level errors (AIOutputValidationError) when it doesn't match the
+ * output schema, and with QualityRuleError when a quality rule rejects it.
+ */
+function finalizeGeneration(
+  content: string,
+  prospectData: ProspectData,
+  companyContext: string,
+  channels: Channel[],
+  strategy: MessageStrategy,
+  { qualityRules, sanitizationRules }: { qualityRules: QualityRuleSet; sanitizationRules: SanitizationRuleSet },
+  repairPass: boolean
+): Pick<
+  AIGenerationResult,
+  | 'analysis'
+  | 'messages'
+  | 'confidence'
+  | 'groundingScore'
+  | 'triggeredRules'
+  | 'qualityIssues'
+  | 'qualityRulesHash'
+  | 'diagnostics'
+  | 'sanitization'
+  | 'sanitizationRulesHash'
+> {
+  const output = parseAIOutput(aiSequenceOutputSchema(channels), parseAIJsonContent(content));
+
+  // Normalize steps to their position (models sometimes misnumber) and tag each with its channel
+  const parsed = {
+    ...output,
+    messages: output.messages.map(
+      (msg, index): SequenceMessage => ({
+        step: index + 1,
+        channel: channels[index],
+        subject: msg.subject,
+        message: msg.message,
+        reasoning: msg.reasoning,
+      })
+    ),
+  };
 
-const LAYER_IMPROVEMENT = `IMPROVEMENT + CTA. No greeting. Name the concrete operational change and what's different after. End with a specific, low-friction ask. Example: "We help sales teams tighten that qualification layer so security reviews only happen when deal intent is confirmed. Happy to show what that filter looks like if the pattern sounds familiar."`;
+  // Quality rules — `block` and `repair` violations reject the output (see
+  // runAttempts); `warn` and post-repair `repair` violations are kept and reported.
+  const triggeredRules = evaluateQualityRules(qualityRules, {
+    analysis: parsed.analysis,
+    messages: parsed.messages,
+    prospect: prospectData,
+    companyContext,
+  });
+  assertQualityRules(triggeredRules, { repairPass });
+  if (triggeredRules.length > 0) {
+    console.warn('Quality rules triggered (accepted)', {
+      issues: triggeredRules.map(({ ruleId, severity, message }) => ({ ruleId, severity, message })),
+    });
+  }
 
-const LAYER_SOCIAL_PROOF = `SOCIAL PROOF. No greeting. Reference how similar teams solved this + reinforce the improvement. Example: "One platform team we work with cut their ad-hoc prospect-driven review load by routing all technical asks through a qualification gate first — only confirmed-intent prospects reach their queue now."`;
+  // In-code sanitization for persistent banned phrases
+  const sanitization = sanitizeOutput(parsed, sanitizationRules);
+  assertFitsChannels(parsed.messages);
+
+  const { score: calcConf, factors } = calculateConfidence(parsed, prospectData);
+  const aiConf = parsed.confidence;
+  const divergence = Math.abs(aiConf - calcConf);
+  const blendRule = divergence > CONFIDENCE_MAX_DIVERGENCE ? 'calculated' : 'average';
+  const confidence = blendRule === 'calculated' ? calcConf : (aiConf + calcConf) / 2;
+  const qualityIssues = triggeredRules.map((v) => v.message);
+
+  return {
+    analysis: parsed.analysis,
+    messages: parsed.messages,
+    confidence,
+    groundingScore: calcConf,
+    triggeredRules,
+    qualityIssues,
+    qualityRulesHash: qualityRules.hash,
+    diagnostics: {
+      qualityIssues,
+      confidence: {
+        final: confidence,
+        aiReported: aiConf,
+        calculated: calcConf,
+        base: CONFIDENCE_BASE,
+        factors,
+        bounds: { min: CONFIDENCE_MIN, max: CONFIDENCE_MAX },
+        blend: { rule: blendRule, divergence, maxDivergence: CONFIDENCE_MAX_DIVERGENCE },
+      },
+      alignmentScore: strategy.alignmentScore,
+    },
+    sanitization,
+    sanitizationRulesHash: sanitizationRules.hash,
+  };
+}
 
-const LAYER_EXPANSION = `EXPANSION. No greeting. Broaden the impact — name a second workflow or team that benefits from the same upstream fix. End with a specific ask. Example: "The same qualification filter also means your security team stops fielding questionnaires for deals that were never going to close — so the fix compounds across teams."`;
+// ---------------------------------------------------------------------------
+// Attempts — model fallback chain, transient retries and the optional repair pass
+// ---------------------------------------------------------------------------
 
-function buildStepProgression(sequenceLength: number): string {
-  const steps: string[] = [];
+interface AttemptOptions {
+  /** Stream calls through this handler. Repair calls are never streamed. */
+  onDelta?: (delta: string) => void;
+  /** Checked before retrying or falling back (false once output has been streamed). */
+  canRetry?: () => boolean;
+}
 
-  if (sequenceLength === 1) {
-    steps.push(`1: OBSERVATION + CTA. "Hi [Name]," + grounded hypothesis about the friction + how we help + low-friction ask. All in one concise message (<80 words).`);
-  } else if (sequenceLength === 2) {
-    steps.push(`1: ${LAYER_OBSERVATION}`);
-    steps.push(`2: ${LAYER_IMPROVEMENT}`);
-  } else if (sequenceLength === 3) {
-    steps.push(`1: ${LAYER_OBSERVATION}`);
-    steps.push(`2: ${LAYER_SPOTLIGHT}`);
-    steps.push(`3: ${LAYER_IMPROVEMENT}`);
-  } else if (sequenceLength === 4) {
-    steps.push(`1: ${LAYER_OBSERVATION}`);
-    steps.push(`2: ${LAYER_SPOTLIGHT}`);
-    steps.push(`3: ${LAYER_CAUSE}`);
-    steps.push(`4: ${LAYER_IMPROVEMENT}`);
-  } else {
-    // 5+
-    steps.push(`1: ${LAYER_OBSERVATION}`);
-    steps.push(`2: ${LAYER_SPOTLIGHT}`);
-    steps.push(`3: ${LAYER_CAUSE}`);
-    steps.push(`4: ${LAYER_IMPROVEMENT}`);
-    steps.push(`5: ${LAYER_SOCIAL_PROOF}`);
-    if (sequenceLength >= 6) {
-      steps.push(`6: ${LAYER_EXPANSION}`);
+/**
+ * Call the provider with each model of the route in turn and interpret the
+ * response. Per model: transient errors are retried with jittered backoff (up
+ * to AI_MAX_RETRIES), and if interpret throws, the error and the bad response
+ * are sent back once for a corrected version — always for quality rule
+ * rejections, and for anything else when AI_REPAIR_ENABLED is set.
+ * When a model still fails, the next one in the route is tried. Every failed
+ * call is returned (or carried by AIGenerationError) so its cost can be
+ * recorded, priced for the model that made it.
+ */
+async function runAttempts<T>(
+  request: LLMCompletionRequest,
+  route: ModelRoute,
+  settings: PromptSettings,
+  interpret: (content: string, repair: boolean) => T,
+  options: AttemptOptions = {}
+): Promise<GenerationAttemptInfo & { value: T }> {
+  const provider = getLLMProvider();
+  const failedAttempts: FailedGenerationAttempt[] = [];
+  const canRetry = () => options.canRetry?.() ?? true;
+  const prompt: PromptAttribution = {
+    promptVersion: settings.template.version,
+    promptHash: settings.template.contentHash,
+    temperature: settings.temperature,
+    experimentId: settings.experiment?.id ?? null,
+    experimentArm: settings.experiment?.arm ?? null,
+  };
+
+  let attempt = 0;
+  let lastError: unknown = null;
+
+  for (const [index, model] of route.models.entries()) {
+    if (index > 0) {
+      if (!canRetry()) break;
+      console.warn('Falling back to next model', {
+        from: route.models[index - 1],
+        to: model,
+        routeReason: route.reason,
+      });
     }
-    for (let i = 7; i <= sequenceLength; i++) {
-      steps.push(`${i}: Follow-up. No greeting. Add a new angle or reinforce the improvement with a specific ask.`);
+
+    const pricing = pricingForModel(provider, model);
+    let current: LLMCompletionRequest = { ...request, model };
+    let repair = false;
+    let retries = 0;
+
+    for (;;) {
+      attempt++;
+      const createdAt = new Date();
+
+      let completion: LLMCompletion;
+      try {
+        completion = options.onDelta && !repair
+          ? await provider.stream(current, options.onDelta)
+          : await provider.complete(current);
+      } catch (error) {
+        const details = describeLLMError(error);
+        failedAttempts.push({
+          attempt,
+          repair,
+          model,
+          prompt,
+          tokenUsage: extractTokenUsage(null, pricing),
+          rawResponse: { error: details },
+          error: String(details.message),
+          createdAt,
+        });
+
+        if (isTransientLLMError(error) && retries < AI_MAX_RETRIES && canRetry()) {
+          retries++;
+          const delayMs = retryDelayMs(retries, error);
+          console.warn('AI provider call failed, retrying', {
+            provider: provider.name,
+            model,
+            attempt,
+            ...details,
+            retryInMs: delayMs,
+          });
+          await sleep(delayMs);
+          continue;
+        }
+
+        console.error('AI provider call failed', { provider: provider.name, model, attempt, repair, ...details });
+        lastError = error;
+        break;
+      }
+
+      const tokenUsage = extractTokenUsage(completion.usage, pricing);
+
+      // Token observability — post-call, one line per attempt
+      console.log('AI generation token usage', {
+        model,
+        promptVersion: prompt.promptVersion,
+        experimentArm: prompt.experimentArm,
+        routeReason: route.reason,
+        attempt,
+        repair,
+        ...tokenUsage,
+      });
+
+      try {
+        const value = interpret(completion.content, repair);
+        return {
+          value,
+          model,
+          route,
+          prompt,
+          tokenUsage,
+          rawResponse: completion.rawResponse,
+          attempt,
+          repair,
+          failedAttempts,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failedAttempts.push({
+          attempt,
+          repair,
+          model,
+          prompt,
+          tokenUsage,
+          rawResponse: completion.rawResponse,
+          error: message,
+          ...(error instanceof AIOutputValidationError && { fieldErrors: error.fieldErrors }),
+          createdAt,
+        });
+
+        if (repair || !(AI_REPAIR_ENABLED || error instanceof QualityRuleError)) {
+          lastError = error;
+          break;
+        }
+
+        console.warn('AI output rejected; sending one repair request', {
+          model,
+          attempt,
+          error: message,
+        });
+        repair = true;
+        current = buildRepairRequest({ ...request, model }, completion.content, error);
+      }
     }
   }
 
-  return `STEP PROGRESSION (each step is a DIFFERENT LAYER — not a different friction):\n${steps.join('\n')}`;
+  if (lastError instanceof QualityRuleError && lastError.blocking) {
+    throw new QualityRuleBlockedError(
+      lastError.violations.filter((v) => v.severity === 'block'),
+      failedAttempts
+    );
+  }
+  throw new AIGenerationError(
+    lastError instanceof AppError ? lastError.message : 'AI generation failed',
+    failedAttempts
+  );
+}
+
+/** The original conversation plus the bad response and what was wrong with it, field by field or rule by rule. */
+function buildRepairRequest(
+  request: LLMCompletionRequest,
+  badContent: string,
+  error: unknown
+): LLMCompletionRequest {
+  const message = error instanceof Error ? error.message : String(error);
+  const problem =
+    error instanceof AIOutputValidationError
+      ? error.fieldErrors.map((e) => `\n- ${e.path || 'response'}: ${e.message}`).join('')
+      : error instanceof QualityRuleError
+        ? error.violations.map((v) => `\n- ${v.message}`).join('')
+        : ` ${message.replace(/^AI generation failed:?\s*/, '') || 'response could not be used'}.`;
+
+  return {
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: badContent },
+      {
+        role: 'user',
+        content: `Your response failed validation:${problem}
+Return the complete corrected JSON object. Same schema and rules as before; keep everything that was already valid.
+
+Return ONLY JSON.`,
+      },
+    ],
+  };
+}
+
+/** Full jitter over the exponential window, but never sooner than the server asked. */
+function retryDelayMs(retry: number, error: unknown): number {
+  const window = Math.min(AI_RETRY_MAX_DELAY_MS, AI_RETRY_BASE_DELAY_MS * 2 ** (retry - 1));
+  const jittered = Math.random() * window;
+  return Math.round(Math.min(AI_RETRY_MAX_DELAY_MS, Math.max(jittered, retryAfterMs(error) ?? 0)));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Log any generation failure and collapse it into the standard AI error. */
+function normalizeGenerationError(error: any): AppError {
+  console.error('AI generation error', {
+    error: error instanceof Error ? error.message : String(error),
+    stack: process.env.NODE_ENV === 'development' && error instanceof Error ? error.stack : undefined,
+  });
+
+  if (error instanceof AppError) return error;
+
+  return new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
 }
 
 // ---------------------------------------------------------------------------
-// ONE system prompt (~400-500 tokens)
+// Adaptive step progression — narrative layers scale with sequence length
 // ---------------------------------------------------------------------------
 
-function buildSystemPrompt(sequenceLength: number): string {
-  return `You write LinkedIn DMs for B2B outbound automation. Output ONLY valid JSON.
+/** Layer instruction for each step of a sequence of the given length, in order. */
+function getStepLayers(template: PromptTemplate, sequenceLength: number): string[] {
+  const layer = (part: PromptPartName) => renderPrompt(template, part);
 
-{
-  "analysis": {
-    "prospect_insights": "Max 3 sentences. Reference one skill + one inferred responsibility.",
-    "personalization_hooks": ["hook referencing actual data", "hook referencing actual data"],
-    "value_proposition": "How our product reduces cross-functional friction for the prospect's team."
-  },
-  "messages": [{ "step": 1, "message": "DM text", "reasoning": "Angle: <layer> | Workflow: <named> | Signal: <data point>" }],
-  "confidence": 0.85
+  if (sequenceLength === 1) {
+    return [layer('layer_single')];
+  }
+  if (sequenceLength === 2) {
+    return [layer('layer_observation'), layer('layer_improvement')];
+  }
+  if (sequenceLength === 3) {
+    return [layer('layer_observation'), layer('layer_spotlight'), layer('layer_improvement')];
+  }
+  if (sequenceLength === 4) {
+    return [layer('layer_observation'), layer('layer_spotlight'), layer('layer_cause'), layer('layer_improvement')];
+  }
+
+  // 5+
+  const layers = [
+    layer('layer_observation'),
+    layer('layer_spotlight'),
+    layer('layer_cause'),
+    layer('layer_improvement'),
+    layer('layer_social_proof'),
+  ];
+  if (sequenceLength >= 6) {
+    layers.push(layer('layer_expansion'));
+  }
+  for (let i = 7; i <= sequenceLength; i++) {
+    layers.push(layer('layer_follow_up'));
+  }
+  return layers;
 }
 
-Generate exactly ${sequenceLength} messages. Pick ONE friction from the user prompt. Build ALL messages as a progressive ${sequenceLength}-layer narrative — not ${sequenceLength} restatements.
+function buildStepProgression(template: PromptTemplate, sequenceLength: number): string {
+  const steps = getStepLayers(template, sequenceLength).map((layer, i) => `${i + 1}: ${layer}`);
+  return renderPrompt(template, 'step_progression', { steps: steps.join('\n') });
+}
 
-SCOPE:
-- Sales roles: frame as direct workflow improvement (targeting, enrichment, personalization, pipeline velocity).
-- Non-sales roles: frame as UPSTREAM FRICTION REDUCTION from their perspective. Not "we help sales qualify" — instead describe what changes FOR THEM: fewer interruptions, less validation noise, better filtering before escalation, reduced internal back-and-forth. Example: instead of "We help sales qualify prospects earlier" → "We reduce how often security gets pulled into late-stage reviews for deals that were never a fit."
+// ---------------------------------------------------------------------------
+// ONE system prompt (~400-500 tokens)
+// ---------------------------------------------------------------------------
 
-RULES:
-- LinkedIn DMs only. No subject lines, signatures, placeholders.
-- Step 1: "Hi [Name]," + observation (<60 words). Steps 2+: no re-greeting.
-- Each step = new narrative layer. Spotlight and Improvement steps MUST use specific terms from company_context — not generic restatements. If context says "manual enrichment workflows", write "manual enrichment" in the message.
-- No invented stats. No numeric claims. Hooks must reference real prospect data.
-- BANNED: "Would you be open to a brief chat", "Would love to connect", "I imagine", "I came across your profile", "I've been following", "operational workflows", "save your team time", "innovative approach", "wasting valuable time and resources".
-- Reasoning: max 25 words. Angle = layer name, not friction name.
+function buildSystemPrompt(template: PromptTemplate, channels: Channel[]): string {
+  return renderPrompt(template, 'system', {
+    sequence_length: channels.length,
+    step_progression: buildStepProgression(template, channels.length),
+    channel_plan: channelsToPromptBlock(channels),
+  });
+}
+
+/**
+ * System prompt for rewriting a single step. Same rules as the full prompt,
+ * narrowed to the one layer that belongs at this position.
+ */
+function buildStepSystemPrompt(
+  template: PromptTemplate,
+  sequenceLength: number,
+  step: number,
+  channel: Channel
+): string {
+  return renderPrompt(template, 'step_system', {
+    step,
+    sequence_length: sequenceLength,
+    greeting_rule: renderPrompt(template, step === 1 ? 'greeting_first_step' : 'greeting_later_step'),
+    layer: getStepLayers(template, sequenceLength)[step - 1],
+    channel_rule: channelRule(channel),
+  });
+}
 
-${buildStepProgression(sequenceLength)}
+function buildStepUserPrompt(
+  template: PromptTemplate,
+  prospectData: ProspectData,
+  companyContext: string,
+  tovDescription: string,
+  strategy: MessageStrategy,
+  sequence: {
+    analysis: Record<string, any>;
+    messages: SequenceMessage[];
+  },
+  step: number
+): string {
+  const hooks = Array.isArray(sequence.analysis.personalization_hooks)
+    ? sequence.analysis.personalization_hooks.join(' | ')
+    : 'n/a';
 
-Confidence: 0.8-0.95 (clear signals), 0.6-0.79 (ambiguous), 0.4-0.59 (weak).`;
+  const steps = sequence.messages
+    .map((m) => {
+      const text = m.subject ? `[Subject: ${m.subject}] ${m.message}` : m.message;
+      return m.step === step
+        ? `Step ${m.step} (${m.channel}, REWRITE — replace entirely, do not paraphrase): ${text}`
+        : `Step ${m.step} (${m.channel}, FIXED): ${text}`;
+    })
+    .join('\n');
+
+  return renderPrompt(template, 'step_user', {
+    step,
+    sequence_length: sequence.messages.length,
+    grounding_context: buildGroundingContext(template, prospectData, companyContext, tovDescription, strategy),
+    value_proposition: str(sequence.analysis.value_proposition, false) || 'n/a',
+    personalization_hooks: hooks,
+    current_sequence: steps,
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -288,11 +1086,29 @@ Confidence: 0.8-0.95 (clear signals), 0.6-0.79 (ambiguous), 0.4-0.59 (weak).`;
 // ---------------------------------------------------------------------------
 
 function buildUserPrompt(
+  template: PromptTemplate,
   prospectData: ProspectData,
   companyContext: string,
   tovDescription: string,
   sequenceLength: number,
   strategy: MessageStrategy
+): string {
+  return renderPrompt(template, 'user', {
+    sequence_length: sequenceLength,
+    grounding_context: buildGroundingContext(template, prospectData, companyContext, tovDescription, strategy),
+  });
+}
+
+/**
+ * Prospect, company context, tone and friction blocks — the grounding shared
+ * by every prompt that writes messages for this prospect.
+ */
+function buildGroundingContext(
+  template: PromptTemplate,
+  prospectData: ProspectData,
+  companyContext: string,
+  tovDescription: string,
+  strategy: MessageStrategy
 ): string {
   const skills = prospectData.skills.length > 0 ? prospectData.skills.join(', ') : 'n/a';
   const responsibilities = prospectData.inferredResponsibilities.length > 0
@@ -312,306 +1128,157 @@ function buildUserPrompt(
   // The profile stays authentic — we don't fake their identity. The strategy tells
   // the model which frictions to surface and how to frame the value.
   const personaSignal = strategy.targetPersona !== prospectData.roleCategory
-    ? `\nTARGET PERSONA: ${strategy.targetPersona}. The prospect's profile is ${prospectData.roleCategory}, but the company_context is most relevant to ${strategy.targetPersona} frictions. Frame the outreach through ${strategy.targetPersona}-relevant pain points while personalizing with the prospect's actual skills and experience.`
+    ? renderPrompt(template, 'persona_signal', {
+        target_persona: strategy.targetPersona,
+        role_category: prospectData.roleCategory,
+      })
     : '';
 
   // Extract distinctive keywords from company_context — model MUST reference these.
   // This prevents generic framing and ensures different contexts produce different messages.
   const contextKeywords = extractContextKeywords(companyContext);
   const contextKeywordBlock = contextKeywords.length > 0
-    ? `\nCONTEXT KEYWORDS (use at least 2 of these verbatim in messages): ${contextKeywords.join(', ')}`
+    ? renderPrompt(template, 'context_keywords', { keywords: contextKeywords.join(', ') })
     : '';
 
-  return `Generate ${sequenceLength} LinkedIn DMs for this prospect.
-
-PROSPECT:
-- Name: ${prospectData.fullName}
-- Headline: ${prospectData.headline}
-- Company: ${prospectData.company}
-- Role: ${prospectData.roleCategory} (${prospectData.seniority})
-- Skills: ${skills}
-- Responsibilities: ${responsibilities}
-- Experience: ${experience}${personaSignal}
-
-COMPANY CONTEXT (what we sell): ${companyContext}${contextKeywordBlock}
-
-TONE: ${tovDescription}
-
-${frictionBlock}
-
-GROUNDING:
-- prospect_insights: reference one skill + one headline responsibility. Max 3 sentences.
-- personalization_hooks: exactly 2. Must reference actual data (skill name, company, headline keyword).
-- value_proposition: how our product reduces the chosen friction. Use specific terms from company_context — not generic restatements.
-- Pick ONE friction. Build ${sequenceLength} progressive layers. Last message = company_context + CTA.
-- Spotlight + Improvement steps MUST reference specific company_context terms (e.g. if context says "reduce manual enrichment workflows", say "manual enrichment" — not just "qualify prospects").
-
-Return ONLY JSON.`;
-}
-
-// ---------------------------------------------------------------------------
-// Structural validation (throws on failure)
-// ---------------------------------------------------------------------------
-
-function validateOutputStructure(parsed: any, sequenceLength: number): void {
-  if (!parsed || typeof parsed !== 'object') {
-    throw new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
-  }
-
-  if (!parsed.analysis || typeof parsed.analysis !== 'object') {
-    throw new AppError('AI generation failed: missing analysis', 500, 'AI_GENERATION_FAILED');
-  }
-
-  if (!Array.isArray(parsed.messages)) {
-    throw new AppError('AI generation failed: missing messages', 500, 'AI_GENERATION_FAILED');
-  }
-
-  if (typeof parsed.confidence !== 'number') {
-    throw new AppError('AI generation failed: missing confidence', 500, 'AI_GENERATION_FAILED');
-  }
-
-  if (parsed.messages.length !== sequenceLength) {
-    throw new AppError('AI generation failed: message count mismatch', 500, 'AI_GENERATION_FAILED');
-  }
-
-  for (const [index, msg] of parsed.messages.entries()) {
-    if (!msg || typeof msg !== 'object') {
-      throw new AppError(`AI generation failed: message ${index + 1} invalid`, 500, 'AI_GENERATION_FAILED');
-    }
-    // Normalize step to expected sequential value (models sometimes misnumber)
-    msg.step = index + 1;
-    if (typeof msg.message !== 'string' || !msg.message.trim()) {
-      throw new AppError(`AI generation failed: message ${index + 1} empty`, 500, 'AI_GENERATION_FAILED');
-    }
-    if (typeof msg.reasoning !== 'string' || !msg.reasoning.trim()) {
-      throw new AppError(`AI generation failed: reasoning ${index + 1} empty`, 500, 'AI_GENERATION_FAILED');
-    }
-  }
+  return renderPrompt(template, 'grounding_context', {
+    name: prospectData.fullName,
+    headline: prospectData.headline,
+    company: prospectData.company,
+    role_category: prospectData.roleCategory,
+    seniority: prospectData.seniority,
+    skills,
+    responsibilities,
+    experience,
+    persona_signal: personaSignal,
+    company_context: companyContext,
+    context_keywords: contextKeywordBlock,
+    tone: tovDescription,
+    friction_block: frictionBlock,
+  });
 }
 
 // ---------------------------------------------------------------------------
-// Content quality validation (code-level guardrails)
+// Structured output — the JSON schema sent with each call (utils/aiOutputSchema.ts)
 // ---------------------------------------------------------------------------
 
-function validateContentQuality(
-  parsed: Record<string, any>,
-  prospectData: ProspectData,
-  companyContext: string
-): string[] {
-  const issues: string[] = [];
-  const analysis = (parsed.analysis || {}) as Record<string, any>;
-  const insights = str(analysis.prospect_insights);
-  const valueProp = str(analysis.value_proposition);
-  const skills = prospectData.skills.map((s) => s.toLowerCase());
-  const headlineKw = extractSignalKeywords(prospectData.headline);
-
-  // --- No invented statistics ---
-  if (/\d+%/.test(insights) || /\d+%/.test(valueProp)) {
-    issues.push('analysis contains numeric percentage claims');
+// Channel limits and the greeting check are refinements, which the JSON
+// schema leaves out, so one schema serves every channel.
+const STEP_RESPONSE_SCHEMA: LLMResponseSchema = {
+  name: 'sequence_step',
+  schema: aiOutputJsonSchema(aiStepOutputSchema(DEFAULT_CHANNEL, null)),
+};
+
+const sequenceResponseSchemas = new Map<number, LLMResponseSchema>();
+
+function sequenceResponseSchema(sequenceLength: number): LLMResponseSchema {
+  let responseSchema = sequenceResponseSchemas.get(sequenceLength);
+  if (!responseSchema) {
+    const channels = Array.from({ length: sequenceLength }, () => DEFAULT_CHANNEL);
+    responseSchema = { name: 'sequence', schema: aiOutputJsonSchema(aiSequenceOutputSchema(channels)) };
+    sequenceResponseSchemas.set(sequenceLength, responseSchema);
   }
-
-  // --- prospect_insights grounding ---
-  if (skills.length > 0 && !hits(insights, skills)) {
-    issues.push('prospect_insights should reference at least one skill');
-  }
-  if (hits(insights, ANALYSIS_GENERIC_PHRASES)) {
-    issues.push('prospect_insights contains generic phrasing');
-  }
-
-  // --- personalization_hooks: must be exactly 2 ---
-  const hooks = Array.isArray(analysis.personalization_hooks) ? analysis.personalization_hooks : [];
-  if (hooks.length !== 2) {
-    issues.push(`personalization_hooks must be exactly 2 (found ${hooks.length})`);
-  }
-
-  // --- Hard domain claims only (not micro-policing) ---
-  if (!isSales(prospectData.roleCategory) && hits(valueProp, HARD_DOMAIN_CLAIMS)) {
-    issues.push('value_proposition claims improvement to core technical system');
-  }
-
-  // --- messages ---
-  for (const [i, msg] of parsed.messages.entries()) {
-    const text = str(msg.message);
-    const reasoning = String(msg.reasoning || '');
-    const reasoningLower = reasoning.toLowerCase();
-    const idx = i + 1;
-
-    // Step 1 length
-    if (i === 0) {
-      const wordCount = String(msg.message || '').trim().split(/\s+/).length;
-      if (wordCount > 60) {
-        issues.push(`message 1 exceeds 60 words (${wordCount})`);
-      }
-    }
-
-    // No invented stats
-    if (/\d+%/.test(text)) {
-      issues.push(`message ${idx} contains numeric percentage claim`);
-    }
-
-    // Generic filler
-    if (hits(text, GENERIC_FILLER_PHRASES)) {
-      issues.push(`message ${idx} contains generic filler`);
-    }
-
-    // Hard domain claims (non-sales only)
-    if (!isSales(prospectData.roleCategory) && hits(text, HARD_DOMAIN_CLAIMS)) {
-      issues.push(`message ${idx} claims improvement to core technical system`);
-    }
-
-    // Reasoning: check labels exist (lightly)
-    const angle = extractLabel(reasoningLower, 'angle');
-    const workflow = extractLabel(reasoningLower, 'workflow');
-    const signal = extractLabel(reasoningLower, 'signal');
-
-    if (!angle) issues.push(`message ${idx} reasoning missing Angle label`);
-    if (!workflow) issues.push(`message ${idx} reasoning missing Workflow label`);
-    // Signal: just check it mentions something concrete — no taxonomy enforcement
-    if (!signal || signal.length < 3) {
-      issues.push(`message ${idx} reasoning missing Signal (should mention a concrete profile element)`);
-    }
-  }
-
-  // --- narrative: all-question detection ---
-  if (parsed.messages.length >= 2) {
-    const questionCount = parsed.messages.filter(
-      (m: any) => String(m.message || '').trim().endsWith('?')
-    ).length;
-    if (questionCount === parsed.messages.length) {
-      issues.push('all messages end with questions — need progressive narrative layers');
-    }
-  }
-
-  // --- company_context keyword coverage ---
-  const ctxKeywords = extractContextKeywords(companyContext);
-  if (ctxKeywords.length > 0) {
-    const allMessageText = parsed.messages.map((m: any) => str(m.message)).join(' ') + ' ' + valueProp;
-    const matched = ctxKeywords.filter((kw) => allMessageText.includes(kw.toLowerCase()));
-    if (matched.length === 0) {
-      issues.push('no messages reference specific company_context terms — output may be too generic');
-    } else if (matched.length < 2 && ctxKeywords.length >= 3) {
-      issues.push(`only ${matched.length} context keyword(s) referenced (expected ≥2): ${matched.join(', ')}`);
-    }
-  }
-
-  // --- restatement detection ---
-  for (let i = 1; i < parsed.messages.length; i++) {
-    const prevWords = extractContentWords(str(parsed.messages[i - 1].message));
-    const currWords = extractContentWords(str(parsed.messages[i].message));
-    if (prevWords.size > 0 && currWords.size > 0) {
-      let overlap = 0;
-      for (const w of currWords) {
-        if (prevWords.has(w)) overlap++;
-      }
-      const ratio = overlap / Math.min(prevWords.size, currWords.size);
-      if (ratio > 0.5) {
-        issues.push(`messages ${i} and ${i + 1} are too similar (${Math.round(ratio * 100)}% overlap)`);
-      }
-    }
-  }
-
-  return issues;
+  return responseSchema;
 }
 
 // ---------------------------------------------------------------------------
 // In-code text sanitization (catches phrases that survive model passes)
 // ---------------------------------------------------------------------------
 
-const TEXT_REPLACEMENTS: [RegExp, string][] = [
-  // Grammar fixes (common model typos)
-  [/\bcan reduces\b/gi, 'can reduce'],
-  [/\bcan improves\b/gi, 'can improve'],
-  [/\bcan ensures\b/gi, 'can ensure'],
-  [/\bcan eliminates\b/gi, 'can eliminate'],
-  [/\bwhich helps? reduces?\b/gi, 'which reduces'],
-  [/\bthis means? fewer\b/gi, 'this means fewer'],
-  // Borderline domain phrasing → upstream friction framing
-  [/\bfewer disruptions (?:for|to) your (?:data )?pipelines?\b/gi, 'fewer ad-hoc requests reaching your team'],
-  [/\bdisruptions? (?:for|to) your (?:data )?pipelines?\b/gi, 'noise reaching your team from unqualified prospects'],
-  [/\bprotect(?:s|ing)? your (?:data )?pipelines?\b/gi, 'shields your team from unqualified upstream noise'],
-  [/\bfewer disruptions (?:for|to) your (?:core |critical )?(?:infrastructure|systems?)\b/gi, 'fewer unqualified requests pulling your team off planned work'],
-  // Abstract language → concrete framing
-  [/\bstreamlining\s+/gi, 'reducing '],
-  [/\bstreamlines?\s+the\b/gi, 'reduces friction in'],
-  [/\bstreamlines?\s/gi, 'reduces '],
-  [/\bsmoother\s+operational\b/gi, 'fewer disruptive'],
-  [/\boperational\s+workflows?\b/gi, 'cross-functional processes'],
-  [/\boperational\s+readiness\b/gi, 'team focus'],
-  [/\boperational\s+efficiency\b/gi, 'qualification clarity'],
-  [/\bcan disrupt workflow significantly\b/gi, 'pulls your team off planned work'],
-  [/\bsave your team time\b/gi, 'free your team from unqualified noise'],
-  [/\bwaste valuable time\b/gi, 'cost your team cycles on deals that never close'],
-  [/\bwasting valuable time and resources\b/gi, 'spending cycles on prospects that never close'],
-  [/\bwasted time and effort\b/gi, 'cycles lost to prospects that were never a fit'],
-  [/\bwasted time and resources\b/gi, 'effort spent on prospects that go nowhere'],
-];
-
-function sanitizeText(text: string): string {
-  let result = text;
-  for (const [pattern, replacement] of TEXT_REPLACEMENTS) {
-    result = result.replace(pattern, replacement);
-  }
-  return result;
-}
+/**
+ * Sanitize the analysis text and every message and subject in place. Returns the edits,
+ * one entry per field that changed.
+ */
+function sanitizeOutput(parsed: Record<string, any>, ruleSet: SanitizationRuleSet): SanitizedField[] {
+  const fields: SanitizedField[] = [];
+  const sanitize = (field: string, text: string): string => {
+    const sanitized = sanitizeField(ruleSet, field, text);
+    if (!sanitized) return text;
+    fields.push(sanitized);
+    return sanitized.after;
+  };
 
-function sanitizeOutput(parsed: Record<string, any>): void {
   if (parsed.analysis) {
     if (typeof parsed.analysis.value_proposition === 'string') {
-      parsed.analysis.value_proposition = sanitizeText(parsed.analysis.value_proposition);
+      parsed.analysis.value_proposition = sanitize('analysis.value_proposition', parsed.analysis.value_proposition);
     }
     if (typeof parsed.analysis.prospect_insights === 'string') {
-      parsed.analysis.prospect_insights = sanitizeText(parsed.analysis.prospect_insights);
+      parsed.analysis.prospect_insights = sanitize('analysis.prospect_insights', parsed.analysis.prospect_insights);
     }
   }
   if (Array.isArray(parsed.messages)) {
     for (const msg of parsed.messages) {
+      if (typeof msg.subject === 'string') {
+        msg.subject = sanitize(`messages.${msg.step}.subject`, msg.subject);
+      }
       if (typeof msg.message === 'string') {
-        msg.message = sanitizeText(msg.message);
+        msg.message = sanitize(`messages.${msg.step}.message`, msg.message);
       }
     }
   }
+
+  if (fields.length > 0) {
+    console.log('Sanitizer edited output', {
+      changes: fields.flatMap((f) => f.changes.map(({ id, ruleId }) => ({ id, ruleId }))),
+    });
+  }
+  return fields;
+}
+
+/**
+ * Replacements can lengthen a message past its channel's limit after the
+ * schema passed; fail the output the same way the schema would.
+ */
+function assertFitsChannels(messages: SequenceMessage[]): void {
+  const fieldErrors = messages.flatMap((msg) =>
+    checkChannelMessage(msg.channel, msg).map((problem) => ({
+      path: `messages.${msg.step - 1}.${problem.field}`,
+      message: `${problem.message} after sanitization`,
+    }))
+  );
+  if (fieldErrors.length > 0) {
+    throw new AIOutputValidationError(fieldErrors);
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Confidence calculation (grounding-based, not random)
 // ---------------------------------------------------------------------------
 
-function calculateConfidence(parsed: Record<string, any>, prospectData: ProspectData): number {
+const CONFIDENCE_BASE = 0.5;
+const CONFIDENCE_MIN = 0.4;
+const CONFIDENCE_MAX = 0.95;
+// Further apart than this, the model's self-rating is ignored.
+const CONFIDENCE_MAX_DIVERGENCE = 0.3;
+
+function calculateConfidence(
+  parsed: Record<string, any>,
+  prospectData: ProspectData
+): { score: number; factors: ConfidenceFactor[] } {
   const analysis = (parsed.analysis || {}) as Record<string, any>;
   const insights = str(analysis.prospect_insights);
   const valueProp = str(analysis.value_proposition);
   const skills = prospectData.skills.map((s) => s.toLowerCase());
   const headlineKw = extractSignalKeywords(prospectData.headline);
 
-  let score = 0.5;
-
   // Skills available and referenced
-  if (skills.length > 0) {
-    score += hits(insights, skills) ? 0.2 : -0.1;
-  } else {
-    score -= 0.1;
-  }
-
+  const skillsMatched = skills.length > 0 && hits(insights, skills);
   // Role inference
-  if (headlineKw.length > 0 && hits(insights, headlineKw)) {
-    score += 0.15;
-  } else {
-    score -= 0.1;
-  }
-
+  const headlineMatched = headlineKw.length > 0 && hits(insights, headlineKw);
   // Causal mapping
-  if (hasNamedWorkflow(valueProp) && headlineKw.length > 0 && hits(valueProp, headlineKw)) {
-    score += 0.15;
-  } else {
-    score -= 0.1;
-  }
-
+  const workflowMatched = hasNamedWorkflow(valueProp) && headlineKw.length > 0 && hits(valueProp, headlineKw);
   // Generic penalty
-  if (hits(insights, ANALYSIS_GENERIC_PHRASES)) {
-    score -= 0.2;
-  }
+  const genericMatched = hits(insights, ANALYSIS_GENERIC_PHRASES);
+
+  const factors: ConfidenceFactor[] = [
+    { factor: 'skills', matched: skillsMatched, contribution: skillsMatched ? 0.2 : -0.1 },
+    { factor: 'headline_keywords', matched: headlineMatched, contribution: headlineMatched ? 0.15 : -0.1 },
+    { factor: 'named_workflow', matched: workflowMatched, contribution: workflowMatched ? 0.15 : -0.1 },
+    { factor: 'generic_penalty', matched: genericMatched, contribution: genericMatched ? -0.2 : 0 },
+  ];
 
-  return Math.max(0.4, Math.min(0.95, score));
+  const score = factors.reduce((sum, f) => sum + f.contribution, CONFIDENCE_BASE);
+  return { score: Math.max(CONFIDENCE_MIN, Math.min(CONFIDENCE_MAX, score)), factors };
 }
 
 // ---------------------------------------------------------------------------
@@ -626,43 +1293,30 @@ function parseAIJsonContent(content: string): any {
       content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/```\s*([\s\S]*?)\s*```/);
     if (!jsonMatch) {
       console.error('Failed to parse AI response as JSON.', { snippet: content.slice(0, 300) });
-      throw new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
+      throw new AppError('AI generation failed: response is not valid JSON', 500, 'AI_GENERATION_FAILED');
     }
     try {
       return JSON.parse(jsonMatch[1]);
     } catch (e) {
       console.error('Failed to parse extracted JSON block.', { snippet: content.slice(0, 300) });
-      throw new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
+      throw new AppError('AI generation failed: response is not valid JSON', 500, 'AI_GENERATION_FAILED');
     }
   }
 }
 
-function extractTokenUsage(response: OpenAI.Chat.Completions.ChatCompletion): TokenUsage {
-  const promptTokens = response.usage?.prompt_tokens || 0;
-  const completionTokens = response.usage?.completion_tokens || 0;
-  const totalTokens = response.usage?.total_tokens || 0;
-  const estimatedCost =
-    (promptTokens / 1_000_000) * PROMPT_COST_PER_1M +
-    (completionTokens / 1_000_000) * COMPLETION_COST_PER_1M;
+function extractTokenUsage(usage: LLMUsage | null, pricing: LLMPricing): TokenUsage {
+  const promptTokens = usage?.promptTokens || 0;
+  const completionTokens = usage?.completionTokens || 0;
+  const totalTokens = usage?.totalTokens || 0;
+  const estimatedCost = estimateCost(pricing, promptTokens, completionTokens);
   return { promptTokens, completionTokens, totalTokens, estimatedCost };
 }
 
-
-/** Lowercase string helper */
-function str(val: unknown, lower = true): string {
-  const s = String(val || '');
-  return lower ? s.toLowerCase() : s;
-}
-
-/** Check if text contains any of the given tokens (case-insensitive) */
-function hits(text: string, tokens: string[]): boolean {
-  return tokens.some((t) => t && text.includes(t.toLowerCase()));
-}
-
-/** Extract a label value from reasoning (e.g. "Angle: ..." ) */
-function extractLabel(reasoning: string, label: string): string {
-  const match = reasoning.match(new RegExp(`${label}\\s*:\\s*([^|.;\\n]+)`, 'i'));
-  return match ? match[1].trim().toLowerCase() : '';
+function estimateCost(pricing: LLMPricing, promptTokens: number, completionTokens: number): number {
+  return (
+    (promptTokens / 1_000_000) * pricing.promptCostPer1M +
+    (completionTokens / 1_000_000) * pricing.completionCostPer1M
+  );
 }
 
 /** Check if text references a named outbound workflow */
@@ -672,87 +1326,3 @@ function hasNamedWorkflow(text: string): boolean {
   return /\b(handoff|triage|qualification|validation|pre-sales|interrupt|research load|review cycle)\b/.test(n);
 }
 
-/** Check if role is sales/revenue/BD — outbound automation IS their core workflow */
-function isSales(roleCategory: string): boolean {
-  const r = roleCategory.toLowerCase();
-  return r.includes('sales') || r.includes('revenue') || r.includes('business development');
-}
-
-/**
- * Extract distinctive keywords from company_context for prompt injection.
- * These are the terms the model MUST reference — they differentiate one context from another.
- * Strips common filler words and returns only signal-bearing terms.
- */
-function extractContextKeywords(companyContext: string): string[] {
-  const CONTEXT_STOPWORDS = new Set([
-    'we', 'our', 'help', 'helps', 'that', 'the', 'and', 'for', 'with',
-    'this', 'from', 'their', 'more', 'also', 'can', 'are', 'have',
-    'teams', 'team', 'companies', 'company', 'build', 'builds',
-    'so', 'to', 'by', 'of', 'in', 'an', 'a', 'is', 'it',
-  ]);
-
-  // Extract multi-word phrases first (2-3 word combinations that carry meaning)
-  const phrases: string[] = [];
-  const contextLower = companyContext.toLowerCase();
-  const SIGNAL_PHRASES = [
-    'manual enrichment', 'enrichment workflows', 'qualify prospects',
-    'sales teams', 'outbound automation', 'prospect data',
-    'security reviews', 'security questionnaires',
-    'qualification process', 'lead qualification', 'ICP matching',
-    'pipeline velocity', 'targeting precision', 'demo qualification',
-    'escalation volume', 'inbound triage', 'handoff quality',
-    'reduce manual', 'automate sales', 'personalization at scale',
-  ];
-  for (const phrase of SIGNAL_PHRASES) {
-    if (contextLower.includes(phrase.toLowerCase())) {
-      phrases.push(phrase);
-    }
-  }
-
-  // Extract single distinctive words
-  const words = companyContext
-    .toLowerCase()
-    .split(/[^a-z0-9-]+/)
-    .filter((w) => w.length >= 4 && !CONTEXT_STOPWORDS.has(w));
-
-  // Combine: phrases first (higher signal), then unique single words
-  const seen = new Set(phrases.map((p) => p.toLowerCase()));
-  const singles = words.filter((w) => {
-    if (seen.has(w)) return false;
-    // Skip words already covered by a phrase
-    for (const p of phrases) {
-      if (p.toLowerCase().includes(w)) return false;
-    }
-    seen.add(w);
-    return true;
-  });
-
-  return [...phrases, ...singles].slice(0, 8);
-}
-
-function extractSignalKeywords(text: string): string[] {
-  const tokens = text
-    .toLowerCase()
-    .split(/[^a-z0-9]+/)
-    .filter((t) => t.length >= 4 && !STOPWORDS.has(t));
-  return Array.from(new Set(tokens)).slice(0, 12);
-}
-
-/** Extract meaningful content words from text (for restatement detection) */
-function extractContentWords(text: string): Set<string> {
-  const filler = new Set([
-    ...STOPWORDS, 'your', 'team', 'often', 'these', 'that', 'they', 'them',
-    'which', 'when', 'what', 'where', 'many', 'most', 'some', 'more',
-    'also', 'just', 'like', 'have', 'been', 'will', 'would', 'could',
-    'should', 'does', 'didn', 'aren', 'isn', 'wasn', 'hasn', 'don',
-    'can', 'not', 'very', 'much', 'well', 'even', 'still', 'come',
-    'before', 'after', 'without', 'leading',
-  ]);
-  return new Set(
-    text.toLowerCase()
-      .split(/[^a-z]+/)
-      .filter((w) => w.length >= 4 && !filler.has(w))
-  );
-}
-
-export { PROMPT_VERSION, MODEL };
@@ -0,0 +1,339 @@
+import { createHash, randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { ApiKey, Tenant } from '@prisma/client';
+import prisma from '../db/prisma';
+import { AppError } from '../utils/errorHandler';
+import {
+  apiKeyIdParamsSchema,
+  createApiKeySchema,
+  createTenantSchema,
+  rotateApiKeySchema,
+  tenantIdParamsSchema,
+  updateApiKeySchema,
+  updateTenantSchema,
+} from '../utils/validation';
+import { assertWebhooksConfigured } from './webhookService';
+
+const KEY_PREFIX = 'sk_';
+
+// Characters of the key kept in clear for listings ("sk_" + 8).
+const DISPLAY_PREFIX_LENGTH = 11;
+
+// lastUsedAt is bookkeeping, not an audit log: write it at most this often per key.
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/** Who a request authenticated as. */
+export interface AuthContext {
+  tenantId: string;
+  apiKeyId: string;
+  /** The key's registered completion webhook, used when a request has no webhook_url. */
+  webhookUrl: string | null;
+}
+
+export type ApiKeySummary = Pick<
+  ApiKey,
+  | 'id'
+  | 'tenantId'
+  | 'name'
+  | 'prefix'
+  | 'rateLimitPerMinute'
+  | 'rateLimitBurst'
+  | 'webhookUrl'
+  | 'lastUsedAt'
+  | 'revokedAt'
+  | 'createdAt'
+>;
+
+/** Returned once, when a key is created or rotated. The plaintext key is not stored. */
+export interface IssuedApiKey {
+  apiKey: ApiKeySummary;
+  key: string;
+}
+
+// ---------------------------------------------------------------------------
+// Authentication
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a presented key to its tenant. Unknown, revoked and expired keys all
+ * get the same 401 so the response doesn't reveal which keys exist.
+ */
+export async function authenticateApiKey(key: string): Promise<AuthContext> {
+  const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } });
+
+  if (!apiKey || (apiKey.revokedAt && apiKey.revokedAt <= new Date())) {
+    throw new AppError('Invalid API key', 401, 'INVALID_API_KEY');
+  }
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || apiKey.lastUsedAt.getTime() < now.getTime() - LAST_USED_RESOLUTION_MS) {
+    void prisma.apiKey
+      .update({ where: { id: apiKey.id }, data: { lastUsedAt: now } })
+      .catch((error) => {
+        console.error('Failed to record API key use', {
+          apiKeyId: apiKey.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  return { tenantId: apiKey.tenantId, apiKeyId: apiKey.id, webhookUrl: apiKey.webhookUrl };
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+// ---------------------------------------------------------------------------
+// Admin: tenants
+// ---------------------------------------------------------------------------
+
+export async function createTenantService(input: unknown): Promise<Tenant> {
+  const { name, daily_budget_usd, monthly_budget_usd, prompt_version, quality_rules, sanitization_rules } =
+    createTenantSchema.parse(input);
+
+  const tenant = await prisma.tenant.create({
+    data: {
+      name,
+      dailyBudgetUsd: daily_budget_usd,
+      monthlyBudgetUsd: monthly_budget_usd,
+      promptVersion: prompt_version,
+      qualityRules: toOverridesInput(quality_rules),
+      sanitizationRules: toOverridesInput(sanitization_rules),
+    },
+  });
+  console.log('Tenant created', { tenantId: tenant.id });
+
+  return tenant;
+}
+
+/**
+ * Rename a tenant or change its budgets, prompt version, quality rule
+ * overrides or sanitization rules. A null budget, prompt version,
+ * quality_rules or sanitization_rules falls back to the server default.
+ * quality_rules and sanitization_rules replace the stored value as a whole.
+ */
+export async function updateTenantService(params: unknown, body: unknown): Promise<Tenant> {
+  const { id } = tenantIdParamsSchema.parse(params);
+  const { name, daily_budget_usd, monthly_budget_usd, prompt_version, quality_rules, sanitization_rules } =
+    updateTenantSchema.parse(body);
+
+  const tenant = await prisma.tenant.findUnique({ where: { id }, select: { id: true } });
+  if (!tenant) {
+    throw new AppError('Tenant not found', 404, 'TENANT_NOT_FOUND');
+  }
+
+  const updated = await prisma.tenant.update({
+    where: { id },
+    data: {
+      name,
+      dailyBudgetUsd: daily_budget_usd,
+      monthlyBudgetUsd: monthly_budget_usd,
+      promptVersion: prompt_version,
+      qualityRules: toOverridesInput(quality_rules),
+      sanitizationRules: toOverridesInput(sanitization_rules),
+    },
+  });
+  console.log('Tenant updated', {
+    tenantId: id,
+    dailyBudgetUsd: updated.dailyBudgetUsd,
+    monthlyBudgetUsd: updated.monthlyBudgetUsd,
+    promptVersion: updated.promptVersion,
+    qualityRules: updated.qualityRules,
+    sanitizationRules: updated.sanitizationRules,
+  });
+
+  return updated;
+}
+
+/** Absent leaves the column as is; null clears it. */
+function toOverridesInput(
+  overrides: object | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.JsonNull | undefined {
+  if (overrides === undefined) return undefined;
+  return overrides === null ? Prisma.JsonNull : (overrides as Prisma.InputJsonValue);
+}
+
+export async function listTenantsService(): Promise<{ data: Tenant[] }> {
+  const data = await prisma.tenant.findMany({ orderBy: { createdAt: 'asc' } });
+  return { data };
+}
+
+// ---------------------------------------------------------------------------
+// Admin: API keys
+// ---------------------------------------------------------------------------
+
+const apiKeySummarySelect = {
+  id: true,
+  tenantId: true,
+  name: true,
+  prefix: true,
+  rateLimitPerMinute: true,
+  rateLimitBurst: true,
+  webhookUrl: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Issue a new key for a tenant. The response is the only time the key is
+ * visible; only its SHA-256 hash is stored.
+ */
+export async function createApiKeyService(params: unknown, body: unknown): Promise<IssuedApiKey> {
+  const { id: tenantId } = tenantIdParamsSchema.parse(params);
+  const { name, rate_limit_per_minute, rate_limit_burst, webhook_url } = createApiKeySchema.parse(body);
+  assertWebhooksConfigured(webhook_url);
+
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { id: true } });
+  if (!tenant) {
+    throw new AppError('Tenant not found', 404, 'TENANT_NOT_FOUND');
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      tenantId,
+      name,
+      prefix,
+      keyHash,
+      rateLimitPerMinute: rate_limit_per_minute,
+      rateLimitBurst: rate_limit_burst,
+      webhookUrl: webhook_url,
+    },
+    select: apiKeySummarySelect,
+  });
+
+  console.log('API key created', { tenantId, apiKeyId: apiKey.id, prefix });
+
+  return { apiKey, key };
+}
+
+export async function listApiKeysService(params: unknown): Promise<{ data: ApiKeySummary[] }> {
+  const { id: tenantId } = tenantIdParamsSchema.parse(params);
+
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { id: true } });
+  if (!tenant) {
+    throw new AppError('Tenant not found', 404, 'TENANT_NOT_FOUND');
+  }
+
+  const data = await prisma.apiKey.findMany({
+    where: { tenantId },
+    orderBy: { createdAt: 'asc' },
+    select: apiKeySummarySelect,
+  });
+
+  return { data };
+}
+
+/**
+ * Rename a key or change its rate limit or webhook. A null limit falls back
+ * to the server default; a null webhook_url removes the key's webhook. Takes
+ * effect on the key's next request.
+ */
+export async function updateApiKeyService(params: unknown, body: unknown): Promise<ApiKeySummary> {
+  const { id } = apiKeyIdParamsSchema.parse(params);
+  const { name, rate_limit_per_minute, rate_limit_burst, webhook_url } = updateApiKeySchema.parse(body);
+  assertWebhooksConfigured(webhook_url);
+
+  const current = await findActiveApiKey(id);
+  const apiKey = await prisma.apiKey.update({
+    where: { id: current.id },
+    data: {
+      name,
+      rateLimitPerMinute: rate_limit_per_minute,
+      rateLimitBurst: rate_limit_burst,
+      webhookUrl: webhook_url,
+    },
+    select: apiKeySummarySelect,
+  });
+
+  console.log('API key updated', {
+    tenantId: apiKey.tenantId,
+    apiKeyId: apiKey.id,
+    rateLimitPerMinute: apiKey.rateLimitPerMinute,
+    rateLimitBurst: apiKey.rateLimitBurst,
+    webhookUrl: apiKey.webhookUrl,
+  });
+
+  return apiKey;
+}
+
+/**
+ * Replace a key with a new one under the same name, rate limit and webhook. The old
+ * key stops working immediately, or after `grace_period_seconds` so clients
+ * can switch over.
+ */
+export async function rotateApiKeyService(
+  params: unknown,
+  body: unknown
+): Promise<IssuedApiKey & { previousKeyRevokedAt: Date }> {
+  const { id } = apiKeyIdParamsSchema.parse(params);
+  const { grace_period_seconds } = rotateApiKeySchema.parse(body ?? {});
+
+  const current = await findActiveApiKey(id);
+  if (current.revokedAt) {
+    // Still inside an earlier rotation's grace period.
+    throw new AppError('API key has already been rotated', 409, 'API_KEY_ALREADY_ROTATED');
+  }
+
+  const revokedAt = new Date(Date.now() + grace_period_seconds * 1000);
+  const { key, prefix, keyHash } = generateApiKey();
+
+  const apiKey = await prisma.$transaction(async (tx) => {
+    await tx.apiKey.update({ where: { id: current.id }, data: { revokedAt } });
+    return tx.apiKey.create({
+      data: {
+        tenantId: current.tenantId,
+        name: current.name,
+        prefix,
+        keyHash,
+        rateLimitPerMinute: current.rateLimitPerMinute,
+        rateLimitBurst: current.rateLimitBurst,
+        webhookUrl: current.webhookUrl,
+      },
+      select: apiKeySummarySelect,
+    });
+  });
+
+  console.log('API key rotated', {
+    tenantId: current.tenantId,
+    previousApiKeyId: current.id,
+    apiKeyId: apiKey.id,
+    previousKeyRevokedAt: revokedAt,
+  });
+
+  return { apiKey, key, previousKeyRevokedAt: revokedAt };
+}
+
+/**
+ * Revoke a key now, including one still in a rotation grace period.
+ * Revoking an already revoked key is a 404.
+ */
+export async function revokeApiKeyService(params: unknown): Promise<ApiKeySummary> {
+  const { id } = apiKeyIdParamsSchema.parse(params);
+
+  const current = await findActiveApiKey(id);
+  const apiKey = await prisma.apiKey.update({
+    where: { id: current.id },
+    data: { revokedAt: new Date() },
+    select: apiKeySummarySelect,
+  });
+
+  console.log('API key revoked', { tenantId: apiKey.tenantId, apiKeyId: apiKey.id });
+
+  return apiKey;
+}
+
+async function findActiveApiKey(id: string): Promise<ApiKey> {
+  const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+  if (!apiKey || (apiKey.revokedAt && apiKey.revokedAt <= new Date())) {
+    throw new AppError('API key not found', 404, 'API_KEY_NOT_FOUND');
+  }
+  return apiKey;
+}
@@ -0,0 +1,473 @@
+import type { BatchItem, GenerationBatch } from '@prisma/client';
+import prisma from '../db/prisma';
+import { AppError } from '../utils/errorHandler';
+import { parseCsv } from '../utils/csvParser';
+import {
+  batchIdParamsSchema,
+  createBatchSchema,
+  csvBatchQuerySchema,
+} from '../utils/validation';
+import type { BatchRow, CreateBatchInput, GenerateSequenceInput } from '../utils/validation';
+import { AIGenerationError } from './aiService';
+import { failedAttemptsTokenUsage } from './generationAttemptService';
+import { runSequenceGeneration } from './sequenceService';
+import { assertWebhooksConfigured, notifySequenceCreated, notifySequenceFailed } from './webhookService';
+import { assertWithinBudget } from './usageService';
+
+// Generations in flight per batch. Bounded so a 500-row upload doesn't fan out
+// into 500 parallel OpenAI calls and exhaust the Prisma connection pool.
+const BATCH_CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY) || 3);
+
+// A running item's process touches heartbeatAt this often.
+const ITEM_HEARTBEAT_MS = 30 * 1000;
+
+// A running item without a heartbeat for this long is assumed orphaned by a crash.
+const STALE_ITEM_AFTER_MS = 4 * ITEM_HEARTBEAT_MS;
+
+// An item whose run keeps crashing its process is failed after this many claims.
+const BATCH_ITEM_MAX_ATTEMPTS = 3;
+
+// How often each API instance looks for batches with unclaimed or orphaned items.
+const BATCH_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Batches this process is running, so a sweep doesn't start a second loop for one.
+const activeBatches = new Set<string>();
+
+export interface BatchSummary {
+  id: string;
+  status: GenerationBatch['status'];
+  companyContext: string;
+  sequenceLength: number;
+  createdAt: Date;
+  completedAt: Date | null;
+  progress: {
+    total: number;
+    pending: number;
+    running: number;
+    succeeded: number;
+    failed: number;
+    cached: number;
+    percentComplete: number;
+  };
+  totalTokens: number;
+  totalEstimatedCost: number;
+}
+
+// ---------------------------------------------------------------------------
+// Input normalization (JSON body or CSV upload → CreateBatchInput)
+// ---------------------------------------------------------------------------
+
+/**
+ * Build batch input from a CSV upload. Batch defaults come from the query
+ * string; the CSV must have a `prospect_url` column and may override
+ * `company_context`, `formality`, `warmth`, `directness` and `sequence_length` per row.
+ */
+export function csvToBatchInput(csv: string, query: unknown): CreateBatchInput {
+  const defaults = csvBatchQuerySchema.parse(query);
+  const records = parseCsv(csv);
+
+  if (records.length > 0 && !('prospect_url' in records[0])) {
+    throw new AppError('CSV must include a prospect_url column', 400, 'INVALID_CSV');
+  }
+
+  const prospects = records.map((record) => {
+    const row: Record<string, unknown> = { prospect_url: record.prospect_url };
+
+    if (record.company_context) row.company_context = record.company_context;
+    if (record.sequence_length) row.sequence_length = Number(record.sequence_length);
+
+    const tov: Record<string, number> = {};
+    for (const key of ['formality', 'warmth', 'directness'] as const) {
+      if (record[key]) tov[key] = Number(record[key]);
+    }
+    if (Object.keys(tov).length > 0) row.tov_config = tov;
+
+    return row;
+  });
+
+  return createBatchSchema.parse({
+    company_context: defaults.company_context,
+    tov_config: {
+      formality: defaults.formality,
+      warmth: defaults.warmth,
+      directness: defaults.directness,
+    },
+    sequence_length: defaults.sequence_length,
+    prospects,
+    webhook_url: defaults.webhook_url,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Create + run
+// ---------------------------------------------------------------------------
+
+/**
+ * Persist a batch with one item per prospect row, then start processing it
+ * in the background. Returns as soon as the rows are stored.
+ */
+export async function createBatchService(
+  tenantId: string,
+  input: unknown
+): Promise<{ batchId: string; status: GenerationBatch['status']; totalItems: number }> {
+  const { company_context, tov_config, sequence_length, prospects, webhook_url } =
+    createBatchSchema.parse(input);
+  assertWebhooksConfigured(webhook_url);
+  await assertWithinBudget(tenantId);
+
+  const rows: BatchRow[] = prospects.map((p) => (typeof p === 'string' ? { prospect_url: p } : p));
+
+  const batch = await prisma.generationBatch.create({
+    data: {
+      tenantId,
+      companyContext: company_context,
+      tovConfig: tov_config,
+      sequenceLength: sequence_length,
+      totalItems: rows.length,
+      webhookUrl: webhook_url,
+      items: {
+        create: rows.map(({ prospect_url, ...overrides }, rowIndex) => ({
+          rowIndex,
+          prospectUrl: prospect_url,
+          overrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+        })),
+      },
+    },
+  });
+
+  console.log('Generation batch created', { batchId: batch.id, totalItems: rows.length });
+
+  void runBatch(batch.id).catch((error) => {
+    console.error('Batch run crashed', {
+      batchId: batch.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+  return { batchId: batch.id, status: batch.status, totalItems: rows.length };
+}
+
+/**
+ * Process the items of a batch with bounded concurrency.
+ * Each row goes through runSequenceGeneration, so idempotent hits are reused
+ * and recorded as `cached` with zero token cost. With a batch webhook_url,
+ * every row sends its own sequence.created / sequence.failed event. Rows
+ * reached after the tenant's budget runs out fail with "budget exceeded".
+ *
+ * Items are claimed one at a time with the same SKIP LOCKED pattern as
+ * claimNextJob, so several API instances can run the same batch without
+ * running an item twice. The batch is completed by whichever instance
+ * finishes its last item.
+ */
+export async function runBatch(batchId: string): Promise<void> {
+  if (activeBatches.has(batchId)) return;
+  activeBatches.add(batchId);
+
+  try {
+    const batch = await prisma.generationBatch.findUnique({ where: { id: batchId } });
+    if (!batch || batch.status !== 'processing') {
+      return;
+    }
+
+    await failExhaustedStaleItems(batch);
+
+    let processed = 0;
+    const workers = Array.from({ length: BATCH_CONCURRENCY }, async () => {
+      for (let item = await claimNextBatchItem(batchId); item; item = await claimNextBatchItem(batchId)) {
+        await runBatchItem(batch, item);
+        processed++;
+      }
+    });
+    await Promise.all(workers);
+
+    const { count } = await prisma.generationBatch.updateMany({
+      where: { id: batchId, status: 'processing', items: { none: { status: { in: ['pending', 'running'] } } } },
+      data: { status: 'completed', completedAt: new Date() },
+    });
+
+    if (count > 0) {
+      console.log('Generation batch completed', { batchId, items: batch.totalItems });
+    } else if (processed > 0) {
+      console.log('Batch items processed; others are still running elsewhere', { batchId, processed });
+    }
+  } finally {
+    activeBatches.delete(batchId);
+  }
+}
+
+/**
+ * Atomically claim the next pending item of a batch, or a running one whose
+ * process stopped sending heartbeats and that has attempts left.
+ */
+async function claimNextBatchItem(batchId: string): Promise<BatchItem | null> {
+  const staleBefore = new Date(Date.now() - STALE_ITEM_AFTER_MS);
+
+  const rows = await prisma.$queryRaw<BatchItem[]>`
+    UPDATE "batch_items"
+    SET "status" = 'running',
+        "attempts" = "attempts" + 1,
+        "heartbeatAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "batch_items"
+      WHERE "batchId" = ${batchId}
+        AND ("status" = 'pending'
+          OR ("status" = 'running' AND "heartbeatAt" < ${staleBefore} AND "attempts" < ${BATCH_ITEM_MAX_ATTEMPTS}))
+      ORDER BY "rowIndex" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return rows[0] ?? null;
+}
+
+/** Fail orphaned items with no attempts left, so they can't keep the batch open. */
+async function failExhaustedStaleItems(batch: GenerationBatch): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_ITEM_AFTER_MS);
+
+  const items = await prisma.$queryRaw<BatchItem[]>`
+    UPDATE "batch_items"
+    SET "status" = 'failed',
+        "error" = 'Stopped responding on the last attempt',
+        "completedAt" = NOW()
+    WHERE "batchId" = ${batch.id}
+      AND "status" = 'running'
+      AND "heartbeatAt" < ${staleBefore}
+      AND "attempts" >= ${BATCH_ITEM_MAX_ATTEMPTS}
+    RETURNING *
+  `;
+
+  for (const item of items) {
+    console.warn('Batch item failed', {
+      batchId: batch.id,
+      rowIndex: item.rowIndex,
+      prospectUrl: item.prospectUrl,
+      error: item.error,
+    });
+
+    await notifySequenceFailed(
+      batch.webhookUrl,
+      buildItemInput(batch, item),
+      new AppError(item.error ?? 'Batch item failed', 500, 'BATCH_ITEM_ABANDONED'),
+      { type: 'batch', batchId: batch.id, rowIndex: item.rowIndex }
+    );
+  }
+}
+
+async function runBatchItem(batch: GenerationBatch, item: BatchItem): Promise<void> {
+  const heartbeat = setInterval(() => {
+    prisma.batchItem
+      .updateMany({ where: { id: item.id, status: 'running' }, data: { heartbeatAt: new Date() } })
+      .catch((error) => {
+        console.error('Failed to record batch item heartbeat', {
+          batchItemId: item.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }, ITEM_HEARTBEAT_MS);
+  heartbeat.unref();
+
+  try {
+    await runClaimedBatchItem(batch, item);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function runClaimedBatchItem(batch: GenerationBatch, item: BatchItem): Promise<void> {
+  const input = buildItemInput(batch, item);
+  const source = { type: 'batch' as const, batchId: batch.id, rowIndex: item.rowIndex };
+
+  try {
+    const outcome = await runSequenceGeneration(batch.tenantId, input);
+
+    await prisma.batchItem.update({
+      where: { id: item.id },
+      data: {
+        status: 'succeeded',
+        sequenceId: outcome.response.id,
+        cached: outcome.cached,
+        totalTokens: outcome.tokenUsage?.totalTokens ?? 0,
+        estimatedCost: outcome.tokenUsage?.estimatedCost ?? 0,
+        error: null,
+        completedAt: new Date(),
+      },
+    });
+
+    await notifySequenceCreated(batch.webhookUrl, outcome.response, outcome.cached, source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Failed model calls are billed too; count them toward the batch's totals.
+    const usage = error instanceof AIGenerationError ? failedAttemptsTokenUsage(error.failedAttempts) : null;
+
+    await prisma.batchItem.update({
+      where: { id: item.id },
+      data: {
+        status: 'failed',
+        totalTokens: usage?.totalTokens ?? 0,
+        estimatedCost: usage?.estimatedCost ?? 0,
+        error: message,
+        completedAt: new Date(),
+      },
+    });
+
+    console.warn('Batch item failed', {
+      batchId: batch.id,
+      rowIndex: item.rowIndex,
+      prospectUrl: item.prospectUrl,
+      error: message,
+    });
+
+    await notifySequenceFailed(batch.webhookUrl, input, error, source);
+  }
+}
+
+/** Merge the batch defaults with a row's overrides into a generate-sequence request. */
+function buildItemInput(batch: GenerationBatch, item: BatchItem): GenerateSequenceInput {
+  const overrides = (item.overrides ?? {}) as Omit<BatchRow, 'prospect_url'>;
+  const tovDefaults = batch.tovConfig as GenerateSequenceInput['tov_config'];
+
+  return {
+    prospect_url: item.prospectUrl,
+    company_context: overrides.company_context ?? batch.companyContext,
+    tov_config: { ...tovDefaults, ...overrides.tov_config },
+    sequence_length: overrides.sequence_length ?? batch.sequenceLength,
+  };
+}
+
+/**
+ * Pick up batches that have items nobody is running: pending ones left by a
+ * restart, and running ones whose process died (once their heartbeat is
+ * stale). Claiming keeps instances from running the same item, so every
+ * instance can sweep.
+ */
+export async function resumeIncompleteBatches(): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_ITEM_AFTER_MS);
+  const batches = await prisma.generationBatch.findMany({
+    where: {
+      status: 'processing',
+      items: {
+        some: {
+          OR: [{ status: 'pending' }, { status: 'running', heartbeatAt: { lt: staleBefore } }],
+        },
+      },
+    },
+    select: { id: true },
+  });
+
+  for (const { id } of batches) {
+    if (activeBatches.has(id)) continue;
+    console.log('Resuming interrupted batch', { batchId: id });
+    void runBatch(id).catch((error) => {
+      console.error('Batch run crashed', {
+        batchId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+}
+
+/** Sweep for interrupted batches now and every BATCH_SWEEP_INTERVAL_MS. */
+export function startBatchSweeper(): void {
+  const sweep = () =>
+    resumeIncompleteBatches().catch((error) => {
+      console.error('Failed to resume interrupted batches', error);
+    });
+
+  void sweep();
+  setInterval(sweep, BATCH_SWEEP_INTERVAL_MS).unref();
+}
+
+// ---------------------------------------------------------------------------
+// Read
+// ---------------------------------------------------------------------------
+
+/**
+ * Progress, token and cost totals for a batch.
+ */
+export async function getBatchSummaryService(
+  tenantId: string,
+  params: unknown
+): Promise<BatchSummary> {
+  const { id } = batchIdParamsSchema.parse(params);
+
+  const batch = await prisma.generationBatch.findFirst({ where: { id, tenantId } });
+  if (!batch) {
+    throw new AppError('Batch not found', 404, 'BATCH_NOT_FOUND');
+  }
+
+  const [statusCounts, cached, totals] = await Promise.all([
+    prisma.batchItem.groupBy({
+      by: ['status'],
+      where: { batchId: id },
+      _count: { _all: true },
+    }),
+    prisma.batchItem.count({ where: { batchId: id, cached: true } }),
+    prisma.batchItem.aggregate({
+      where: { batchId: id },
+      _sum: { totalTokens: true, estimatedCost: true },
+    }),
+  ]);
+
+  const count = (status: BatchItem['status']) =>
+    statusCounts.find((c) => c.status === status)?._count._all ?? 0;
+
+  const succeeded = count('succeeded');
+  const failed = count('failed');
+
+  return {
+    id: batch.id,
+    status: batch.status,
+    companyContext: batch.companyContext,
+    sequenceLength: batch.sequenceLength,
+    createdAt: batch.createdAt,
+    completedAt: batch.completedAt,
+    progress: {
+      total: batch.totalItems,
+      pending: count('pending'),
+      running: count('running'),
+      succeeded,
+      failed,
+      cached,
+      percentComplete:
+        batch.totalItems > 0 ? Math.round(((succeeded + failed) / batch.totalItems) * 100) : 100,
+    },
+    totalTokens: totals._sum.totalTokens ?? 0,
+    totalEstimatedCost: totals._sum.estimatedCost ?? 0,
+  };
+}
+
+/**
+ * Per-row status of a batch, in upload order.
+ */
+export async function listBatchItemsService(tenantId: string, params: unknown) {
+  const { id } = batchIdParamsSchema.parse(params);
+
+  const batch = await prisma.generationBatch.findFirst({
+    where: { id, tenantId },
+    select: { id: true },
+  });
+  if (!batch) {
+    throw new AppError('Batch not found', 404, 'BATCH_NOT_FOUND');
+  }
+
+  const items = await prisma.batchItem.findMany({
+    where: { batchId: id },
+    orderBy: { rowIndex: 'asc' },
+    select: {
+      rowIndex: true,
+      prospectUrl: true,
+      overrides: true,
+      status: true,
+      sequenceId: true,
+      cached: true,
+      totalTokens: true,
+      estimatedCost: true,
+      error: true,
+      completedAt: true,
+    },
+  });
+
+  return { batchId: id, items };
+}
@@ -0,0 +1,188 @@
+import { Prisma } from '@prisma/client';
+import type { SequenceCandidate } from '@prisma/client';
+import prisma from '../db/prisma';
+import type { QualityViolation } from '../quality';
+import { AppError } from '../utils/errorHandler';
+import { sequenceCandidateParamsSchema, sequenceIdParamsSchema } from '../utils/validation';
+import { ensureOriginalRevision, lockSequence, nextRevisionNumber } from './revisionService';
+import { toSequenceResponse } from './sequenceService';
+import type { SequenceResponse } from './sequenceService';
+
+/**
+ * Candidate sequences: the alternatives stored when a sequence was generated
+ * with `n_candidates` > 1. The sequence holds the best-ranked candidate until
+ * a reviewer selects another one.
+ */
+
+type SequenceMessage = SequenceResponse['messages'][number];
+
+export interface CandidateResponse {
+  id: string;
+  rank: number;
+  score: number;
+  confidence: number;
+  qualityIssues: string[];
+  triggeredRules: QualityViolation[];
+  /** Whether the sequence currently holds this candidate. */
+  selected: boolean;
+  selectedAt: Date | null;
+  aiGenerationId: string;
+  analysis: Record<string, any>;
+  messages: SequenceMessage[];
+  createdAt: Date;
+}
+
+export interface CandidateSelectionResponse {
+  sequence: SequenceResponse;
+  candidate: CandidateResponse;
+  /** Steps whose text changed; each got an `ai_candidate` revision. */
+  changedSteps: number[];
+}
+
+/** Candidates of a sequence, best-ranked first. Empty for single-candidate sequences. */
+export async function listCandidatesService(
+  tenantId: string,
+  params: unknown
+): Promise<{ sequenceId: string; data: CandidateResponse[] }> {
+  const { id } = sequenceIdParamsSchema.parse(params);
+
+  const sequence = await prisma.messageSequence.findFirst({
+    where: { id, tenantId },
+    select: { id: true },
+  });
+  if (!sequence) {
+    throw new AppError('Sequence not found', 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  const candidates = await prisma.sequenceCandidate.findMany({
+    where: { sequenceId: id },
+    orderBy: { rank: 'asc' },
+  });
+
+  return { sequenceId: id, data: candidates.map(toCandidateResponse) };
+}
+
+/**
+ * Make the sequence hold another candidate. Its analysis, confidence,
+ * triggered quality rules, diagnostics and sanitizer edits replace the sequence's, and every step whose text differs is recorded as
+ * an `ai_candidate` revision linked to the candidate's AIGeneration, so edits
+ * made before the switch stay in the revision history. Selecting the
+ * candidate the sequence already holds changes nothing.
+ */
+export async function selectCandidateService(
+  tenantId: string,
+  params: unknown
+): Promise<CandidateSelectionResponse> {
+  const { id, candidateId } = sequenceCandidateParamsSchema.parse(params);
+
+  const sequence = await prisma.messageSequence.findFirst({ where: { id, tenantId } });
+  if (!sequence) {
+    throw new AppError('Sequence not found', 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  const candidate = await prisma.sequenceCandidate.findFirst({
+    where: { id: candidateId, sequenceId: id },
+    include: { aiGeneration: { select: { diagnostics: true, sanitization: true } } },
+  });
+  if (!candidate) {
+    throw new AppError('Candidate not found', 404, 'CANDIDATE_NOT_FOUND');
+  }
+
+  if (candidate.selected) {
+    return { sequence: toSequenceResponse(sequence), candidate: toCandidateResponse(candidate), changedSteps: [] };
+  }
+
+  const next = candidate.messages as unknown as SequenceMessage[];
+
+  const result = await prisma.$transaction(async (tx) => {
+    const locked = await lockSequence(tx, id);
+    const lockedCandidate = await tx.sequenceCandidate.findUniqueOrThrow({ where: { id: candidateId } });
+    if (lockedCandidate.selected) {
+      return { updated: locked, selected: lockedCandidate, changed: [] as SequenceMessage[] };
+    }
+
+    const current = locked.messages as SequenceMessage[];
+    const changed = next.filter((message) => {
+      const existing = current.find((m) => m.step === message.step);
+      return (
+        !existing ||
+        existing.message !== message.message ||
+        existing.subject !== message.subject ||
+        existing.reasoning !== message.reasoning
+      );
+    });
+
+    for (const message of changed) {
+      const existing = current.find((m) => m.step === message.step);
+      if (existing) {
+        await ensureOriginalRevision(tx, id, existing);
+      }
+
+      await tx.sequenceRevision.create({
+        data: {
+          sequenceId: id,
+          step: message.step,
+          revision: await nextRevisionNumber(tx, id, message.step),
+          source: 'ai_candidate',
+          message: message.message,
+          subject: message.subject,
+          reasoning: message.reasoning,
+          aiGenerationId: candidate.aiGenerationId,
+        },
+      });
+    }
+
+    await tx.sequenceCandidate.updateMany({
+      where: { sequenceId: id, selected: true },
+      data: { selected: false },
+    });
+    const selected = await tx.sequenceCandidate.update({
+      where: { id: candidateId },
+      data: { selected: true, selectedAt: new Date() },
+    });
+
+    const updated = await tx.messageSequence.update({
+      where: { id },
+      data: {
+        messages: candidate.messages as Prisma.InputJsonValue,
+        analysis: candidate.analysis as Prisma.InputJsonValue,
+        confidence: candidate.confidence,
+        triggeredRules: candidate.triggeredRules as Prisma.InputJsonValue,
+        diagnostics: (candidate.aiGeneration.diagnostics ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+        sanitization: (candidate.aiGeneration.sanitization ?? []) as Prisma.InputJsonValue,
+      },
+    });
+
+    return { updated, selected, changed };
+  });
+
+  console.log('Sequence candidate selected', {
+    sequenceId: id,
+    candidateId,
+    rank: candidate.rank,
+    changedSteps: result.changed.map((m) => m.step),
+  });
+
+  return {
+    sequence: toSequenceResponse(result.updated),
+    candidate: toCandidateResponse(result.selected),
+    changedSteps: result.changed.map((m) => m.step),
+  };
+}
+
+function toCandidateResponse(candidate: SequenceCandidate): CandidateResponse {
+  return {
+    id: candidate.id,
+    rank: candidate.rank,
+    score: candidate.score,
+    confidence: candidate.confidence,
+    qualityIssues: candidate.qualityIssues as string[],
+    triggeredRules: candidate.triggeredRules as unknown as QualityViolation[],
+    selected: candidate.selected,
+    selectedAt: candidate.selectedAt,
+    aiGenerationId: candidate.aiGenerationId,
+    analysis: candidate.analysis as Record<string, any>,
+    messages: candidate.messages as unknown as SequenceMessage[],
+    createdAt: candidate.createdAt,
+  };
+}
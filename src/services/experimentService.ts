@@ -0,0 +1,323 @@
+import { Prisma } from '@prisma/client';
+import type { PromptExperiment, SequenceOutcome } from '@prisma/client';
+import prisma from '../db/prisma';
+import { getPromptTemplate, isPromptVersion } from '../prompts';
+import { AppError } from '../utils/errorHandler';
+import { assignArm } from '../utils/experimentArms';
+import type { ExperimentArm } from '../utils/experimentArms';
+import {
+  createExperimentSchema,
+  experimentIdParamsSchema,
+  recordOutcomeSchema,
+  sequenceIdParamsSchema,
+  sequenceOutcomeSchema,
+} from '../utils/validation';
+import { DEFAULT_TEMPERATURE } from './aiService';
+import type { PromptSettings } from './aiService';
+import { resolvePromptTemplate } from './promptTemplateService';
+
+/**
+ * Prompt A/B experiments.
+ *
+ * A tenant runs at most one active experiment. Each arm fixes a prompt
+ * version and temperature; generations that don't name a `prompt_version`
+ * are split across arms by weight, deterministically per prospect. The arm is
+ * stored on every AIGeneration of the generation, and the report compares
+ * arms on what those rows and their sequences recorded.
+ */
+
+export type { ExperimentArm } from '../utils/experimentArms';
+
+export interface ExperimentResponse {
+  id: string;
+  name: string;
+  status: PromptExperiment['status'];
+  arms: ExperimentArm[];
+  createdAt: Date;
+  stoppedAt: Date | null;
+}
+
+const SEQUENCE_OUTCOMES = sequenceOutcomeSchema.options;
+
+// Outcomes that count as a reply, and as a positive one.
+const REPLY_OUTCOMES: SequenceOutcome[] = ['replied', 'positive_reply', 'meeting_booked'];
+const POSITIVE_OUTCOMES: SequenceOutcome[] = ['positive_reply', 'meeting_booked'];
+
+export interface ExperimentArmReport extends ExperimentArm {
+  /** Share of traffic this arm is assigned. */
+  trafficShare: number;
+  /** Sequences generated by this arm (cache hits and unselected candidates are not counted). */
+  sequences: number;
+  /** Model calls, retries and repairs included, and how many of them failed. */
+  calls: number;
+  failedCalls: number;
+  avgConfidence: number | null;
+  avgQualityIssues: number | null;
+  /** Share of sequences with at least one quality issue. */
+  qualityIssueRate: number | null;
+  totalTokens: number;
+  avgTokensPerSequence: number | null;
+  totalCost: number;
+  avgCostPerSequence: number | null;
+  outcomes: Record<SequenceOutcome, number> & {
+    recorded: number;
+    replyRate: number | null;
+    positiveRate: number | null;
+  };
+}
+
+export interface ExperimentReport {
+  experiment: ExperimentResponse;
+  arms: ExperimentArmReport[];
+}
+
+// ---------------------------------------------------------------------------
+// Assignment
+// ---------------------------------------------------------------------------
+
+/**
+ * Prompt settings for one generation. An explicit `prompt_version` wins and
+ * keeps the request out of any experiment; otherwise the tenant's active
+ * experiment assigns an arm, and without one the tenant's prompt version is
+ * used at the default temperature.
+ */
+export async function selectPromptSettings(
+  tenantId: string,
+  prospectUrl: string,
+  requestedVersion?: string
+): Promise<PromptSettings> {
+  if (!requestedVersion) {
+    const experiment = await prisma.promptExperiment.findFirst({
+      where: { tenantId, status: 'active' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (experiment) {
+      const arm = assignArm(experiment.arms as unknown as ExperimentArm[], experiment.id, prospectUrl);
+      if (isPromptVersion(arm.promptVersion)) {
+        return {
+          template: getPromptTemplate(arm.promptVersion),
+          temperature: arm.temperature,
+          experiment: { id: experiment.id, arm: arm.name },
+        };
+      }
+
+      console.warn('Experiment arm uses an unregistered prompt version; generating outside the experiment', {
+        experimentId: experiment.id,
+        arm: arm.name,
+        promptVersion: arm.promptVersion,
+      });
+    }
+  }
+
+  return {
+    template: await resolvePromptTemplate(tenantId, requestedVersion),
+    temperature: DEFAULT_TEMPERATURE,
+    experiment: null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Experiments
+// ---------------------------------------------------------------------------
+
+/**
+ * Start an experiment. Arms without a prompt_version get the tenant's active
+ * version now, so later changes to the tenant default don't shift the arm.
+ */
+export async function createExperimentService(
+  tenantId: string,
+  input: unknown
+): Promise<ExperimentResponse> {
+  const { name, arms } = createExperimentSchema.parse(input);
+
+  const active = await prisma.promptExperiment.findFirst({
+    where: { tenantId, status: 'active' },
+    select: { id: true },
+  });
+  if (active) {
+    throw experimentAlreadyActive(`Experiment ${active.id} is still active`);
+  }
+
+  const tenantVersion = (await resolvePromptTemplate(tenantId)).version;
+  const resolvedArms: ExperimentArm[] = arms.map((arm) => ({
+    name: arm.name,
+    promptVersion: arm.prompt_version ?? tenantVersion,
+    temperature: arm.temperature ?? DEFAULT_TEMPERATURE,
+    weight: arm.weight,
+  }));
+
+  let experiment: PromptExperiment;
+  try {
+    experiment = await prisma.promptExperiment.create({
+      data: { tenantId, name, arms: resolvedArms as unknown as Prisma.InputJsonValue },
+    });
+  } catch (error) {
+    // The partial unique index on active experiments: another request started one since the check.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw experimentAlreadyActive('Another experiment was just started');
+    }
+    throw error;
+  }
+  console.log('Prompt experiment started', { tenantId, experimentId: experiment.id, arms: resolvedArms });
+
+  return toExperimentResponse(experiment);
+}
+
+function experimentAlreadyActive(reason: string): AppError {
+  return new AppError(`${reason}; stop it before starting another`, 409, 'EXPERIMENT_ALREADY_ACTIVE');
+}
+
+export async function listExperimentsService(tenantId: string): Promise<{ data: ExperimentResponse[] }> {
+  const experiments = await prisma.promptExperiment.findMany({
+    where: { tenantId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return { data: experiments.map(toExperimentResponse) };
+}
+
+export async function getExperimentService(tenantId: string, params: unknown): Promise<ExperimentResponse> {
+  const { id } = experimentIdParamsSchema.parse(params);
+  return toExperimentResponse(await findExperiment(tenantId, id));
+}
+
+/** Stop assigning new generations. Recorded generations and outcomes stay reportable. */
+export async function stopExperimentService(tenantId: string, params: unknown): Promise<ExperimentResponse> {
+  const { id } = experimentIdParamsSchema.parse(params);
+  const experiment = await findExperiment(tenantId, id);
+
+  if (experiment.status === 'stopped') {
+    return toExperimentResponse(experiment);
+  }
+
+  const stopped = await prisma.promptExperiment.update({
+    where: { id },
+    data: { status: 'stopped', stoppedAt: new Date() },
+  });
+  console.log('Prompt experiment stopped', { tenantId, experimentId: id });
+
+  return toExperimentResponse(stopped);
+}
+
+/**
+ * Compare arms on the generations assigned to them: confidence, quality
+ * issues, tokens and cost (failed calls included), and reply outcomes
+ * recorded on their sequences.
+ */
+export async function getExperimentReportService(tenantId: string, params: unknown): Promise<ExperimentReport> {
+  const { id } = experimentIdParamsSchema.parse(params);
+  const experiment = toExperimentResponse(await findExperiment(tenantId, id));
+
+  const generations = await prisma.aIGeneration.findMany({
+    where: { tenantId, experimentId: id },
+    select: {
+      experimentArm: true,
+      status: true,
+      totalTokens: true,
+      estimatedCost: true,
+      thinking: true,
+      sequence: { select: { confidence: true, outcome: true } },
+      candidate: { select: { selected: true } },
+    },
+  });
+
+  const totalWeight = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+
+  const arms = experiment.arms.map((arm): ExperimentArmReport => {
+    const rows = generations.filter((g) => g.experimentArm === arm.name);
+    // Candidates the sequence doesn't hold count as calls and cost, not as sequences.
+    const succeeded = rows.filter(
+      (g) => g.status === 'succeeded' && g.sequence && (!g.candidate || g.candidate.selected)
+    );
+    const sequences = succeeded.length;
+
+    const issueCounts = succeeded.map((g) => {
+      const issues = (g.thinking as Record<string, any> | null)?.qualityIssues;
+      return Array.isArray(issues) ? issues.length : 0;
+    });
+    const totalTokens = rows.reduce((sum, g) => sum + g.totalTokens, 0);
+    const totalCost = rows.reduce((sum, g) => sum + g.estimatedCost, 0);
+
+    const outcomeCounts = Object.fromEntries(SEQUENCE_OUTCOMES.map((o) => [o, 0])) as Record<SequenceOutcome, number>;
+    for (const g of succeeded) {
+      if (g.sequence?.outcome) outcomeCounts[g.sequence.outcome]++;
+    }
+    const recorded = SEQUENCE_OUTCOMES.reduce((sum, o) => sum + outcomeCounts[o], 0);
+    const countOf = (outcomes: SequenceOutcome[]) => outcomes.reduce((sum, o) => sum + outcomeCounts[o], 0);
+
+    return {
+      ...arm,
+      trafficShare: totalWeight > 0 ? arm.weight / totalWeight : 0,
+      sequences,
+      calls: rows.length,
+      failedCalls: rows.filter((g) => g.status === 'failed').length,
+      avgConfidence: average(succeeded.map((g) => g.sequence!.confidence)),
+      avgQualityIssues: average(issueCounts),
+      qualityIssueRate: ratio(issueCounts.filter((n) => n > 0).length, sequences),
+      totalTokens,
+      avgTokensPerSequence: ratio(totalTokens, sequences),
+      totalCost,
+      avgCostPerSequence: ratio(totalCost, sequences),
+      outcomes: {
+        ...outcomeCounts,
+        recorded,
+        replyRate: ratio(countOf(REPLY_OUTCOMES), recorded),
+        positiveRate: ratio(countOf(POSITIVE_OUTCOMES), recorded),
+      },
+    };
+  });
+
+  return { experiment, arms };
+}
+
+// ---------------------------------------------------------------------------
+// Outcomes
+// ---------------------------------------------------------------------------
+
+/** Record (or clear, with null) how the prospect responded to a sequence. */
+export async function recordSequenceOutcomeService(
+  tenantId: string,
+  params: unknown,
+  body: unknown
+): Promise<{ id: string; outcome: SequenceOutcome | null; outcomeRecordedAt: Date | null }> {
+  const { id } = sequenceIdParamsSchema.parse(params);
+  const { outcome } = recordOutcomeSchema.parse(body);
+
+  const sequence = await prisma.messageSequence.findFirst({ where: { id, tenantId }, select: { id: true } });
+  if (!sequence) {
+    throw new AppError('Sequence not found', 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  return prisma.messageSequence.update({
+    where: { id },
+    data: { outcome, outcomeRecordedAt: outcome ? new Date() : null },
+    select: { id: true, outcome: true, outcomeRecordedAt: true },
+  });
+}
+
+async function findExperiment(tenantId: string, id: string): Promise<PromptExperiment> {
+  const experiment = await prisma.promptExperiment.findFirst({ where: { id, tenantId } });
+  if (!experiment) {
+    throw new AppError('Experiment not found', 404, 'EXPERIMENT_NOT_FOUND');
+  }
+  return experiment;
+}
+
+function toExperimentResponse(experiment: PromptExperiment): ExperimentResponse {
+  return {
+    id: experiment.id,
+    name: experiment.name,
+    status: experiment.status,
+    arms: experiment.arms as unknown as ExperimentArm[],
+    createdAt: experiment.createdAt,
+    stoppedAt: experiment.stoppedAt,
+  };
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
@@ -0,0 +1,117 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { AppError } from '../utils/errorHandler';
+import { exportSequences } from '../utils/sequenceExporter';
+import type { ExportableSequence, ExportedFile } from '../utils/sequenceExporter';
+import {
+  batchIdParamsSchema,
+  exportQuerySchema,
+  exportSequencesSchema,
+  sequenceIdParamsSchema,
+} from '../utils/validation';
+
+export interface SequenceExport extends ExportedFile {
+  filename: string;
+}
+
+/**
+ * Export one stored sequence as CSV, Markdown or engagement-tool JSON.
+ */
+export async function exportSequenceService(
+  tenantId: string,
+  params: unknown,
+  query: unknown
+): Promise<SequenceExport> {
+  const { id } = sequenceIdParamsSchema.parse(params);
+  const { format, day_interval } = exportQuerySchema.parse(query);
+
+  const sequences = await loadExportableSequences({ id, tenantId });
+  if (sequences.length === 0) {
+    throw new AppError('Sequence not found', 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  const file = exportSequences(sequences, format, { dayInterval: day_interval });
+  return { ...file, filename: `sequence-${id}.${file.extension}` };
+}
+
+/**
+ * Export an explicit list of sequences in one file. Unknown ids are rejected
+ * rather than silently dropped, so an import never goes out incomplete.
+ */
+export async function exportSequencesService(
+  tenantId: string,
+  body: unknown
+): Promise<SequenceExport> {
+  const { sequence_ids, format, day_interval } = exportSequencesSchema.parse(body);
+  const ids = [...new Set(sequence_ids)];
+
+  const sequences = await loadExportableSequences({ id: { in: ids }, tenantId });
+  if (sequences.length !== ids.length) {
+    const found = new Set(sequences.map((s) => s.id));
+    const missing = ids.filter((id) => !found.has(id));
+    throw new AppError(`Sequences not found: ${missing.join(', ')}`, 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  // Keep the caller's order.
+  const order = new Map(ids.map((id, i) => [id, i]));
+  sequences.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+  const file = exportSequences(sequences, format, { dayInterval: day_interval });
+  return { ...file, filename: `sequences-${new Date().toISOString().slice(0, 10)}.${file.extension}` };
+}
+
+/**
+ * Export every successfully generated sequence of a batch, in upload order.
+ */
+export async function exportBatchService(
+  tenantId: string,
+  params: unknown,
+  query: unknown
+): Promise<SequenceExport> {
+  const { id } = batchIdParamsSchema.parse(params);
+  const { format, day_interval } = exportQuerySchema.parse(query);
+
+  const batch = await prisma.generationBatch.findFirst({
+    where: { id, tenantId },
+    select: {
+      items: {
+        where: { status: 'succeeded', sequenceId: { not: null } },
+        orderBy: { rowIndex: 'asc' },
+        select: { sequenceId: true },
+      },
+    },
+  });
+  if (!batch) {
+    throw new AppError('Batch not found', 404, 'BATCH_NOT_FOUND');
+  }
+
+  const ids = batch.items.map((item) => item.sequenceId as string);
+  const sequences = await loadExportableSequences({ id: { in: ids }, tenantId });
+  const byId = new Map(sequences.map((s) => [s.id, s]));
+
+  // Several rows can resolve to the same sequence through idempotent hits.
+  const ordered = [...new Set(ids)].flatMap((sequenceId) => byId.get(sequenceId) ?? []);
+
+  const file = exportSequences(ordered, format, { dayInterval: day_interval });
+  return { ...file, filename: `batch-${id}.${file.extension}` };
+}
+
+async function loadExportableSequences(
+  where: Prisma.MessageSequenceWhereInput
+): Promise<ExportableSequence[]> {
+  const rows = await prisma.messageSequence.findMany({
+    where,
+    include: { prospect: { select: { linkedinUrl: true, fullName: true } } },
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    prospectUrl: row.prospect.linkedinUrl,
+    prospectName: row.prospect.fullName,
+    companyContext: row.companyContext,
+    confidence: row.confidence,
+    createdAt: row.createdAt,
+    analysis: row.analysis as Record<string, any>,
+    messages: row.messages as ExportableSequence['messages'],
+  }));
+}
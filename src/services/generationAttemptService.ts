@@ -0,0 +1,98 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { AIGenerationError } from './aiService';
+import type {
+  FailedGenerationAttempt,
+  GenerationAttemptInfo,
+  SequenceCandidatesResult,
+  TokenUsage,
+} from './aiService';
+
+/** Usage of the call that produced a result plus every failed call before it. */
+export function totalTokenUsage(info: GenerationAttemptInfo): TokenUsage {
+  return sumTokenUsage(info.tokenUsage, info.failedAttempts.map((attempt) => attempt.tokenUsage));
+}
+
+/** Usage of every candidate, including the calls of candidates that failed outright. */
+export function totalCandidatesTokenUsage({ candidates, failedAttempts }: SequenceCandidatesResult): TokenUsage {
+  const [best, ...rest] = candidates.map(totalTokenUsage);
+  return sumTokenUsage(best, [...rest, ...failedAttempts.map((attempt) => attempt.tokenUsage)]);
+}
+
+/** Usage of calls that all failed, such as those carried by AIGenerationError. */
+export function failedAttemptsTokenUsage(failedAttempts: FailedGenerationAttempt[]): TokenUsage {
+  return sumTokenUsage(
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0 },
+    failedAttempts.map((attempt) => attempt.tokenUsage)
+  );
+}
+
+function sumTokenUsage(first: TokenUsage, others: TokenUsage[]): TokenUsage {
+  return others.reduce(
+    (sum, usage) => ({
+      promptTokens: sum.promptTokens + usage.promptTokens,
+      completionTokens: sum.completionTokens + usage.completionTokens,
+      totalTokens: sum.totalTokens + usage.totalTokens,
+      estimatedCost: sum.estimatedCost + usage.estimatedCost,
+    }),
+    first
+  );
+}
+
+/**
+ * AIGeneration rows for model calls that did not produce the result —
+ * retried provider errors and responses that failed validation. They carry
+ * their own token usage and cost, so retries count toward usage and budgets.
+ */
+export function failedAttemptRows(
+  tenantId: string,
+  sequenceId: string | null,
+  attempts: FailedGenerationAttempt[]
+): Prisma.AIGenerationCreateManyInput[] {
+  return attempts.map((attempt) => ({
+    tenantId,
+    sequenceId,
+    model: attempt.model,
+    ...attempt.prompt,
+    attempt: attempt.attempt,
+    repair: attempt.repair,
+    status: 'failed',
+    error: attempt.error,
+    promptTokens: attempt.tokenUsage.promptTokens,
+    completionTokens: attempt.tokenUsage.completionTokens,
+    totalTokens: attempt.tokenUsage.totalTokens,
+    estimatedCost: attempt.tokenUsage.estimatedCost,
+    rawResponse: attempt.rawResponse,
+    thinking: attempt.fieldErrors
+      ? { fieldErrors: attempt.fieldErrors.map(({ path, message }) => ({ path, message })) }
+      : undefined,
+    createdAt: attempt.createdAt,
+  }));
+}
+
+/**
+ * Record the calls of a generation that failed outright. Does nothing for
+ * other errors, and never throws: the caller reports the original error.
+ */
+export async function recordFailedGeneration(
+  tenantId: string,
+  sequenceId: string | null,
+  error: unknown
+): Promise<void> {
+  if (!(error instanceof AIGenerationError) || error.failedAttempts.length === 0) {
+    return;
+  }
+
+  try {
+    await prisma.aIGeneration.createMany({
+      data: failedAttemptRows(tenantId, sequenceId, error.failedAttempts),
+    });
+  } catch (dbError) {
+    console.error('Failed to record failed AI generation attempts', {
+      tenantId,
+      sequenceId,
+      attempts: error.failedAttempts.length,
+      error: dbError instanceof Error ? dbError.message : String(dbError),
+    });
+  }
+}
@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { IdempotencyKey } from '@prisma/client';
+import prisma from '../db/prisma';
+import { AppError } from '../utils/errorHandler';
+
+// How long a completed key is replayed before it can be reused.
+const IDEMPOTENCY_KEY_TTL_MS = (Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+// An in-progress key this old is assumed orphaned by a crashed request.
+const STALE_IN_PROGRESS_AFTER_MS = 10 * 60 * 1000;
+
+const MAX_KEY_LENGTH = 255;
+
+export interface IdempotentRequest {
+  tenantId: string;
+  key: string;
+  method: string;
+  path: string;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+export type IdempotencyClaim =
+  | { outcome: 'claimed'; record: IdempotencyKey }
+  | { outcome: 'replay'; record: IdempotencyKey };
+
+/**
+ * Claim a key for a new request, or return the stored response to replay.
+ * Keys are scoped to the tenant, so two tenants can use the same key.
+ *
+ * - same key, same fingerprint, finished → replay
+ * - same key, same fingerprint, still running → 409
+ * - same key, different fingerprint → 422
+ */
+export async function claimIdempotencyKey(request: IdempotentRequest): Promise<IdempotencyClaim> {
+  if (request.key.length === 0 || request.key.length > MAX_KEY_LENGTH) {
+    throw new AppError(
+      `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`,
+      400,
+      'INVALID_IDEMPOTENCY_KEY'
+    );
+  }
+
+  const fingerprint = fingerprintRequest(request);
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const record = await prisma.idempotencyKey.create({
+        data: {
+          tenantId: request.tenantId,
+          key: request.key,
+          fingerprint,
+          method: request.method,
+          path: request.path,
+          expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+        },
+      });
+      return { outcome: 'claimed', record };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { tenantId_key: { tenantId: request.tenantId, key: request.key } },
+    });
+    if (!existing) {
+      continue; // Released between our insert and read — try again.
+    }
+
+    const abandoned =
+      existing.status === 'in_progress' &&
+      existing.createdAt.getTime() < Date.now() - STALE_IN_PROGRESS_AFTER_MS;
+    if (existing.expiresAt < new Date() || abandoned) {
+      await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+      continue;
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new AppError(
+        'Idempotency-Key was already used with a different request',
+        422,
+        'IDEMPOTENCY_KEY_REUSED'
+      );
+    }
+
+    if (existing.status === 'in_progress') {
+      throw new AppError(
+        'A request with this Idempotency-Key is still in progress',
+        409,
+        'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+      );
+    }
+
+    return { outcome: 'replay', record: existing };
+  }
+
+  throw new AppError('Could not claim Idempotency-Key, please retry', 409, 'IDEMPOTENCY_KEY_CONFLICT');
+}
+
+/** Store the response so repeats of the key replay it. */
+export async function completeIdempotencyKey(
+  id: string,
+  responseStatus: number,
+  responseBody: unknown
+): Promise<void> {
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      status: 'completed',
+      responseStatus,
+      responseBody: (responseBody ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Forget a claim (server error or aborted request) so the client can retry
+ * with the same key.
+ */
+export async function releaseIdempotencyKey(id: string): Promise<void> {
+  await prisma.idempotencyKey.deleteMany({ where: { id } });
+}
+
+// ---------------------------------------------------------------------------
+// Fingerprint
+// ---------------------------------------------------------------------------
+
+function fingerprintRequest({ method, path, query, body }: IdempotentRequest): string {
+  return createHash('sha256')
+    .update(canonicalJson({ method: method.toUpperCase(), path, query, body }))
+    .digest('hex');
+}
+
+/** JSON with object keys sorted at every level, so key order doesn't matter. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,237 @@
+import type { GenerationJob, Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { claimNextJobQuery, failExhaustedStaleJobsQuery } from '../db/jobQueries';
+import prisma from '../db/prisma';
+import { AppError } from '../utils/errorHandler';
+import { generateSequenceSchema, jobIdParamsSchema } from '../utils/validation';
+import { runSequenceGeneration, toSequenceResponse } from './sequenceService';
+import type { SequenceResponse } from './sequenceService';
+import { assertWebhooksConfigured, notifySequenceCreated, notifySequenceFailed } from './webhookService';
+import { assertWithinBudget } from './usageService';
+
+// Base delay for re-queuing a failed attempt: 5s, 10s, 20s, ...
+const RETRY_BASE_DELAY_MS = 5000;
+
+// A running job's worker touches updatedAt this often while the job runs.
+const JOB_HEARTBEAT_MS = 30 * 1000;
+
+// A job in "running" without a heartbeat for this long is assumed orphaned by a crashed worker.
+const STALE_JOB_AFTER_MS = Math.max(
+  Number(process.env.JOB_STALE_AFTER_MS) || 5 * 60 * 1000,
+  4 * JOB_HEARTBEAT_MS
+);
+
+export interface JobStatusResponse {
+  id: string;
+  status: GenerationJob['status'];
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  result: SequenceResponse | null;
+}
+
+/**
+ * Validate a generate-sequence request and queue it for the worker.
+ * The HTTP request returns immediately; the worker calls runSequenceGeneration.
+ * A tenant already over budget is rejected here rather than failing in the worker.
+ */
+export async function enqueueGenerationJob(
+  tenantId: string,
+  input: unknown
+): Promise<{ jobId: string; status: GenerationJob['status'] }> {
+  const payload = generateSequenceSchema.parse(input);
+  assertWebhooksConfigured(payload.webhook_url);
+  await assertWithinBudget(tenantId);
+
+  const job = await prisma.generationJob.create({
+    data: { tenantId, payload: payload as Prisma.InputJsonValue },
+  });
+
+  console.log('Generation job queued', {
+    jobId: job.id,
+    tenantId,
+    prospectUrl: payload.prospect_url,
+  });
+
+  return { jobId: job.id, status: job.status };
+}
+
+/**
+ * Return the current state of a job. Once it has succeeded, the stored
+ * sequence is attached as `result` in the same shape as the synchronous endpoint.
+ */
+export async function getJobService(tenantId: string, params: unknown): Promise<JobStatusResponse> {
+  const { id } = jobIdParamsSchema.parse(params);
+
+  const job = await prisma.generationJob.findFirst({
+    where: { id, tenantId },
+    include: { sequence: true },
+  });
+
+  if (!job) {
+    throw new AppError('Job not found', 404, 'JOB_NOT_FOUND');
+  }
+
+  return {
+    id: job.id,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    result: job.status === 'succeeded' && job.sequence ? toSequenceResponse(job.sequence) : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Worker side
+// ---------------------------------------------------------------------------
+
+/**
+ * Atomically claim the next runnable job (claimNextJobQuery). A running job
+ * is only reclaimed once its heartbeat has stopped, and only while it has
+ * attempts left.
+ */
+export async function claimNextJob(): Promise<GenerationJob | null> {
+  const staleBefore = new Date(Date.now() - STALE_JOB_AFTER_MS);
+
+  const rows = await prisma.$queryRaw<GenerationJob[]>(claimNextJobQuery(staleBefore));
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Fail orphaned running jobs that have no attempts left, so a job whose
+ * worker keeps dying isn't reclaimed forever.
+ */
+export async function failExhaustedStaleJobs(): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_JOB_AFTER_MS);
+
+  const jobs = await prisma.$queryRaw<GenerationJob[]>(failExhaustedStaleJobsQuery(staleBefore));
+
+  for (const job of jobs) {
+    console.error('Generation job failed', { jobId: job.id, attempts: job.attempts, error: job.error });
+
+    const payload = generateSequenceSchema.safeParse(job.payload);
+    if (payload.success) {
+      await notifySequenceFailed(
+        payload.data.webhook_url,
+        payload.data,
+        new AppError(job.error ?? 'Job failed', 500, 'JOB_ABANDONED'),
+        { type: 'job', jobId: job.id }
+      );
+    }
+  }
+}
+
+/**
+ * Run a claimed job through the existing generation pipeline and record the outcome.
+ * Validation and client errors (4xx) fail immediately; everything else is retried with
+ * exponential backoff until maxAttempts is reached.
+ */
+export async function runJob(job: GenerationJob): Promise<void> {
+  const payload = generateSequenceSchema.safeParse(job.payload);
+  const webhookUrl = payload.success ? payload.data.webhook_url : undefined;
+
+  // Keep the claim alive while model calls, retries and fallbacks run.
+  const heartbeat = setInterval(() => {
+    prisma.generationJob
+      .updateMany({ where: { id: job.id, status: 'running' }, data: { updatedAt: new Date() } })
+      .catch((error) => {
+        console.error('Failed to record job heartbeat', {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }, JOB_HEARTBEAT_MS);
+  heartbeat.unref();
+
+  try {
+    const outcome = await runSequenceGeneration(job.tenantId, job.payload);
+    const result = outcome.response;
+
+    await prisma.generationJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'succeeded',
+        sequenceId: result.id,
+        error: null,
+        completedAt: new Date(),
+      },
+    });
+
+    console.log('Generation job succeeded', {
+      jobId: job.id,
+      sequenceId: result.id,
+      attempts: job.attempts,
+    });
+
+    await notifySequenceCreated(webhookUrl, result, outcome.cached, { type: 'job', jobId: job.id });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryable =
+      !(error instanceof ZodError) && !(error instanceof AppError && error.statusCode < 500);
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    if (retryable && !exhausted) {
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      await prisma.generationJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'queued',
+          error: message,
+          runAt: new Date(Date.now() + delayMs),
+        },
+      });
+
+      console.warn('Generation job failed, re-queued', {
+        jobId: job.id,
+        attempts: job.attempts,
+        retryInMs: delayMs,
+        error: message,
+      });
+      return;
+    }
+
+    await prisma.generationJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'failed',
+        error: message,
+        completedAt: new Date(),
+      },
+    });
+
+    console.error('Generation job failed', {
+      jobId: job.id,
+      attempts: job.attempts,
+      error: message,
+    });
+
+    if (payload.success) {
+      await notifySequenceFailed(webhookUrl, payload.data, error, { type: 'job', jobId: job.id });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Claim and run one job. Returns false when the queue is empty.
+ */
+export async function processNextJob(): Promise<boolean> {
+  await failExhaustedStaleJobs();
+
+  const job = await claimNextJob();
+  if (!job) {
+    return false;
+  }
+
+  await runJob(job);
+  return true;
+}
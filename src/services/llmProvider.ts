@@ -0,0 +1,273 @@
+import OpenAI from 'openai';
+import { AppError } from '../utils/errorHandler';
+
+/**
+ * LLM provider layer.
+ *
+ * aiService builds prompts and validates output; it never talks to a model SDK
+ * directly. Every backend satisfies LLMProvider, which keeps the generation
+ * pipeline identical whether it runs against OpenAI, a self-hosted
+ * OpenAI-compatible server, or the offline mock.
+ *
+ * Model name and pricing are per-provider config — cost accounting follows
+ * whichever backend actually served the call.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** USD per 1M tokens. */
+export interface LLMPricing {
+  promptCostPer1M: number;
+  completionCostPer1M: number;
+}
+
+export interface LLMProviderConfig {
+  /** Primary model, used when a request doesn't name one. */
+  model: string;
+  pricing: LLMPricing;
+}
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** JSON schema the response must follow, for backends with structured output. */
+export interface LLMResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMCompletionRequest {
+  /** Defaults to the provider's configured model. */
+  model?: string;
+  messages: LLMChatMessage[];
+  temperature: number;
+  /** Sent as the structured output format where supported; otherwise a JSON object is requested. */
+  responseSchema?: LLMResponseSchema;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  /** Null when the backend did not report usage. */
+  usage: LLMUsage | null;
+  /** Stored on AIGeneration for auditability; always in the chat.completion shape. */
+  rawResponse: any;
+}
+
+/**
+ * Interface for LLM backends. Both calls must ask for a JSON object response,
+ * constrained to request.responseSchema when the backend supports structured
+ * output. Responses are validated against the schema either way.
+ * The generation pipeline depends only on this interface, never on a concrete provider.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly config: LLMProviderConfig;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  /** Same as complete, but reports content deltas through onDelta as they arrive. */
+  stream(request: LLMCompletionRequest, onDelta: (delta: string) => void): Promise<LLMCompletion>;
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI (and OpenAI-compatible servers)
+// ---------------------------------------------------------------------------
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  timeoutMs?: number;
+  /** Send responseSchema as a `json_schema` response format instead of asking for any JSON object. */
+  structuredOutput?: boolean;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  private readonly client: OpenAI | null;
+  private readonly structuredOutput: boolean;
+
+  constructor(
+    readonly config: LLMProviderConfig,
+    options: OpenAIProviderOptions = {}
+  ) {
+    this.structuredOutput = options.structuredOutput ?? true;
+    // Retries are owned by aiService so each attempt is recorded; the SDK must not retry on its own.
+    this.client = options.apiKey
+      ? new OpenAI({
+          apiKey: options.apiKey,
+          baseURL: options.baseURL,
+          timeout: options.timeoutMs,
+          maxRetries: 0,
+        })
+      : null;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const client = this.requireClient();
+
+    const response = await client.chat.completions.create({
+      model: request.model ?? this.config.model,
+      messages: request.messages,
+      response_format: this.responseFormat(request),
+      temperature: request.temperature,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      console.error('Empty response from LLM provider', { provider: this.name, responseId: response.id });
+      throw new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
+    }
+
+    return { content, usage: toUsage(response.usage), rawResponse: response };
+  }
+
+  async stream(request: LLMCompletionRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+    const client = this.requireClient();
+
+    const stream = await client.chat.completions.create({
+      model: request.model ?? this.config.model,
+      messages: request.messages,
+      response_format: this.responseFormat(request),
+      temperature: request.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let content = '';
+    let responseId = '';
+    let created = 0;
+    let usage: OpenAI.CompletionUsage | undefined;
+
+    for await (const chunk of stream) {
+      responseId = chunk.id || responseId;
+      created = chunk.created || created;
+      if (chunk.usage) usage = chunk.usage;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    }
+
+    if (!content) {
+      console.error('Empty streamed response from LLM provider', { provider: this.name, responseId });
+      throw new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
+    }
+
+    // Reassembled in the non-streaming shape so stored rawResponse stays uniform.
+    const rawResponse = {
+      id: responseId,
+      object: 'chat.completion',
+      created,
+      model: request.model ?? this.config.model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage,
+      streamed: true,
+    };
+
+    return { content, usage: toUsage(usage), rawResponse };
+  }
+
+  private responseFormat(
+    request: LLMCompletionRequest
+  ): OpenAI.ResponseFormatJSONObject | OpenAI.ResponseFormatJSONSchema {
+    if (!this.structuredOutput || !request.responseSchema) {
+      return { type: 'json_object' };
+    }
+    return {
+      type: 'json_schema',
+      json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema, strict: true },
+    };
+  }
+
+  private requireClient(): OpenAI {
+    if (!this.client) {
+      console.error('AI generation attempted without a configured LLM client.', { provider: this.name });
+      throw new AppError('AI generation failed', 500, 'AI_GENERATION_FAILED');
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API (vLLM, Ollama,
+ * LM Studio, LiteLLM, ...). Local servers often ignore the API key, so a
+ * placeholder is sent when none is configured. Structured output support
+ * varies by server, so it is off unless configured.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(config: LLMProviderConfig, options: OpenAIProviderOptions) {
+    super(
+      config,
+      options.baseURL
+        ? {
+            baseURL: options.baseURL,
+            apiKey: options.apiKey || 'unused',
+            timeoutMs: options.timeoutMs,
+            structuredOutput: options.structuredOutput ?? false,
+          }
+        : {}
+    );
+  }
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | null | undefined): LLMUsage | null {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || 0,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Error classification (used by aiService retries)
+// ---------------------------------------------------------------------------
+
+/**
+ * Rate limits, timeouts, connection failures and 5xx: worth retrying.
+ * A 429 for an exhausted quota is not — it won't clear on its own.
+ */
+export function isTransientLLMError(error: unknown): boolean {
+  if (!(error instanceof OpenAI.APIError)) return false;
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  if (error.code === 'insufficient_quota') return false;
+
+  const status = error.status ?? 0;
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/** Delay the server asked for (retry-after-ms / Retry-After), if any. */
+export function retryAfterMs(error: unknown): number | null {
+  if (!(error instanceof OpenAI.APIError) || !error.headers) return null;
+
+  const ms = headerNumber(error.headers['retry-after-ms']);
+  if (ms !== null) return ms;
+
+  const seconds = headerNumber(error.headers['retry-after']);
+  return seconds === null ? null : seconds * 1000;
+}
+
+function headerNumber(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/** Loggable, JSON-safe summary of a failed call. */
+export function describeLLMError(error: unknown): Record<string, unknown> {
+  if (error instanceof OpenAI.APIError) {
+    return { message: error.message, status: error.status ?? null, code: error.code ?? null, type: error.type ?? null };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
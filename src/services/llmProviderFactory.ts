@@ -0,0 +1,130 @@
+import { OpenAIProvider, OpenAICompatibleProvider } from './llmProvider';
+import type { LLMPricing, LLMProvider, LLMProviderConfig } from './llmProvider';
+import { MockLLMProvider } from './mockLLMProvider';
+import { knownModelPricing } from './modelRouting';
+
+// Per-provider defaults. LLM_MODEL and the LLM_*_COST_PER_1M variables override them.
+// `pricing` also covers models missing from the pricing table (modelRouting.ts).
+const PROVIDER_DEFAULTS: Record<string, LLMProviderConfig> = {
+  openai: {
+    model: 'gpt-4o-mini',
+    pricing: { promptCostPer1M: 0.15, completionCostPer1M: 0.6 },
+  },
+  // Self-hosted: no per-token bill unless configured.
+  'openai-compatible': {
+    model: 'local-model',
+    pricing: { promptCostPer1M: 0, completionCostPer1M: 0 },
+  },
+  mock: {
+    model: 'mock-sequence-v1',
+    pricing: { promptCostPer1M: 0, completionCostPer1M: 0 },
+  },
+};
+
+// Per-call timeout. A timed-out call is retried, then falls back to the next model.
+const LLM_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS) || 60_000;
+
+// Structured output (json_schema response format): on for openai, off for
+// openai-compatible unless LLM_STRUCTURED_OUTPUT=true. `false` turns it off for
+// models that only support JSON mode.
+const LLM_STRUCTURED_OUTPUT = parseBooleanEnv(process.env.LLM_STRUCTURED_OUTPUT);
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Resolves the LLM provider from configuration.
+ *
+ * aiService depends only on LLMProvider. To add a backend:
+ *   1. Implement LLMProvider (JSON-object chat completion, blocking and streamed;
+ *      honour request.responseSchema if the backend supports structured output).
+ *   2. Add its defaults and a case here.
+ *   3. Set LLM_PROVIDER=<name> in your environment.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  let configuredProvider = (process.env.LLM_PROVIDER || 'openai').trim().toLowerCase();
+  if (!PROVIDER_DEFAULTS[configuredProvider]) {
+    console.warn(`Unknown LLM_PROVIDER "${configuredProvider}". Falling back to "openai".`);
+    configuredProvider = 'openai';
+  }
+
+  const config = providerConfig(PROVIDER_DEFAULTS[configuredProvider]);
+
+  switch (configuredProvider) {
+    case 'mock':
+      cachedProvider = new MockLLMProvider(config);
+      break;
+    case 'openai-compatible': {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        console.error(
+          'LLM_BASE_URL environment variable is missing. AI generation requests will fail until it is set.'
+        );
+      }
+      cachedProvider = new OpenAICompatibleProvider(config, {
+        baseURL,
+        apiKey: process.env.LLM_API_KEY,
+        timeoutMs: LLM_TIMEOUT_MS,
+        structuredOutput: LLM_STRUCTURED_OUTPUT,
+      });
+      break;
+    }
+    default: {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        console.error(
+          'OPENAI_API_KEY environment variable is missing. AI generation requests will fail until it is set.'
+        );
+      }
+      cachedProvider = new OpenAIProvider(config, {
+        apiKey,
+        timeoutMs: LLM_TIMEOUT_MS,
+        structuredOutput: LLM_STRUCTURED_OUTPUT,
+      });
+      break;
+    }
+  }
+
+  console.log('LLM provider configured', { provider: cachedProvider.name, model: config.model });
+
+  return cachedProvider;
+}
+
+/**
+ * Optional test hook for injecting a provider implementation.
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+  cachedProvider = provider;
+}
+
+function providerConfig(defaults: LLMProviderConfig): LLMProviderConfig {
+  const model = process.env.LLM_MODEL?.trim() || defaults.model;
+  const basePricing = knownModelPricing(model) ?? defaults.pricing;
+
+  return {
+    model,
+    pricing: {
+      promptCostPer1M: costOverride(process.env.LLM_PROMPT_COST_PER_1M, basePricing, 'promptCostPer1M'),
+      completionCostPer1M: costOverride(
+        process.env.LLM_COMPLETION_COST_PER_1M,
+        basePricing,
+        'completionCostPer1M'
+      ),
+    },
+  };
+}
+
+function costOverride(value: string | undefined, defaults: LLMPricing, key: keyof LLMPricing): number {
+  const parsed = value === undefined || value.trim() === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : defaults[key];
+}
+
+function parseBooleanEnv(value: string | undefined): boolean | undefined {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'true') return true;
+  if (normalized === 'false') return false;
+  return undefined;
+}
@@ -0,0 +1,184 @@
+import { DEFAULT_CHANNEL } from '../utils/channels';
+import type { Channel } from '../utils/channels';
+import type {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderConfig,
+} from './llmProvider';
+
+/**
+ * Deterministic offline LLM backend.
+ *
+ * Reads the facts aiService already put into the prompts (sequence length,
+ * step layers and channels, prospect name, company, skills, context keywords) and fills
+ * fixed templates with them. No network, no randomness: the same prompts
+ * always yield the same JSON, and that JSON passes the same structural
+ * validation as a real model response. Intended for local development, CI
+ * and load tests — not for real outreach.
+ */
+
+// Rough chars-per-token, matching the estimate used for prompt previews.
+const CHARS_PER_TOKEN = 4;
+
+// Streamed responses are cut into chunks of this many characters.
+const STREAM_CHUNK_CHARS = 24;
+
+interface PromptFacts {
+  firstName: string;
+  company: string;
+  skill: string;
+  responsibility: string;
+  keywords: string[];
+}
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  constructor(readonly config: LLMProviderConfig) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    return this.respond(request, false);
+  }
+
+  async stream(request: LLMCompletionRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+    const completion = this.respond(request, true);
+    for (let i = 0; i < completion.content.length; i += STREAM_CHUNK_CHARS) {
+      onDelta(completion.content.slice(i, i + STREAM_CHUNK_CHARS));
+    }
+    return completion;
+  }
+
+  private respond(request: LLMCompletionRequest, streamed: boolean): LLMCompletion {
+    const system = request.messages.find((m) => m.role === 'system')?.content ?? '';
+    const user = request.messages.find((m) => m.role === 'user')?.content ?? '';
+
+    const content = JSON.stringify(buildResponse(system, user));
+
+    const promptTokens = Math.ceil((system.length + user.length) / CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(content.length / CHARS_PER_TOKEN);
+    const usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+
+    const rawResponse = {
+      id: 'mock-completion',
+      object: 'chat.completion',
+      created: 0,
+      model: request.model ?? this.config.model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: {
+        prompt_tokens: usage.promptTokens,
+        completion_tokens: usage.completionTokens,
+        total_tokens: usage.totalTokens,
+      },
+      ...(streamed ? { streamed: true } : {}),
+    };
+
+    return { content, usage, rawResponse };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Response builders
+// ---------------------------------------------------------------------------
+
+function buildResponse(system: string, user: string): Record<string, unknown> {
+  const facts = extractFacts(user);
+
+  // Single-step regeneration prompt: "Rewrite step 2 of 4."
+  const rewrite = system.match(/Rewrite step (\d+) of (\d+)\./);
+  if (rewrite) {
+    const step = Number(rewrite[1]);
+    const layer = labelOf(system.match(/STEP \d+ LAYER: (.+)/)?.[1] ?? '');
+    const channel = channelOf(system.match(/^CHANNEL: .+$/m)?.[0] ?? '');
+    return writeStep(step, layer, channel, facts);
+  }
+
+  const sequenceLength = Number(system.match(/Generate exactly (\d+) messages/)?.[1] ?? 1);
+  const layers = [...system.matchAll(/^(\d+): (.+)$/gm)].map((m) => labelOf(m[2]));
+  const channels = [...system.matchAll(/^Step \d+: .+$/gm)].map((m) => channelOf(m[0]));
+
+  return {
+    analysis: {
+      prospect_insights: `${facts.firstName} works with ${facts.skill} and owns ${facts.responsibility} at ${facts.company}.`,
+      personalization_hooks: [
+        `Hands-on ${facts.skill} experience`,
+        `Responsible for ${facts.responsibility} at ${facts.company}`,
+      ],
+      value_proposition: `Cuts the ${facts.keywords[0]} work that lands on ${facts.firstName}'s team.`,
+    },
+    messages: Array.from({ length: sequenceLength }, (_, i) =>
+      writeStep(i + 1, layers[i] ?? '', channels[i] ?? DEFAULT_CHANNEL, facts)
+    ),
+    confidence: 0.75,
+  };
+}
+
+function writeStep(
+  step: number,
+  layer: string,
+  channel: Channel,
+  facts: PromptFacts
+): { step: number; subject: string | null; message: string; reasoning: string } {
+  const [primary, secondary] = [facts.keywords[0], facts.keywords[1] ?? facts.keywords[0]];
+
+  const templates: Record<string, string> = {
+    'OBSERVATION + CTA': `Hi ${facts.firstName}, teams running ${facts.skill} at ${facts.company} often absorb ${primary} work on top of ${facts.responsibility}. We take ${primary} off that list. Worth a look at how?`,
+    OBSERVATION: `Hi ${facts.firstName}, teams running ${facts.skill} at ${facts.company} often absorb ${primary} work on top of ${facts.responsibility}.`,
+    'WORKFLOW SPOTLIGHT': `The ${primary} step is usually where it starts: it gets triggered before anyone checks fit, and ${facts.responsibility} slips.`,
+    'CAUSAL LINK': `Upstream, ${secondary} is loose, so requests reach your team that should have been filtered two steps earlier.`,
+    'IMPROVEMENT + CTA': `We tighten ${primary} and ${secondary} so only qualified requests reach you. Want to see what that filter looks like?`,
+    'SOCIAL PROOF': `Teams similar to ${facts.company} moved ${primary} behind a single gate and kept ${facts.responsibility} on schedule.`,
+    EXPANSION: `The same ${secondary} fix also quiets the adjacent teams that get pulled in. Should I send over a short walkthrough?`,
+  };
+
+  // Steps 7+ share the "Follow-up" layer; rotate wording so they don't read as restatements.
+  const followUps = [
+    `One more angle on ${primary}: fewer interruptions while you focus on ${facts.responsibility}. Open to a short walkthrough?`,
+    `Worth noting that ${secondary} tends to compound as ${facts.company} grows. Happy to share how others handled it.`,
+    `If ${primary} isn't a priority this quarter, no problem. Should I check back later?`,
+  ];
+
+  const message = templates[layer] ?? followUps[step % followUps.length];
+
+  return {
+    step,
+    subject: channel === 'inmail' || channel === 'email' ? `${capitalize(primary)} at ${facts.company}` : null,
+    // Connection notes are capped at 300 characters: keep the first sentence.
+    message: channel === 'connection_note' ? message.replace(/([.?!]) .*$/, '$1') : message,
+    reasoning: `Angle: ${layer || 'Follow-up'} | Workflow: ${primary} | Signal: ${facts.skill}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Prompt parsing
+// ---------------------------------------------------------------------------
+
+function extractFacts(user: string): PromptFacts {
+  const field = (label: string) => user.match(new RegExp(`^- ${label}: (.+)$`, 'm'))?.[1].trim() ?? '';
+  const firstOf = (list: string) => (list && list !== 'n/a' ? list.split(',')[0].trim() : '');
+
+  const keywordLine = user.match(/^CONTEXT KEYWORDS[^:]*: (.+)$/m)?.[1] ?? '';
+  const keywords = keywordLine.split(',').map((k) => k.trim()).filter(Boolean);
+
+  return {
+    firstName: field('Name').split(/\s+/)[0] || 'there',
+    company: field('Company') || 'your company',
+    skill: firstOf(field('Skills')) || 'your stack',
+    responsibility: firstOf(field('Responsibilities')) || 'day-to-day delivery',
+    keywords: keywords.length > 0 ? keywords : ['manual qualification'],
+  };
+}
+
+/** "IMPROVEMENT + CTA. No greeting. ..." → "IMPROVEMENT + CTA" */
+function labelOf(layer: string): string {
+  return layer.split('.')[0].trim();
+}
+
+/** "Step 2: LinkedIn InMail (inmail) — max ..." → "inmail"; the default channel for older templates. */
+function channelOf(line: string): Channel {
+  return (line.match(/\((connection_note|linkedin_dm|inmail|email)\) —/)?.[1] as Channel | undefined) ?? DEFAULT_CHANNEL;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
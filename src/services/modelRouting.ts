@@ -0,0 +1,122 @@
+import type { LLMPricing, LLMProvider } from './llmProvider';
+
+/**
+ * Which models a generation may use, in order, and what each one costs.
+ *
+ * Routing picks the first model from the request (sequence length, strategy
+ * alignment); the rest of the chain is fallbacks tried when a model errors,
+ * times out, or keeps returning unusable output. Cost is always computed
+ * for the model that actually answered.
+ */
+
+// USD per 1M tokens. LLM_MODEL_PRICING adds or overrides entries, e.g.
+// {"llama-3.1-70b": {"promptCostPer1M": 0.6, "completionCostPer1M": 0.6}}
+const BUILT_IN_MODEL_PRICING: Record<string, LLMPricing> = {
+  'gpt-4o-mini': { promptCostPer1M: 0.15, completionCostPer1M: 0.6 },
+  'gpt-4o': { promptCostPer1M: 2.5, completionCostPer1M: 10 },
+  'gpt-4.1': { promptCostPer1M: 2, completionCostPer1M: 8 },
+  'gpt-4.1-mini': { promptCostPer1M: 0.4, completionCostPer1M: 1.6 },
+  'gpt-4.1-nano': { promptCostPer1M: 0.1, completionCostPer1M: 0.4 },
+};
+
+const MODEL_PRICING: Record<string, LLMPricing> = {
+  ...BUILT_IN_MODEL_PRICING,
+  ...parsePricingTable(process.env.LLM_MODEL_PRICING),
+};
+
+const FALLBACK_MODELS = modelList(process.env.LLM_FALLBACK_MODELS);
+
+// Cheap model for short sequences; strong model for long ones or weak context fit.
+const CHEAP_MODEL = process.env.LLM_CHEAP_MODEL?.trim() || null;
+const CHEAP_MAX_SEQUENCE_LENGTH = Number(process.env.LLM_CHEAP_MAX_SEQUENCE_LENGTH) || 2;
+const STRONG_MODEL = process.env.LLM_STRONG_MODEL?.trim() || null;
+const STRONG_MIN_SEQUENCE_LENGTH = Number(process.env.LLM_STRONG_MIN_SEQUENCE_LENGTH) || 5;
+// Same threshold sequenceService warns at for low contextual alignment.
+const STRONG_BELOW_ALIGNMENT = Number(process.env.LLM_STRONG_BELOW_ALIGNMENT ?? 0.25);
+
+export type ModelRouteReason = 'default' | 'short_sequence' | 'long_sequence' | 'low_alignment';
+
+export interface ModelRoute {
+  reason: ModelRouteReason;
+  /** Tried in order; the first is the routed model. */
+  models: string[];
+}
+
+export interface ModelRoutingInput {
+  sequenceLength: number;
+  alignmentScore: number;
+}
+
+/**
+ * Pick the model chain for one generation. Quality wins over cost: a low
+ * alignment score routes to the strong model even for a short sequence.
+ * A routed model falls back to the provider's primary model, then to
+ * LLM_FALLBACK_MODELS.
+ */
+export function routeModels(provider: LLMProvider, input: ModelRoutingInput): ModelRoute {
+  const primary = provider.config.model;
+
+  let reason: ModelRouteReason = 'default';
+  let model = primary;
+
+  if (STRONG_MODEL && input.alignmentScore < STRONG_BELOW_ALIGNMENT) {
+    reason = 'low_alignment';
+    model = STRONG_MODEL;
+  } else if (STRONG_MODEL && input.sequenceLength >= STRONG_MIN_SEQUENCE_LENGTH) {
+    reason = 'long_sequence';
+    model = STRONG_MODEL;
+  } else if (CHEAP_MODEL && input.sequenceLength <= CHEAP_MAX_SEQUENCE_LENGTH) {
+    reason = 'short_sequence';
+    model = CHEAP_MODEL;
+  }
+
+  return { reason, models: [...new Set([model, primary, ...FALLBACK_MODELS])] };
+}
+
+/**
+ * Pricing for a model. The provider's configured pricing covers its primary
+ * model (so LLM_*_COST_PER_1M overrides still apply) and any model missing
+ * from the table.
+ */
+export function pricingForModel(provider: LLMProvider, model: string): LLMPricing {
+  if (model === provider.config.model) {
+    return provider.config.pricing;
+  }
+  return MODEL_PRICING[model] ?? provider.config.pricing;
+}
+
+/** Built-in or LLM_MODEL_PRICING entry for a model, if any. */
+export function knownModelPricing(model: string): LLMPricing | null {
+  return MODEL_PRICING[model] ?? null;
+}
+
+function modelList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+function parsePricingTable(value: string | undefined): Record<string, LLMPricing> {
+  if (!value?.trim()) return {};
+
+  try {
+    const parsed = JSON.parse(value) as Record<string, Partial<LLMPricing>>;
+    const table: Record<string, LLMPricing> = {};
+    for (const [model, pricing] of Object.entries(parsed)) {
+      const { promptCostPer1M, completionCostPer1M } = pricing ?? {};
+      if (
+        typeof promptCostPer1M === 'number' && promptCostPer1M >= 0 &&
+        typeof completionCostPer1M === 'number' && completionCostPer1M >= 0
+      ) {
+        table[model] = { promptCostPer1M, completionCostPer1M };
+      } else {
+        console.warn(`Ignoring LLM_MODEL_PRICING entry for "${model}": expected promptCostPer1M and completionCostPer1M.`);
+      }
+    }
+    return table;
+  } catch {
+    console.error('LLM_MODEL_PRICING is not valid JSON. Using built-in model pricing only.');
+    return {};
+  }
+}
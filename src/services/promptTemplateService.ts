@@ -0,0 +1,122 @@
+import prisma from '../db/prisma';
+import {
+  DEFAULT_PROMPT_VERSION,
+  diffPromptTemplates,
+  getPromptTemplate,
+  isPromptVersion,
+  listPromptTemplates,
+} from '../prompts';
+import type { PromptPartName, PromptTemplate, PromptTemplateDiff } from '../prompts';
+import { promptTemplateDiffQuerySchema, promptVersionParamsSchema } from '../utils/validation';
+import { DEFAULT_TEMPERATURE } from './aiService';
+import type { PromptSettings } from './aiService';
+
+export interface PromptTemplateSummary {
+  version: string;
+  description: string;
+  contentHash: string;
+  variables: Record<PromptPartName, string[]>;
+  /** Server default (PROMPT_VERSION, else the built-in default). */
+  isDefault: boolean;
+  /** What this tenant's generations use when a request names no version. */
+  isActive: boolean;
+}
+
+export interface PromptTemplateList {
+  defaultVersion: string;
+  activeVersion: string;
+  data: PromptTemplateSummary[];
+}
+
+/**
+ * Template for one generation: the request's `prompt_version`, else the
+ * tenant's, else the server default. A tenant version that is no longer
+ * registered falls back to the default rather than failing generations.
+ */
+export async function resolvePromptTemplate(
+  tenantId: string,
+  requestedVersion?: string
+): Promise<PromptTemplate> {
+  if (requestedVersion) {
+    return getPromptTemplate(requestedVersion);
+  }
+  return getPromptTemplate(await tenantPromptVersion(tenantId));
+}
+
+/**
+ * Prompt settings for rewriting a step of a stored sequence: the version and
+ * temperature the sequence was generated with, so the new step follows the
+ * same wording. Falls back to the tenant's version if that one is no longer
+ * registered. Rewrites are never attributed to an experiment arm, so arm
+ * reports only compare first generations.
+ */
+export async function resolveSequencePromptSettings(
+  tenantId: string,
+  sequenceId: string
+): Promise<PromptSettings> {
+  const original = await prisma.aIGeneration.findFirst({
+    where: { tenantId, sequenceId, status: 'succeeded' },
+    orderBy: { createdAt: 'asc' },
+    select: { promptVersion: true, temperature: true },
+  });
+
+  const template =
+    original && isPromptVersion(original.promptVersion)
+      ? getPromptTemplate(original.promptVersion)
+      : await resolvePromptTemplate(tenantId);
+
+  return {
+    template,
+    temperature: original?.temperature ?? DEFAULT_TEMPERATURE,
+    experiment: null,
+  };
+}
+
+export async function listPromptTemplatesService(tenantId: string): Promise<PromptTemplateList> {
+  const activeVersion = await tenantPromptVersion(tenantId);
+
+  return {
+    defaultVersion: DEFAULT_PROMPT_VERSION,
+    activeVersion,
+    data: listPromptTemplates().map((template) => ({
+      version: template.version,
+      description: template.description,
+      contentHash: template.contentHash,
+      variables: template.variables,
+      isDefault: template.version === DEFAULT_PROMPT_VERSION,
+      isActive: template.version === activeVersion,
+    })),
+  };
+}
+
+export function getPromptTemplateService(params: unknown): PromptTemplate {
+  const { version } = promptVersionParamsSchema.parse(params);
+  return getPromptTemplate(version);
+}
+
+/** Part-by-part line diff from one version to another. */
+export function diffPromptTemplatesService(query: unknown): PromptTemplateDiff {
+  const { from, to } = promptTemplateDiffQuerySchema.parse(query);
+  return diffPromptTemplates(getPromptTemplate(from), getPromptTemplate(to));
+}
+
+async function tenantPromptVersion(tenantId: string): Promise<string> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { promptVersion: true },
+  });
+
+  const version = tenant?.promptVersion;
+  if (!version) {
+    return DEFAULT_PROMPT_VERSION;
+  }
+  if (!isPromptVersion(version)) {
+    console.warn('Tenant prompt version is not registered; using the default', {
+      tenantId,
+      promptVersion: version,
+      defaultVersion: DEFAULT_PROMPT_VERSION,
+    });
+    return DEFAULT_PROMPT_VERSION;
+  }
+  return version;
+}
@@ -0,0 +1,58 @@
+import prisma from '../db/prisma';
+import { DEFAULT_QUALITY_RULE_SET, listQualityRules, resolveQualityRuleSet } from '../quality';
+import type { QualityRuleOverrides, QualityRuleSet, QualityScope, QualitySeverity } from '../quality';
+
+export interface QualityRuleSummary {
+  id: string;
+  scope: QualityScope;
+  description: string;
+  defaultSeverity: QualitySeverity;
+  defaultParams: Record<string, unknown>;
+  /** With the tenant's overrides applied. */
+  severity: QualitySeverity;
+  enabled: boolean;
+  params: Record<string, unknown>;
+}
+
+export interface QualityRuleList {
+  /** Hash of the tenant's rule set; requests with their own `quality_rules` get another. */
+  hash: string;
+  overrides: QualityRuleOverrides | null;
+  data: QualityRuleSummary[];
+}
+
+/** Rule set for one generation: built-in rules, then the tenant's overrides, then the request's. */
+export async function resolveTenantQualityRules(
+  tenantId: string,
+  requestOverrides?: QualityRuleOverrides
+): Promise<QualityRuleSet> {
+  return resolveQualityRuleSet(await tenantQualityRuleOverrides(tenantId), requestOverrides);
+}
+
+export async function listQualityRulesService(tenantId: string): Promise<QualityRuleList> {
+  const overrides = await tenantQualityRuleOverrides(tenantId);
+  const ruleSet = resolveQualityRuleSet(overrides);
+
+  return {
+    hash: ruleSet.hash,
+    overrides,
+    data: listQualityRules().map((rule, index) => ({
+      id: rule.id,
+      scope: rule.scope,
+      description: rule.description,
+      defaultSeverity: rule.severity,
+      defaultParams: DEFAULT_QUALITY_RULE_SET.rules[index].params,
+      severity: ruleSet.rules[index].severity,
+      enabled: ruleSet.rules[index].enabled,
+      params: ruleSet.rules[index].params,
+    })),
+  };
+}
+
+async function tenantQualityRuleOverrides(tenantId: string): Promise<QualityRuleOverrides | null> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { qualityRules: true },
+  });
+  return (tenant?.qualityRules as QualityRuleOverrides | null) ?? null;
+}
@@ -0,0 +1,433 @@
+import type { MessageSequence, Prisma, SequenceRevision } from '@prisma/client';
+import prisma from '../db/prisma';
+import type { QualityViolation } from '../quality';
+import type { SanitizedField } from '../sanitizer';
+import { checkChannelMessage } from '../utils/channels';
+import { AppError } from '../utils/errorHandler';
+import { rehydrateProspectProfile } from '../utils/linkedinParser';
+import { computeMessageStrategy } from '../utils/roleContextStrategy';
+import {
+  editMessageSchema,
+  listRevisionsQuerySchema,
+  sequenceIdParamsSchema,
+  sequenceStepParamsSchema,
+} from '../utils/validation';
+import { diffWords } from '../utils/wordDiff';
+import type { WordDiff } from '../utils/wordDiff';
+import { regenerateStepWithAI } from './aiService';
+import type { StepRegenerationResult } from './aiService';
+import { failedAttemptRows, recordFailedGeneration, totalTokenUsage } from './generationAttemptService';
+import { resolveSequencePromptSettings } from './promptTemplateService';
+import { resolveTenantQualityRules } from './qualityRuleService';
+import { resolveTenantSanitizationRules } from './sanitizationRuleService';
+import { toSequenceResponse } from './sequenceService';
+import { assertWithinBudget } from './usageService';
+import type { SequenceResponse } from './sequenceService';
+
+type SequenceMessage = SequenceResponse['messages'][number];
+
+export interface StepRegenerationResponse {
+  sequence: SequenceResponse;
+  revision: Pick<SequenceRevision, 'id' | 'step' | 'revision' | 'source' | 'aiGenerationId' | 'createdAt'>;
+  qualityIssues: string[];
+  /** Violations about the new step. The sequence's triggeredRules stay those of its generation. */
+  triggeredRules: QualityViolation[];
+}
+
+/**
+ * Regenerate one step of a stored sequence.
+ *
+ * The prompt is rebuilt from the stored prospect, TOV config and company
+ * context with the other steps fixed as context, using the prompt version and
+ * temperature the sequence was generated with. The step keeps its channel. The result is persisted as a
+ * new revision of that step, linked to its own AIGeneration row, and becomes
+ * the step's current text in MessageSequence.messages. The new step is
+ * checked against the tenant's current quality rules and sanitized with its
+ * current sanitization rules; its sanitizer edits replace the step's earlier ones.
+ */
+export async function regenerateStepService(
+  tenantId: string,
+  params: unknown
+): Promise<StepRegenerationResponse> {
+  const { id, step } = sequenceStepParamsSchema.parse(params);
+
+  const sequence = await prisma.messageSequence.findFirst({
+    where: { id, tenantId },
+    include: { prospect: true, tovConfig: true },
+  });
+
+  if (!sequence) {
+    throw new AppError('Sequence not found', 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  const messages = sequence.messages as SequenceMessage[];
+  const current = messages.find((m) => m.step === step);
+  if (!current) {
+    throw new AppError(`Sequence has no step ${step}`, 404, 'STEP_NOT_FOUND');
+  }
+
+  await assertWithinBudget(tenantId);
+
+  const profile = rehydrateProspectProfile(sequence.prospect);
+  const strategy = computeMessageStrategy(sequence.companyContext, profile.roleCategory);
+  const settings = await resolveSequencePromptSettings(tenantId, sequence.id);
+  const qualityRules = await resolveTenantQualityRules(tenantId);
+  const sanitizationRules = await resolveTenantSanitizationRules(tenantId);
+
+  let aiResult: StepRegenerationResult;
+  try {
+    aiResult = await regenerateStepWithAI(
+      profile,
+      sequence.companyContext,
+      sequence.tovConfig.description,
+      strategy,
+      { analysis: sequence.analysis as Record<string, any>, messages },
+      step,
+      settings,
+      qualityRules,
+      sanitizationRules
+    );
+  } catch (error) {
+    await recordFailedGeneration(tenantId, sequence.id, error);
+    throw error;
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const locked = await lockSequence(tx, sequence.id);
+    const lockedMessages = locked.messages as SequenceMessage[];
+    await ensureOriginalRevision(tx, sequence.id, lockedMessages.find((m) => m.step === step) ?? current);
+
+    if (aiResult.failedAttempts.length > 0) {
+      await tx.aIGeneration.createMany({
+        data: failedAttemptRows(tenantId, sequence.id, aiResult.failedAttempts),
+      });
+    }
+
+    const generation = await tx.aIGeneration.create({
+      data: {
+        tenantId,
+        sequenceId: sequence.id,
+        model: aiResult.model,
+        ...aiResult.prompt,
+        attempt: aiResult.attempt,
+        repair: aiResult.repair,
+        qualityRulesHash: qualityRules.hash,
+        sanitizationRulesHash: sanitizationRules.hash,
+        promptTokens: aiResult.tokenUsage.promptTokens,
+        completionTokens: aiResult.tokenUsage.completionTokens,
+        totalTokens: aiResult.tokenUsage.totalTokens,
+        estimatedCost: aiResult.tokenUsage.estimatedCost,
+        rawResponse: aiResult.rawResponse,
+        sanitization: aiResult.sanitization as unknown as Prisma.InputJsonValue,
+        thinking: {
+          regeneratedStep: step,
+          qualityIssues: aiResult.qualityIssues,
+          triggeredRules: aiResult.triggeredRules as unknown as Prisma.InputJsonValue,
+          modelRoute: { reason: aiResult.route.reason, models: aiResult.route.models },
+          strategy: {
+            prospectRole: profile.roleCategory,
+            targetPersona: strategy.targetPersona,
+            capabilityTags: strategy.capabilityTags,
+            activeWorkflows: strategy.activeWorkflows,
+            alignmentScore: strategy.alignmentScore,
+          },
+        },
+      },
+    });
+
+    const revision = await tx.sequenceRevision.create({
+      data: {
+        sequenceId: sequence.id,
+        step,
+        revision: await nextRevisionNumber(tx, sequence.id, step),
+        source: 'ai_regeneration',
+        message: aiResult.message.message,
+        subject: aiResult.message.subject,
+        reasoning: aiResult.message.reasoning,
+        aiGenerationId: generation.id,
+      },
+    });
+
+    const updated = await tx.messageSequence.update({
+      where: { id: sequence.id },
+      data: {
+        messages: lockedMessages.map((m) => (m.step === step ? aiResult.message : m)),
+        sanitization: replaceStepSanitization(locked.sanitization, step, aiResult.sanitization),
+      },
+    });
+
+    return { updated, revision };
+  });
+
+  console.log('Sequence step regenerated', {
+    sequenceId: sequence.id,
+    step,
+    revision: result.revision.revision,
+    attempts: aiResult.attempt,
+    estimatedCost: totalTokenUsage(aiResult).estimatedCost,
+  });
+
+  return {
+    sequence: toSequenceResponse(result.updated),
+    revision: {
+      id: result.revision.id,
+      step: result.revision.step,
+      revision: result.revision.revision,
+      source: result.revision.source,
+      aiGenerationId: result.revision.aiGenerationId,
+      createdAt: result.revision.createdAt,
+    },
+    qualityIssues: aiResult.qualityIssues,
+    triggeredRules: aiResult.triggeredRules,
+  };
+}
+
+export interface StepEditResponse {
+  sequence: SequenceResponse;
+  revision: Pick<SequenceRevision, 'id' | 'step' | 'revision' | 'source' | 'editedBy' | 'createdAt'>;
+}
+
+/**
+ * Record a human edit to one step. The edit becomes the step's current text
+ * and is kept as a revision with the editor (`editedBy`, the id of the API key
+ * that made the request) and timestamp. The step keeps its channel, and the
+ * edit must fit it. The step's sanitizer edits no longer apply to its text
+ * and are dropped.
+ */
+export async function editStepService(
+  tenantId: string,
+  params: unknown,
+  body: unknown,
+  editedBy: string
+): Promise<StepEditResponse> {
+  const { id, step } = sequenceStepParamsSchema.parse(params);
+  const edit = editMessageSchema.parse(body);
+
+  const sequence = await prisma.messageSequence.findFirst({ where: { id, tenantId } });
+  if (!sequence) {
+    throw new AppError('Sequence not found', 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  const messages = sequence.messages as SequenceMessage[];
+  const current = messages.find((m) => m.step === step);
+  if (!current) {
+    throw new AppError(`Sequence has no step ${step}`, 404, 'STEP_NOT_FOUND');
+  }
+
+  const edited: SequenceMessage = {
+    step,
+    channel: current.channel,
+    subject: edit.subject ?? current.subject,
+    message: edit.message,
+    reasoning: edit.reasoning ?? current.reasoning,
+  };
+
+  const problems = checkChannelMessage(edited.channel, edited);
+  if (problems.length > 0) {
+    throw new AppError(
+      `Step ${step} doesn't fit its channel: ${problems.map((p) => `${p.field} ${p.message}`).join('; ')}`,
+      400,
+      'CHANNEL_CONSTRAINT_VIOLATION'
+    );
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const locked = await lockSequence(tx, sequence.id);
+    const lockedMessages = locked.messages as SequenceMessage[];
+    await ensureOriginalRevision(tx, sequence.id, lockedMessages.find((m) => m.step === step) ?? current);
+
+    const revision = await tx.sequenceRevision.create({
+      data: {
+        sequenceId: sequence.id,
+        step,
+        revision: await nextRevisionNumber(tx, sequence.id, step),
+        source: 'human_edit',
+        message: edited.message,
+        subject: edited.subject,
+        reasoning: edited.reasoning,
+        editedBy,
+      },
+    });
+
+    const updated = await tx.messageSequence.update({
+      where: { id: sequence.id },
+      data: {
+        messages: lockedMessages.map((m) => (m.step === step ? edited : m)),
+        sanitization: replaceStepSanitization(locked.sanitization, step, []),
+      },
+    });
+
+    return { updated, revision };
+  });
+
+  console.log('Sequence step edited', {
+    sequenceId: sequence.id,
+    step,
+    revision: result.revision.revision,
+    editedBy,
+  });
+
+  return {
+    sequence: toSequenceResponse(result.updated),
+    revision: {
+      id: result.revision.id,
+      step: result.revision.step,
+      revision: result.revision.revision,
+      source: result.revision.source,
+      editedBy: result.revision.editedBy,
+      createdAt: result.revision.createdAt,
+    },
+  };
+}
+
+/** The sequence's sanitizer edits with those of one step's subject and message replaced. */
+function replaceStepSanitization(
+  sanitization: Prisma.JsonValue,
+  step: number,
+  replacement: SanitizedField[]
+): Prisma.InputJsonValue {
+  const stepFields = [`messages.${step}.subject`, `messages.${step}.message`];
+  const fields = (sanitization as unknown as SanitizedField[]).filter((f) => !stepFields.includes(f.field));
+  return [...fields, ...replacement] as unknown as Prisma.InputJsonValue;
+}
+
+export interface StepRevisionHistory {
+  step: number;
+  revisions: Array<
+    Pick<
+      SequenceRevision,
+      'id' | 'revision' | 'source' | 'message' | 'subject' | 'reasoning' | 'aiGenerationId' | 'editedBy' | 'createdAt'
+    >
+  >;
+  /**
+   * Word-level diff from the AI text the latest human edit started from
+   * (the most recent AI revision before it) to that human edit.
+   * Null when the step has no human edit.
+   */
+  humanEditDiff: (WordDiff & { fromRevision: number; toRevision: number }) | null;
+}
+
+/**
+ * Revision history per step, oldest first, with an AI → human diff for
+ * every step a person has edited.
+ */
+export async function listRevisionsService(
+  tenantId: string,
+  params: unknown,
+  query: unknown
+): Promise<{ sequenceId: string; steps: StepRevisionHistory[] }> {
+  const { id } = sequenceIdParamsSchema.parse(params);
+  const { step } = listRevisionsQuerySchema.parse(query);
+
+  const sequence = await prisma.messageSequence.findFirst({
+    where: { id, tenantId },
+    select: { id: true },
+  });
+  if (!sequence) {
+    throw new AppError('Sequence not found', 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  const revisions = await prisma.sequenceRevision.findMany({
+    where: { sequenceId: id, ...(step !== undefined && { step }) },
+    orderBy: [{ step: 'asc' }, { revision: 'asc' }],
+    select: {
+      id: true,
+      step: true,
+      revision: true,
+      source: true,
+      message: true,
+      subject: true,
+      reasoning: true,
+      aiGenerationId: true,
+      editedBy: true,
+      createdAt: true,
+    },
+  });
+
+  const byStep = new Map<number, typeof revisions>();
+  for (const revision of revisions) {
+    const list = byStep.get(revision.step) ?? [];
+    list.push(revision);
+    byStep.set(revision.step, list);
+  }
+
+  const steps = [...byStep.entries()].map(([stepNumber, list]) => {
+    const lastHuman = [...list].reverse().find((r) => r.source === 'human_edit');
+    const aiBase = lastHuman
+      ? [...list].reverse().find((r) => r.source !== 'human_edit' && r.revision < lastHuman.revision)
+      : undefined;
+
+    return {
+      step: stepNumber,
+      revisions: list.map(({ step: _step, ...rest }) => rest),
+      humanEditDiff:
+        lastHuman && aiBase
+          ? {
+              fromRevision: aiBase.revision,
+              toRevision: lastHuman.revision,
+              ...diffWords(aiBase.message, lastHuman.message),
+            }
+          : null,
+    };
+  });
+
+  return { sequenceId: id, steps };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Lock a sequence for the rest of the transaction and return its current
+ * row. Every writer of revisions takes this lock first, so concurrent
+ * changes to a sequence are serialized: revision numbers don't collide and
+ * no change overwrites another's messages.
+ */
+export async function lockSequence(tx: Prisma.TransactionClient, sequenceId: string): Promise<MessageSequence> {
+  await tx.$queryRaw`SELECT "id" FROM "message_sequences" WHERE "id" = ${sequenceId} FOR UPDATE`;
+  return tx.messageSequence.findUniqueOrThrow({ where: { id: sequenceId } });
+}
+
+/**
+ * Revisions are only written once a step is first changed. Before recording
+ * the first change, snapshot the text the sequence was generated with as
+ * revision 0 so the AI original is never lost.
+ */
+export async function ensureOriginalRevision(
+  tx: Prisma.TransactionClient,
+  sequenceId: string,
+  current: SequenceMessage
+): Promise<void> {
+  const existing = await tx.sequenceRevision.count({
+    where: { sequenceId, step: current.step },
+  });
+  if (existing > 0) {
+    return;
+  }
+
+  await tx.sequenceRevision.create({
+    data: {
+      sequenceId,
+      step: current.step,
+      revision: 0,
+      source: 'ai_original',
+      message: current.message,
+      subject: current.subject,
+      reasoning: current.reasoning,
+    },
+  });
+}
+
+/** Only safe under lockSequence. */
+export async function nextRevisionNumber(
+  tx: Prisma.TransactionClient,
+  sequenceId: string,
+  step: number
+): Promise<number> {
+  const latest = await tx.sequenceRevision.aggregate({
+    where: { sequenceId, step },
+    _max: { revision: true },
+  });
+  return (latest._max.revision ?? -1) + 1;
+}
@@ -0,0 +1,55 @@
+import prisma from '../db/prisma';
+import { listSanitizationRules, resolveSanitizationRuleSet } from '../sanitizer';
+import type { ResolvedSanitizationRule, SanitizationRuleOverride, SanitizationRuleSet } from '../sanitizer';
+
+export interface SanitizationRuleSummary extends ResolvedSanitizationRule {
+  builtIn: boolean;
+  enabled: boolean;
+}
+
+export interface SanitizationRuleList {
+  hash: string;
+  overrides: SanitizationRuleOverride[] | null;
+  /** Built-in rules (disabled ones included), then the tenant's added rules, in priority order. */
+  data: SanitizationRuleSummary[];
+}
+
+/** Rule set for one generation: built-in rules with the tenant's changes and added phrases. */
+export async function resolveTenantSanitizationRules(tenantId: string): Promise<SanitizationRuleSet> {
+  return resolveSanitizationRuleSet(await tenantSanitizationRuleOverrides(tenantId));
+}
+
+export async function listSanitizationRulesService(tenantId: string): Promise<SanitizationRuleList> {
+  const overrides = await tenantSanitizationRuleOverrides(tenantId);
+  const ruleSet = resolveSanitizationRuleSet(overrides);
+  const active = new Map(ruleSet.rules.map((rule) => [rule.id, rule]));
+  const builtInIds = new Set(listSanitizationRules().map((rule) => rule.id));
+
+  const builtIn = listSanitizationRules().map(
+    (rule): SanitizationRuleSummary =>
+      active.get(rule.id)
+        ? { ...active.get(rule.id)!, builtIn: true, enabled: true }
+        : {
+            id: rule.id,
+            pattern: rule.pattern,
+            replacement: rule.replacement,
+            wholeWord: true,
+            preserveCase: true,
+            builtIn: true,
+            enabled: false,
+          }
+  );
+  const added = ruleSet.rules
+    .filter((rule) => !builtInIds.has(rule.id))
+    .map((rule): SanitizationRuleSummary => ({ ...rule, builtIn: false, enabled: true }));
+
+  return { hash: ruleSet.hash, overrides, data: [...builtIn, ...added] };
+}
+
+async function tenantSanitizationRuleOverrides(tenantId: string): Promise<SanitizationRuleOverride[] | null> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { sanitizationRules: true },
+  });
+  return (tenant?.sanitizationRules as SanitizationRuleOverride[] | null) ?? null;
+}
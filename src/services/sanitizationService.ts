@@ -0,0 +1,146 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { applyChanges } from '../sanitizer';
+import type { SanitizationChange, SanitizedField } from '../sanitizer';
+import { AppError } from '../utils/errorHandler';
+import { revertSanitizationSchema, sequenceIdParamsSchema } from '../utils/validation';
+import { ensureOriginalRevision, lockSequence, nextRevisionNumber } from './revisionService';
+import { toSequenceResponse } from './sequenceService';
+import type { SequenceResponse } from './sequenceService';
+
+type SequenceMessage = SequenceResponse['messages'][number];
+
+export interface SanitizationRevertResponse {
+  sequence: SequenceResponse;
+  /** Changes reverted by this request; already reverted ones are left out. */
+  revertedChanges: SanitizationChange[];
+}
+
+/**
+ * Put back the original text of sanitizer changes. Reverted subject and
+ * message text is recorded as a `human_edit` revision by `editedBy`, the id of
+ * the API key that made the request; analysis fields are updated in place. The changes
+ * stay in `sanitization` with `revertedAt`.
+ * A field whose text changed since it was sanitized can't be reverted.
+ */
+export async function revertSanitizationService(
+  tenantId: string,
+  params: unknown,
+  body: unknown,
+  editedBy: string
+): Promise<SanitizationRevertResponse> {
+  const { id } = sequenceIdParamsSchema.parse(params);
+  const { changes: changeIds } = revertSanitizationSchema.parse(body);
+
+  const sequence = await prisma.messageSequence.findFirst({ where: { id, tenantId } });
+  if (!sequence) {
+    throw new AppError('Sequence not found', 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  const requested = changeIds ? new Set(changeIds) : null;
+  const revertedAt = new Date().toISOString();
+
+  const { updated, reverted } = await prisma.$transaction(async (tx) => {
+    const locked = await lockSequence(tx, id);
+    const fields = locked.sanitization as unknown as SanitizedField[];
+    const known = new Set(fields.flatMap((f) => f.changes.map((c) => c.id)));
+    const unknown = (changeIds ?? []).filter((changeId) => !known.has(changeId));
+    if (unknown.length > 0) {
+      throw new AppError(`Unknown sanitization change: ${unknown.join(', ')}`, 404, 'SANITIZATION_CHANGE_NOT_FOUND');
+    }
+
+    const analysis = { ...(locked.analysis as Record<string, any>) };
+    const messages = locked.messages as SequenceMessage[];
+    const reverted: SanitizationChange[] = [];
+    const revertedMessages: SequenceMessage[] = [];
+
+    const nextFields = fields.map((field) => {
+      const toRevert = field.changes.filter((c) => !c.revertedAt && (!requested || requested.has(c.id)));
+      if (toRevert.length === 0) return field;
+
+      if (readField(analysis, messages, field.field) !== field.after) {
+        throw new AppError(
+          `${field.field} was changed after it was sanitized; edit it instead`,
+          409,
+          'SANITIZATION_STALE'
+        );
+      }
+
+      const changes = field.changes.map((c) => (toRevert.includes(c) ? { ...c, revertedAt } : c));
+      const after = applyChanges(field.before, changes);
+      reverted.push(...toRevert.map((c) => ({ ...c, revertedAt })));
+
+      const target = messageStep(field.field);
+      if (target === null) {
+        analysis[field.field.slice('analysis.'.length)] = after;
+      } else {
+        const index = revertedMessages.findIndex((m) => m.step === target.step);
+        const current = index === -1 ? messages.find((m) => m.step === target.step)! : revertedMessages[index];
+        const next = { ...current, [target.key]: after };
+        if (index === -1) revertedMessages.push(next);
+        else revertedMessages[index] = next;
+      }
+      return { ...field, after, changes };
+    });
+
+    if (reverted.length === 0) {
+      return { updated: locked, reverted };
+    }
+
+    for (const message of revertedMessages) {
+      await ensureOriginalRevision(tx, id, messages.find((m) => m.step === message.step)!);
+      await tx.sequenceRevision.create({
+        data: {
+          sequenceId: id,
+          step: message.step,
+          revision: await nextRevisionNumber(tx, id, message.step),
+          source: 'human_edit',
+          message: message.message,
+          subject: message.subject,
+          reasoning: message.reasoning,
+          editedBy,
+        },
+      });
+    }
+
+    const updated = await tx.messageSequence.update({
+      where: { id },
+      data: {
+        analysis,
+        messages: messages.map((m) => revertedMessages.find((r) => r.step === m.step) ?? m),
+        sanitization: nextFields as unknown as Prisma.InputJsonValue,
+      },
+    });
+    return { updated, reverted };
+  });
+
+  if (reverted.length === 0) {
+    return { sequence: toSequenceResponse(updated), revertedChanges: [] };
+  }
+
+  console.log('Sanitizer changes reverted', {
+    sequenceId: id,
+    changes: reverted.map((c) => c.id),
+    editedBy,
+  });
+
+  return { sequence: toSequenceResponse(updated), revertedChanges: reverted };
+}
+
+/** Step and key of a `messages.<step>.subject|message` field; null for analysis fields. */
+function messageStep(field: string): { step: number; key: 'subject' | 'message' } | null {
+  const match = /^messages\.(\d+)\.(subject|message)$/.exec(field);
+  return match ? { step: Number(match[1]), key: match[2] as 'subject' | 'message' } : null;
+}
+
+function readField(
+  analysis: Record<string, any>,
+  messages: SequenceMessage[],
+  field: string
+): string | null | undefined {
+  const target = messageStep(field);
+  if (target === null) {
+    return analysis[field.slice('analysis.'.length)];
+  }
+  return messages.find((m) => m.step === target.step)?.[target.key];
+}
@@ -0,0 +1,178 @@
+import { Prisma } from '@prisma/client';
+import type { SequenceOutcome } from '@prisma/client';
+import prisma from '../db/prisma';
+import { AppError } from '../utils/errorHandler';
+import { listSequencesQuerySchema, sequenceIdParamsSchema } from '../utils/validation';
+import { toSequenceResponse } from './sequenceService';
+import type { SequenceResponse } from './sequenceService';
+
+export interface StoredSequenceResponse extends SequenceResponse {
+  companyContext: string;
+  sequenceLength: number;
+  createdAt: Date;
+  outcome: SequenceOutcome | null;
+  outcomeRecordedAt: Date | null;
+  prospect: {
+    id: string;
+    linkedinUrl: string;
+    fullName: string | null;
+    headline: string | null;
+    company: string | null;
+  };
+  tovConfig: {
+    id: string;
+    formality: number;
+    warmth: number;
+    directness: number;
+    description: string;
+  };
+  generation: {
+    id: string;
+    model: string;
+    promptVersion: string;
+    promptHash: string | null;
+    temperature: number | null;
+    qualityRulesHash: string | null;
+    experimentId: string | null;
+    experimentArm: string | null;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimatedCost: number;
+    createdAt: Date;
+  } | null;
+}
+
+export interface SequencePage {
+  data: StoredSequenceResponse[];
+  nextCursor: string | null;
+}
+
+// Joined relations for read responses. Only the latest successful AIGeneration is loaded,
+// skipping candidates the sequence doesn't hold, and rawResponse/thinking are left out —
+// they are audit data, not API payload.
+const sequenceReadInclude = {
+  prospect: {
+    select: { id: true, linkedinUrl: true, fullName: true, headline: true, company: true },
+  },
+  tovConfig: {
+    select: { id: true, formality: true, warmth: true, directness: true, description: true },
+  },
+  aiGenerations: {
+    where: {
+      status: 'succeeded',
+      OR: [{ candidate: { is: null } }, { candidate: { is: { selected: true } } }],
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+    select: {
+      id: true,
+      model: true,
+      promptVersion: true,
+      promptHash: true,
+      temperature: true,
+      qualityRulesHash: true,
+      experimentId: true,
+      experimentArm: true,
+      promptTokens: true,
+      completionTokens: true,
+      totalTokens: true,
+      estimatedCost: true,
+      createdAt: true,
+    },
+  },
+} satisfies Prisma.MessageSequenceInclude;
+
+type SequenceWithRelations = Prisma.MessageSequenceGetPayload<{
+  include: typeof sequenceReadInclude;
+}>;
+
+/**
+ * Fetch a single stored sequence by id, with its prospect, TOV config and
+ * latest generation metadata.
+ */
+export async function getSequenceService(
+  tenantId: string,
+  params: unknown
+): Promise<StoredSequenceResponse> {
+  const { id } = sequenceIdParamsSchema.parse(params);
+
+  const sequence = await prisma.messageSequence.findFirst({
+    where: { id, tenantId },
+    include: sequenceReadInclude,
+  });
+
+  if (!sequence) {
+    throw new AppError('Sequence not found', 404, 'SEQUENCE_NOT_FOUND');
+  }
+
+  return toStoredSequenceResponse(sequence);
+}
+
+/**
+ * List stored sequences, newest first, with optional filters.
+ * Pagination is cursor-based: pass the previous page's nextCursor to continue.
+ */
+export async function listSequencesService(tenantId: string, query: unknown): Promise<SequencePage> {
+  const filters = listSequencesQuerySchema.parse(query);
+
+  const where: Prisma.MessageSequenceWhereInput = { tenantId };
+
+  if (filters.prospect_url) {
+    where.prospect = { linkedinUrl: filters.prospect_url };
+  }
+  if (filters.company_context) {
+    where.companyContext = { contains: filters.company_context, mode: 'insensitive' };
+  }
+  if (
+    filters.formality !== undefined ||
+    filters.warmth !== undefined ||
+    filters.directness !== undefined
+  ) {
+    where.tovConfig = {
+      formality: filters.formality,
+      warmth: filters.warmth,
+      directness: filters.directness,
+    };
+  }
+  if (filters.prompt_version) {
+    where.aiGenerations = { some: { promptVersion: filters.prompt_version } };
+  }
+  if (filters.min_confidence !== undefined || filters.max_confidence !== undefined) {
+    where.confidence = { gte: filters.min_confidence, lte: filters.max_confidence };
+  }
+  if (filters.created_after || filters.created_before) {
+    where.createdAt = { gte: filters.created_after, lte: filters.created_before };
+  }
+
+  // Fetch one extra row to know whether another page exists.
+  const rows = await prisma.messageSequence.findMany({
+    where,
+    include: sequenceReadInclude,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: filters.limit + 1,
+    ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
+  });
+
+  const hasMore = rows.length > filters.limit;
+  const page = hasMore ? rows.slice(0, filters.limit) : rows;
+
+  return {
+    data: page.map(toStoredSequenceResponse),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+}
+
+function toStoredSequenceResponse(sequence: SequenceWithRelations): StoredSequenceResponse {
+  return {
+    ...toSequenceResponse(sequence),
+    companyContext: sequence.companyContext,
+    sequenceLength: sequence.sequenceLength,
+    createdAt: sequence.createdAt,
+    outcome: sequence.outcome,
+    outcomeRecordedAt: sequence.outcomeRecordedAt,
+    prospect: sequence.prospect,
+    tovConfig: sequence.tovConfig,
+    generation: sequence.aiGenerations[0] ?? null,
+  };
+}
@@ -1,33 +1,122 @@
+import type { MessageSequence, Prisma } from '@prisma/client';
+import { AppError } from '../utils/errorHandler';
 import { generateSequenceSchema } from '../utils/validation';
+import type { GenerateSequenceInput } from '../utils/validation';
 import prisma from '../db/prisma';
+import type { PromptTemplate } from '../prompts';
+import type { QualityRuleSet, QualityViolation } from '../quality';
+import type { SanitizationRuleSet, SanitizedField } from '../sanitizer';
 import { ProspectEnrichmentProvider } from '../utils/linkedinParser';
+import type { ProspectProfile } from '../utils/linkedinParser';
 import { translateTovToDescription } from '../utils/tovTranslator';
+import { DEFAULT_CHANNEL, resolveChannels } from '../utils/channels';
+import type { Channel } from '../utils/channels';
 import { computeMessageStrategy } from '../utils/roleContextStrategy';
-import { generateSequenceWithAI, PROMPT_VERSION, MODEL } from './aiService';
+import type { MessageStrategy } from '../utils/roleContextStrategy';
+import { diffWords } from '../utils/wordDiff';
+import type { WordDiff } from '../utils/wordDiff';
+import {
+  generateSequenceCandidatesWithAI,
+  generateSequenceWithAI,
+  previewSequencePrompts,
+  streamSequenceWithAI,
+} from './aiService';
+import type {
+  AIGenerationResult,
+  GenerationDiagnostics,
+  PromptPreview,
+  PromptSettings,
+  SequenceCandidatesResult,
+  SequenceMessage,
+} from './aiService';
 import { getEnrichmentProvider } from './enrichmentProviderFactory';
+import { selectPromptSettings } from './experimentService';
+import { resolveTenantQualityRules } from './qualityRuleService';
+import { resolveTenantSanitizationRules } from './sanitizationRuleService';
+import {
+  failedAttemptRows,
+  recordFailedGeneration,
+  totalCandidatesTokenUsage,
+  totalTokenUsage,
+} from './generationAttemptService';
+import { assertWithinBudget } from './usageService';
+import {
+  assertWebhooksConfigured,
+  notifySequenceCreated,
+  notifySequenceFailed,
+} from './webhookService';
 
 export interface SequenceResponse {
+  id: string;
   analysis: Record<string, any>;
-  messages: Array<{
-    step: number;
-    message: string;
-    reasoning: string;
-  }>;
+  /** Each step with its channel; `subject` is set for inmail and email steps. */
+  messages: SequenceMessage[];
   confidence: number;
+  /** Quality rule violations the stored output was accepted with. */
+  triggeredRules: QualityViolation[];
+  /**
+   * Quality issues and confidence breakdown of the generation the sequence
+   * holds, as stored on its AIGeneration. Null for sequences generated before
+   * diagnostics were recorded.
+   */
+  diagnostics: GenerationDiagnostics | null;
+  /** Sanitizer edits to the current text, per field, with a word diff from before to after. */
+  sanitization: Array<SanitizedField & { diff: WordDiff }>;
 }
 
 interface SequenceServiceDependencies {
   enrichmentProvider?: ProspectEnrichmentProvider;
 }
 
+/**
+ * Result of one pass through the pipeline, for callers that account for cost
+ * (e.g. batches). `tokenUsage` covers every model call, retries included, and
+ * is null when the idempotency cache answered.
+ */
+export interface SequenceGenerationOutcome {
+  response: SequenceResponse;
+  cached: boolean;
+  tokenUsage: AIGenerationResult['tokenUsage'] | null;
+}
+
 /**
  * Main service function for generating or retrieving message sequences.
- * Implements idempotency: if an identical request exists, returns cached result.
+ * Implements idempotency: if an identical request exists for the same tenant,
+ * returns cached result. Notifies `webhook_url`, if given, on success or failure.
+ * With `n_candidates` > 1 the best-ranked candidate is returned and the rest
+ * are stored for candidateService.
  */
 export async function generateSequenceService(
+  tenantId: string,
   input: unknown,
   dependencies: SequenceServiceDependencies = {}
 ): Promise<SequenceResponse> {
+  const validatedInput = generateSequenceSchema.parse(input);
+  assertWebhooksConfigured(validatedInput.webhook_url);
+
+  try {
+    const outcome = await runSequenceGeneration(tenantId, validatedInput, dependencies);
+    await notifySequenceCreated(validatedInput.webhook_url, outcome.response, outcome.cached, {
+      type: 'request',
+    });
+    return outcome.response;
+  } catch (error) {
+    await notifySequenceFailed(validatedInput.webhook_url, validatedInput, error, { type: 'request' });
+    throw error;
+  }
+}
+
+/**
+ * Same pipeline as generateSequenceService, but also reports whether the
+ * result came from the idempotency cache and what the AI call cost.
+ * Does not send webhooks — callers with retries (jobs, batches) notify once
+ * they know the final outcome.
+ */
+export async function runSequenceGeneration(
+  tenantId: string,
+  input: unknown,
+  dependencies: SequenceServiceDependencies = {}
+): Promise<SequenceGenerationOutcome> {
   // Validate input
   const validatedInput = generateSequenceSchema.parse(input);
   const enrichmentProvider =
@@ -35,34 +124,341 @@ export async function generateSequenceService(
 
   const { prospect_url, tov_config, company_context, sequence_length } = validatedInput;
 
+  const channels = resolveChannels(validatedInput.channels, sequence_length);
+  const settings = await selectPromptSettings(tenantId, prospect_url, validatedInput.prompt_version);
+  assertChannelsSupported(settings.template, channels);
+  const qualityRules = await resolveTenantQualityRules(tenantId, validatedInput.quality_rules);
+  const sanitizationRules = await resolveTenantSanitizationRules(tenantId);
+
   // Check for existing sequence (idempotency)
-  const existingSequence = await findExistingSequence(
-    prospect_url,
-    company_context,
-    tov_config,
-    sequence_length
+  const existingSequence = await findReusableSequence(
+    tenantId,
+    validatedInput,
+    channels,
+    settings,
+    qualityRules,
+    sanitizationRules
   );
 
   if (existingSequence) {
     console.log('Idempotent sequence hit - returning cached result (no AI cost incurred)', {
       prospectUrl: prospect_url,
       companyContext: company_context,
-      sequenceLength: sequence_length,
+      channels,
       tovConfig: tov_config,
       sequenceId: existingSequence.id,
     });
 
-    return {
-      analysis: existingSequence.analysis as Record<string, any>,
-      messages: existingSequence.messages as Array<{
-        step: number;
-        message: string;
-        reasoning: string;
-      }>,
-      confidence: existingSequence.confidence,
-    };
+    return { response: toSequenceResponse(existingSequence), cached: true, tokenUsage: null };
+  }
+
+  // Cache hits are free; anything past this point spends model budget.
+  await assertWithinBudget(tenantId);
+
+  const prepared = await prepareGeneration(validatedInput, enrichmentProvider);
+  const { profile, strategy, tovDescription } = prepared;
+
+  const candidateCount = validatedInput.n_candidates ?? 1;
+
+  // Generate sequence with AI — receives profile, context, and strategy.
+  let aiResult: AIGenerationResult;
+  let candidates: SequenceCandidatesResult | undefined;
+  try {
+    if (candidateCount > 1) {
+      candidates = await generateSequenceCandidatesWithAI(
+        profile,
+        company_context,
+        tovDescription,
+        channels,
+        strategy,
+        settings,
+        qualityRules,
+        sanitizationRules,
+        candidateCount
+      );
+      aiResult = candidates.candidates[0];
+    } else {
+      aiResult = await generateSequenceWithAI(
+        profile,
+        company_context,
+        tovDescription,
+        channels,
+        strategy,
+        settings,
+        qualityRules,
+        sanitizationRules
+      );
+    }
+  } catch (error) {
+    await recordFailedGeneration(tenantId, null, error);
+    throw error;
   }
 
+  const result = await persistGeneration(tenantId, validatedInput, channels, prepared, aiResult, candidates);
+
+  return {
+    response: toSequenceResponse(result),
+    cached: false,
+    tokenUsage: candidates ? totalCandidatesTokenUsage(candidates) : totalTokenUsage(aiResult),
+  };
+}
+
+/**
+ * Templates written before channels existed describe LinkedIn DMs only, so
+ * they can't write other channels. Checked before any model call.
+ */
+function assertChannelsSupported(template: PromptTemplate, channels: Channel[]): void {
+  if (template.variables.system.includes('channel_plan')) return;
+
+  const unsupported = [...new Set(channels.filter((channel) => channel !== DEFAULT_CHANNEL))];
+  if (unsupported.length > 0) {
+    throw new AppError(
+      `Prompt version ${template.version} writes ${DEFAULT_CHANNEL} steps only; it can't write ${unsupported.join(', ')}`,
+      400,
+      'CHANNELS_NOT_SUPPORTED'
+    );
+  }
+}
+
+/**
+ * Candidates are ranked on complete sequences, so they cannot be streamed.
+ * Checked before the stream opens so the caller gets a plain 400.
+ */
+export function assertStreamable(validatedInput: GenerateSequenceInput): void {
+  if ((validatedInput.n_candidates ?? 1) > 1) {
+    throw new AppError('n_candidates is not supported when streaming', 400, 'CANDIDATES_NOT_STREAMABLE');
+  }
+}
+
+/** Server-sent events emitted by streamSequenceService, in order. */
+export type SequenceStreamEvent =
+  | {
+      event: 'strategy';
+      data: Pick<MessageStrategy, 'targetPersona' | 'capabilityTags' | 'activeWorkflows' | 'alignmentScore'> & {
+        prospectRole: string;
+      };
+    }
+  | { event: 'analysis'; data: Record<string, any> }
+  | {
+      event: 'message';
+      /** `provisional`: model text before validation and sanitization; `done` has the final text. */
+      data: SequenceResponse['messages'][number] & { provisional: boolean };
+    }
+  | { event: 'done'; data: SequenceResponse & { cached: boolean } };
+
+/**
+ * Streaming variant of generateSequenceService.
+ *
+ * Emits `strategy` once the role–context strategy is computed, `analysis` and
+ * each `message` as soon as the model has produced them, and `done` after
+ * schema validation and persistence — carrying the stored (sanitized)
+ * sequence, its id and final confidence. Streamed messages are marked
+ * `provisional`, since sanitization can still change them. Idempotent hits
+ * replay the cached sequence through the same events, with final messages.
+ */
+export async function streamSequenceService(
+  tenantId: string,
+  input: unknown,
+  emit: (event: SequenceStreamEvent) => void,
+  dependencies: SequenceServiceDependencies = {}
+): Promise<void> {
+  const validatedInput = generateSequenceSchema.parse(input);
+  assertStreamable(validatedInput);
+  assertWebhooksConfigured(validatedInput.webhook_url);
+  const enrichmentProvider =
+    dependencies.enrichmentProvider ?? getEnrichmentProvider();
+
+  try {
+    const { response, cached } = await runSequenceStream(
+      tenantId,
+      validatedInput,
+      emit,
+      enrichmentProvider
+    );
+    await notifySequenceCreated(validatedInput.webhook_url, response, cached, { type: 'stream' });
+  } catch (error) {
+    await notifySequenceFailed(validatedInput.webhook_url, validatedInput, error, { type: 'stream' });
+    throw error;
+  }
+}
+
+async function runSequenceStream(
+  tenantId: string,
+  validatedInput: GenerateSequenceInput,
+  emit: (event: SequenceStreamEvent) => void,
+  enrichmentProvider: ProspectEnrichmentProvider
+): Promise<{ response: SequenceResponse; cached: boolean }> {
+  const { prospect_url, company_context, sequence_length } = validatedInput;
+
+  const channels = resolveChannels(validatedInput.channels, sequence_length);
+  const settings = await selectPromptSettings(tenantId, prospect_url, validatedInput.prompt_version);
+  assertChannelsSupported(settings.template, channels);
+  const qualityRules = await resolveTenantQualityRules(tenantId, validatedInput.quality_rules);
+  const sanitizationRules = await resolveTenantSanitizationRules(tenantId);
+  const existingSequence = await findReusableSequence(
+    tenantId,
+    validatedInput,
+    channels,
+    settings,
+    qualityRules,
+    sanitizationRules
+  );
+
+  if (existingSequence) {
+    console.log('Idempotent sequence hit - replaying cached result over stream', {
+      prospectUrl: prospect_url,
+      sequenceId: existingSequence.id,
+    });
+
+    const cached = toSequenceResponse(existingSequence);
+    emit({ event: 'analysis', data: cached.analysis });
+    for (const message of cached.messages) {
+      emit({ event: 'message', data: { ...message, provisional: false } });
+    }
+    emit({ event: 'done', data: { ...cached, cached: true } });
+    return { response: cached, cached: true };
+  }
+
+  await assertWithinBudget(tenantId);
+
+  const prepared = await prepareGeneration(validatedInput, enrichmentProvider);
+  const { profile, strategy, tovDescription } = prepared;
+
+  emit({
+    event: 'strategy',
+    data: {
+      prospectRole: profile.roleCategory,
+      targetPersona: strategy.targetPersona,
+      capabilityTags: strategy.capabilityTags,
+      activeWorkflows: strategy.activeWorkflows,
+      alignmentScore: strategy.alignmentScore,
+    },
+  });
+
+  let aiResult: AIGenerationResult;
+  try {
+    aiResult = await streamSequenceWithAI(
+      profile,
+      company_context,
+      tovDescription,
+      channels,
+      strategy,
+      settings,
+      qualityRules,
+      sanitizationRules,
+      {
+        onAnalysis: (analysis) => emit({ event: 'analysis', data: analysis }),
+        onMessage: (message) => emit({ event: 'message', data: { ...message, provisional: true } }),
+      }
+    );
+  } catch (error) {
+    await recordFailedGeneration(tenantId, null, error);
+    throw error;
+  }
+
+  const result = await persistGeneration(tenantId, validatedInput, channels, prepared, aiResult);
+  const response = toSequenceResponse(result);
+
+  emit({ event: 'done', data: { ...response, cached: false } });
+  return { response, cached: false };
+}
+
+export interface SequencePreviewResponse extends PromptPreview {
+  prospect: Pick<
+    ProspectProfile,
+    'fullName' | 'headline' | 'company' | 'roleCategory' | 'seniority' | 'skills'
+  >;
+  strategy: Omit<MessageStrategy, 'alignmentNote'> & { prospectRole: string };
+  tovDescription: string;
+  /** Experiment arm this prospect is assigned to, if the tenant runs one. */
+  experiment: PromptSettings['experiment'];
+  /** `n_candidates`; the token estimate and projected cost cover all of them. */
+  candidateCount: number;
+}
+
+/**
+ * Dry run of the generation pipeline: enrichment, strategy, TOV translation
+ * and prompt rendering, without calling the model or writing to the database.
+ * Cache options and webhook_url are accepted but ignored.
+ */
+export async function previewSequenceService(
+  tenantId: string,
+  input: unknown,
+  dependencies: SequenceServiceDependencies = {}
+): Promise<SequencePreviewResponse> {
+  const validatedInput = generateSequenceSchema.parse(input);
+  const enrichmentProvider =
+    dependencies.enrichmentProvider ?? getEnrichmentProvider();
+  const channels = resolveChannels(validatedInput.channels, validatedInput.sequence_length);
+  const settings = await selectPromptSettings(
+    tenantId,
+    validatedInput.prospect_url,
+    validatedInput.prompt_version
+  );
+  assertChannelsSupported(settings.template, channels);
+
+  const { profile, strategy, tovDescription } = await prepareGeneration(
+    validatedInput,
+    enrichmentProvider
+  );
+
+  const preview = previewSequencePrompts(
+    profile,
+    validatedInput.company_context,
+    tovDescription,
+    channels,
+    strategy,
+    settings
+  );
+
+  const candidateCount = validatedInput.n_candidates ?? 1;
+
+  return {
+    ...preview,
+    tokenEstimate: {
+      promptTokens: preview.tokenEstimate.promptTokens * candidateCount,
+      completionTokens: preview.tokenEstimate.completionTokens * candidateCount,
+      totalTokens: preview.tokenEstimate.totalTokens * candidateCount,
+    },
+    projectedCost: preview.projectedCost * candidateCount,
+    prospect: {
+      fullName: profile.fullName,
+      headline: profile.headline,
+      company: profile.company,
+      roleCategory: profile.roleCategory,
+      seniority: profile.seniority,
+      skills: profile.skills,
+    },
+    strategy: {
+      prospectRole: profile.roleCategory,
+      targetPersona: strategy.targetPersona,
+      capabilityTags: strategy.capabilityTags,
+      allowedWorkflows: strategy.allowedWorkflows,
+      activeWorkflows: strategy.activeWorkflows,
+      alignmentScore: strategy.alignmentScore,
+    },
+    tovDescription,
+    experiment: settings.experiment,
+    candidateCount,
+  };
+}
+
+interface PreparedGeneration {
+  profile: ProspectProfile;
+  strategy: MessageStrategy;
+  tovDescription: string;
+}
+
+/**
+ * Everything that happens before the model call: enrichment, role–context
+ * strategy and TOV translation. Shared by the blocking and streaming paths.
+ */
+async function prepareGeneration(
+  validatedInput: GenerateSequenceInput,
+  enrichmentProvider: ProspectEnrichmentProvider
+): Promise<PreparedGeneration> {
+  const { prospect_url, tov_config, company_context } = validatedInput;
+
   // Enrich prospect profile through a swappable enrichment provider.
   // The provider returns a strongly typed ProspectProfile with roleCategory,
   // seniority, skills, and inferredResponsibilities — grounding the AI pipeline.
@@ -105,22 +501,32 @@ export async function generateSequenceService(
     tov_config.directness
   );
 
-  // Generate sequence with AI — receives profile, context, and strategy.
-  const aiResult = await generateSequenceWithAI(
-    profile,
-    company_context,
-    tovDescription,
-    sequence_length,
-    strategy
-  );
+  return { profile, strategy, tovDescription };
+}
+
+/**
+ * Store prospect, TOV config, sequence and AI generation in one transaction,
+ * all owned by the tenant. With candidates, `aiResult` is the best-ranked one;
+ * every candidate gets its generation rows and a SequenceCandidate row.
+ */
+async function persistGeneration(
+  tenantId: string,
+  validatedInput: GenerateSequenceInput,
+  channels: Channel[],
+  prepared: PreparedGeneration,
+  aiResult: AIGenerationResult,
+  candidates?: SequenceCandidatesResult
+): Promise<MessageSequence> {
+  const { profile, tovDescription } = prepared;
+  const { prospect_url, tov_config, company_context, sequence_length } = validatedInput;
 
   // Store everything in database using transaction for atomicity
   // Increased timeout to 15s to handle multiple sequential DB operations
-  const result = await prisma.$transaction(
+  return prisma.$transaction(
     async (tx) => {
     // Upsert prospect
     const prospect = await tx.prospect.upsert({
-      where: { linkedinUrl: prospect_url },
+      where: { tenantId_linkedinUrl: { tenantId, linkedinUrl: prospect_url } },
       update: {
         fullName: profile.fullName,
         headline: profile.headline,
@@ -129,6 +535,7 @@ export async function generateSequenceService(
         updatedAt: new Date(),
       },
       create: {
+        tenantId,
         linkedinUrl: prospect_url,
         fullName: profile.fullName,
         headline: profile.headline,
@@ -140,6 +547,7 @@ export async function generateSequenceService(
     // Create or find TOV config
     const tovConfig = await tx.tovConfig.findFirst({
       where: {
+        tenantId,
         formality: tov_config.formality,
         warmth: tov_config.warmth,
         directness: tov_config.directness,
@@ -152,6 +560,7 @@ export async function generateSequenceService(
     } else {
       finalTovConfig = await tx.tovConfig.create({
         data: {
+          tenantId,
           formality: tov_config.formality,
           warmth: tov_config.warmth,
           directness: tov_config.directness,
@@ -163,39 +572,52 @@ export async function generateSequenceService(
     // Create message sequence
     const sequence = await tx.messageSequence.create({
       data: {
+        tenantId,
         prospectId: prospect.id,
         tovConfigId: finalTovConfig.id,
         companyContext: company_context,
         sequenceLength: sequence_length,
+        channels,
         messages: aiResult.messages,
         analysis: aiResult.analysis,
         confidence: aiResult.confidence,
+        triggeredRules: aiResult.triggeredRules as unknown as Prisma.InputJsonValue,
+        diagnostics: aiResult.diagnostics as unknown as Prisma.InputJsonValue,
+        sanitization: aiResult.sanitization as unknown as Prisma.InputJsonValue,
       },
     });
 
-    // Create AI generation record
-    await tx.aIGeneration.create({
-      data: {
-        sequenceId: sequence.id,
-        model: MODEL,
-        promptVersion: PROMPT_VERSION,
-        promptTokens: aiResult.tokenUsage.promptTokens,
-        completionTokens: aiResult.tokenUsage.completionTokens,
-        totalTokens: aiResult.tokenUsage.totalTokens,
-        estimatedCost: aiResult.tokenUsage.estimatedCost,
-        rawResponse: aiResult.rawResponse,
-        thinking: {
-          analysis: aiResult.analysis,
-          strategy: {
-            prospectRole: profile.roleCategory,
-            targetPersona: strategy.targetPersona,
-            capabilityTags: strategy.capabilityTags,
-            activeWorkflows: strategy.activeWorkflows,
-            alignmentScore: strategy.alignmentScore,
-          },
+    if (!candidates) {
+      await createGenerationRows(tx, tenantId, sequence.id, prepared, aiResult);
+      return sequence;
+    }
+
+    // Calls of candidates that failed outright, then each candidate with its own calls
+    if (candidates.failedAttempts.length > 0) {
+      await tx.aIGeneration.createMany({
+        data: failedAttemptRows(tenantId, sequence.id, candidates.failedAttempts),
+      });
+    }
+
+    for (const candidate of candidates.candidates) {
+      const generation = await createGenerationRows(tx, tenantId, sequence.id, prepared, candidate);
+      const selected = candidate.rank === 1;
+      await tx.sequenceCandidate.create({
+        data: {
+          sequenceId: sequence.id,
+          aiGenerationId: generation.id,
+          rank: candidate.rank,
+          score: candidate.score,
+          confidence: candidate.confidence,
+          qualityIssues: candidate.qualityIssues,
+          triggeredRules: candidate.triggeredRules as unknown as Prisma.InputJsonValue,
+          analysis: candidate.analysis,
+          messages: candidate.messages,
+          selected,
+          selectedAt: selected ? new Date() : null,
         },
-      },
-    });
+      });
+    }
 
     return sequence;
     },
@@ -203,31 +625,141 @@ export async function generateSequenceService(
       timeout: 15000, // 15 seconds - enough for multiple sequential DB operations
     }
   );
+}
+
+/**
+ * AI generation records for one result: retried or repaired calls, then the
+ * one that produced it. Returns the producing row.
+ */
+async function createGenerationRows(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  sequenceId: string,
+  { profile, strategy }: PreparedGeneration,
+  aiResult: AIGenerationResult
+): Promise<{ id: string }> {
+  if (aiResult.failedAttempts.length > 0) {
+    await tx.aIGeneration.createMany({
+      data: failedAttemptRows(tenantId, sequenceId, aiResult.failedAttempts),
+    });
+  }
 
+  return tx.aIGeneration.create({
+    data: {
+      tenantId,
+      sequenceId,
+      model: aiResult.model,
+      ...aiResult.prompt,
+      attempt: aiResult.attempt,
+      repair: aiResult.repair,
+      qualityRulesHash: aiResult.qualityRulesHash,
+      sanitizationRulesHash: aiResult.sanitizationRulesHash,
+      promptTokens: aiResult.tokenUsage.promptTokens,
+      completionTokens: aiResult.tokenUsage.completionTokens,
+      totalTokens: aiResult.tokenUsage.totalTokens,
+      estimatedCost: aiResult.tokenUsage.estimatedCost,
+      rawResponse: aiResult.rawResponse,
+      diagnostics: aiResult.diagnostics as unknown as Prisma.InputJsonValue,
+      sanitization: aiResult.sanitization as unknown as Prisma.InputJsonValue,
+      thinking: {
+        analysis: aiResult.analysis,
+        qualityIssues: aiResult.qualityIssues,
+        triggeredRules: aiResult.triggeredRules as unknown as Prisma.InputJsonValue,
+        modelRoute: { reason: aiResult.route.reason, models: aiResult.route.models },
+        strategy: {
+          prospectRole: profile.roleCategory,
+          targetPersona: strategy.targetPersona,
+          capabilityTags: strategy.capabilityTags,
+          activeWorkflows: strategy.activeWorkflows,
+          alignmentScore: strategy.alignmentScore,
+        },
+      },
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Map a stored MessageSequence row to the public response shape.
+ */
+export function toSequenceResponse(
+  sequence: Pick<
+    MessageSequence,
+    'id' | 'analysis' | 'messages' | 'confidence' | 'triggeredRules' | 'diagnostics' | 'sanitization'
+  >
+): SequenceResponse {
   return {
-    analysis: result.analysis as Record<string, any>,
-    messages: result.messages as Array<{
-      step: number;
-      message: string;
-      reasoning: string;
-    }>,
-    confidence: result.confidence,
+    id: sequence.id,
+    analysis: sequence.analysis as Record<string, any>,
+    messages: sequence.messages as SequenceResponse['messages'],
+    confidence: sequence.confidence,
+    triggeredRules: sequence.triggeredRules as unknown as QualityViolation[],
+    diagnostics: sequence.diagnostics as unknown as GenerationDiagnostics | null,
+    sanitization: (sequence.sanitization as unknown as SanitizedField[]).map((field) => ({
+      ...field,
+      diff: diffWords(field.before, field.after),
+    })),
   };
 }
 
+/**
+ * Apply the caller's cache controls: `force_regenerate` skips the lookup,
+ * `max_cache_age` (seconds) ignores sequences older than that.
+ */
+async function findReusableSequence(
+  tenantId: string,
+  validatedInput: GenerateSequenceInput,
+  channels: Channel[],
+  settings: PromptSettings,
+  qualityRules: QualityRuleSet,
+  sanitizationRules: SanitizationRuleSet
+) {
+  const { prospect_url, tov_config, company_context } = validatedInput;
+
+  if (validatedInput.force_regenerate) {
+    console.log('Cache bypassed by force_regenerate', { prospectUrl: prospect_url });
+    return null;
+  }
+
+  const createdAfter =
+    validatedInput.max_cache_age !== undefined
+      ? new Date(Date.now() - validatedInput.max_cache_age * 1000)
+      : undefined;
+
+  return findExistingSequence(
+    tenantId,
+    prospect_url,
+    company_context,
+    tov_config,
+    channels,
+    settings,
+    qualityRules,
+    sanitizationRules,
+    createdAfter
+  );
+}
+
 /**
  * Idempotency check: Find existing sequence with identical parameters.
- * Uses deterministic lookup based on prospect URL, company context, TOV values, and sequence length.
+ * Uses deterministic lookup based on prospect URL, company context, TOV values, the step channels,
+ * the prompt settings (template version, content hash and temperature) and the
+ * hashes of the quality and sanitization rule sets.
+ * Scoped to the tenant: one tenant's sequences are never served to another.
  */
 async function findExistingSequence(
+  tenantId: string,
   prospectUrl: string,
   companyContext: string,
   tovConfig: { formality: number; warmth: number; directness: number },
-  sequenceLength: number
+  channels: Channel[],
+  { template, temperature }: PromptSettings,
+  qualityRules: QualityRuleSet,
+  sanitizationRules: SanitizationRuleSet,
+  createdAfter?: Date
 ) {
   // Find prospect
   const prospect = await prisma.prospect.findUnique({
-    where: { linkedinUrl: prospectUrl },
+    where: { tenantId_linkedinUrl: { tenantId, linkedinUrl: prospectUrl } },
   });
 
   if (!prospect) {
@@ -237,6 +769,7 @@ async function findExistingSequence(
   // Find matching TOV config
   const tov = await prisma.tovConfig.findFirst({
     where: {
+      tenantId,
       formality: tovConfig.formality,
       warmth: tovConfig.warmth,
       directness: tovConfig.directness,
@@ -247,16 +780,24 @@ async function findExistingSequence(
     return null;
   }
 
-  // Find matching sequence generated with the current prompt version.
+  // Find matching sequence generated from the same prompt text and temperature,
+  // checked against the same quality rules and sanitized with the same rules.
   const sequence = await prisma.messageSequence.findFirst({
     where: {
       prospectId: prospect.id,
       tovConfigId: tov.id,
       companyContext: companyContext,
-      sequenceLength,
+      sequenceLength: channels.length,
+      channels: { equals: channels },
+      ...(createdAfter && { createdAt: { gte: createdAfter } }),
       aiGenerations: {
         some: {
-          promptVersion: PROMPT_VERSION,
+          status: 'succeeded',
+          promptVersion: template.version,
+          promptHash: template.contentHash,
+          temperature,
+          qualityRulesHash: qualityRules.hash,
+          sanitizationRulesHash: sanitizationRules.hash,
         },
       },
     },
@@ -271,13 +812,15 @@ async function findExistingSequence(
         prospectId: prospect.id,
         tovConfigId: tov.id,
         companyContext: companyContext,
-        sequenceLength,
+        sequenceLength: channels.length,
+        channels: { equals: channels },
       },
       orderBy: {
         createdAt: 'desc',
       },
       include: {
         aiGenerations: {
+          where: { status: 'succeeded' },
           orderBy: {
             createdAt: 'desc',
           },
@@ -287,10 +830,19 @@ async function findExistingSequence(
     });
 
     if (staleSequence) {
-      console.log('Skipping cached sequence due to prompt version mismatch; regenerating.', {
+      const cached = staleSequence.aiGenerations[0];
+      console.log('Skipping cached sequence due to prompt settings or rule set mismatch; regenerating.', {
         sequenceId: staleSequence.id,
-        expectedPromptVersion: PROMPT_VERSION,
-        cachedPromptVersion: staleSequence.aiGenerations[0]?.promptVersion || null,
+        expectedPromptVersion: template.version,
+        expectedPromptHash: template.contentHash,
+        expectedTemperature: temperature,
+        expectedQualityRulesHash: qualityRules.hash,
+        expectedSanitizationRulesHash: sanitizationRules.hash,
+        cachedPromptVersion: cached?.promptVersion || null,
+        cachedPromptHash: cached?.promptHash || null,
+        cachedTemperature: cached?.temperature ?? null,
+        cachedQualityRulesHash: cached?.qualityRulesHash ?? null,
+        cachedSanitizationRulesHash: cached?.sanitizationRulesHash ?? null,
       });
     }
   }
@@ -0,0 +1,14 @@
+import { analyzeCompanyContext } from '../utils/roleContextStrategy';
+import type { ContextAnalysis } from '../utils/roleContextStrategy';
+import { analyzeStrategySchema } from '../utils/validation';
+
+/**
+ * Authoring aid for company_context: the persona the strategy engine infers,
+ * why (per-signal keyword matches and scores), the resulting workflows and
+ * alignment, and keywords that would raise alignment for a chosen persona.
+ * Pure computation — no enrichment, model call or database access.
+ */
+export function analyzeStrategyService(input: unknown): ContextAnalysis {
+  const { company_context, prospect_role, target_persona } = analyzeStrategySchema.parse(input);
+  return analyzeCompanyContext(company_context, prospect_role, target_persona);
+}
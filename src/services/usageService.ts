@@ -0,0 +1,268 @@
+import type { ApiKey, Tenant } from '@prisma/client';
+import prisma from '../db/prisma';
+import { AppError } from '../utils/errorHandler';
+import { refillTokenBucket, takeToken } from '../utils/tokenBucket';
+import type { TokenBucketConfig } from '../utils/tokenBucket';
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = Math.max(1, Number(process.env.RATE_LIMIT_PER_MINUTE) || 60);
+const DEFAULT_RATE_LIMIT_BURST = Number(process.env.RATE_LIMIT_BURST) || undefined;
+
+// Unset means no limit.
+const DEFAULT_DAILY_BUDGET_USD = optionalNumber(process.env.DAILY_BUDGET_USD);
+const DEFAULT_MONTHLY_BUDGET_USD = optionalNumber(process.env.MONTHLY_BUDGET_USD);
+
+export const RATE_LIMIT_LIMIT_HEADER = 'X-RateLimit-Limit';
+export const RATE_LIMIT_REMAINING_HEADER = 'X-RateLimit-Remaining';
+export const BUDGET_DAILY_REMAINING_HEADER = 'X-Budget-Daily-Remaining-USD';
+export const BUDGET_MONTHLY_REMAINING_HEADER = 'X-Budget-Monthly-Remaining-USD';
+
+function optionalNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting (per API key)
+// ---------------------------------------------------------------------------
+
+export interface RateLimitResult {
+  limit: number;
+  remaining: number;
+}
+
+function rateLimitConfig(apiKey: Pick<ApiKey, 'rateLimitPerMinute' | 'rateLimitBurst'>): TokenBucketConfig {
+  const ratePerMinute = apiKey.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+  return {
+    ratePerMinute,
+    capacity: apiKey.rateLimitBurst ?? DEFAULT_RATE_LIMIT_BURST ?? ratePerMinute,
+  };
+}
+
+/**
+ * Spend one request token from the key's bucket, or throw 429 with
+ * Retry-After. The bucket row is locked for the read-modify-write so
+ * concurrent requests (and several API processes) share one budget.
+ */
+export async function consumeRateLimit(apiKeyId: string): Promise<RateLimitResult> {
+  const { config, decision } = await prisma.$transaction(async (tx) => {
+    const [apiKey] = await tx.$queryRaw<
+      Pick<ApiKey, 'rateLimitPerMinute' | 'rateLimitBurst' | 'bucketTokens' | 'bucketUpdatedAt'>[]
+    >`
+      SELECT "rateLimitPerMinute", "rateLimitBurst", "bucketTokens", "bucketUpdatedAt"
+      FROM "api_keys"
+      WHERE "id" = ${apiKeyId}
+      FOR UPDATE
+    `;
+    if (!apiKey) {
+      throw new AppError('Invalid API key', 401, 'INVALID_API_KEY');
+    }
+
+    const config = rateLimitConfig(apiKey);
+    const decision = takeToken(bucketState(apiKey), config, new Date());
+
+    await tx.apiKey.update({
+      where: { id: apiKeyId },
+      data: { bucketTokens: decision.state.tokens, bucketUpdatedAt: decision.state.updatedAt },
+    });
+
+    return { config, decision };
+  });
+
+  if (!decision.allowed) {
+    throw new AppError('Rate limit exceeded', 429, 'RATE_LIMITED', {
+      'Retry-After': String(decision.retryAfterSeconds),
+      [RATE_LIMIT_LIMIT_HEADER]: String(config.ratePerMinute),
+      [RATE_LIMIT_REMAINING_HEADER]: '0',
+    });
+  }
+
+  return { limit: config.ratePerMinute, remaining: decision.remaining };
+}
+
+function bucketState(apiKey: Pick<ApiKey, 'bucketTokens' | 'bucketUpdatedAt'>) {
+  return apiKey.bucketTokens !== null && apiKey.bucketUpdatedAt
+    ? { tokens: apiKey.bucketTokens, updatedAt: apiKey.bucketUpdatedAt }
+    : null;
+}
+
+// ---------------------------------------------------------------------------
+// Budgets (per tenant, from persisted AIGeneration.estimatedCost)
+// ---------------------------------------------------------------------------
+
+export type BudgetPeriod = 'day' | 'month';
+
+export interface PeriodUsage {
+  /** UTC start of the current period. */
+  start: Date;
+  resetsAt: Date;
+  generations: number;
+  totalTokens: number;
+  spentUsd: number;
+  /** Null when the period has no budget. */
+  budgetUsd: number | null;
+  remainingUsd: number | null;
+}
+
+export type TenantUsage = Record<BudgetPeriod, PeriodUsage>;
+
+/** Model spend in the current UTC day and month against the tenant's budgets. */
+export async function getTenantUsage(tenantId: string): Promise<TenantUsage> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { dailyBudgetUsd: true, monthlyBudgetUsd: true },
+  });
+  if (!tenant) {
+    throw new AppError('Tenant not found', 404, 'TENANT_NOT_FOUND');
+  }
+
+  const now = new Date();
+  const budgets = tenantBudgets(tenant);
+
+  const [day, month] = await Promise.all([
+    periodUsage(tenantId, startOfUtcDay(now), startOfNextUtcDay(now), budgets.day),
+    periodUsage(tenantId, startOfUtcMonth(now), startOfNextUtcMonth(now), budgets.month),
+  ]);
+
+  return { day, month };
+}
+
+/**
+ * Throw 402 when the tenant has used up its daily or monthly budget.
+ * Called right before each model call (and when work is queued), so cache
+ * hits are still served. Generations already in flight can overshoot a
+ * budget by their own cost.
+ */
+export async function assertWithinBudget(tenantId: string): Promise<void> {
+  const usage = await getTenantUsage(tenantId);
+
+  const exhausted = (['day', 'month'] as const).filter(
+    (period) => (usage[period].remainingUsd ?? Infinity) <= 0
+  );
+  if (exhausted.length === 0) {
+    return;
+  }
+
+  // Wait for the latest exhausted period to reset.
+  const resetsAt = Math.max(...exhausted.map((period) => usage[period].resetsAt.getTime()));
+
+  throw new AppError(
+    `${exhausted.includes('month') ? 'Monthly' : 'Daily'} budget exceeded`,
+    402,
+    'BUDGET_EXCEEDED',
+    {
+      'Retry-After': String(Math.max(1, Math.ceil((resetsAt - Date.now()) / 1000))),
+      ...budgetHeaders(usage),
+    }
+  );
+}
+
+/** Remaining-budget headers for the periods that have a budget. */
+export function budgetHeaders(usage: TenantUsage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (usage.day.remainingUsd !== null) {
+    headers[BUDGET_DAILY_REMAINING_HEADER] = usage.day.remainingUsd.toFixed(6);
+  }
+  if (usage.month.remainingUsd !== null) {
+    headers[BUDGET_MONTHLY_REMAINING_HEADER] = usage.month.remainingUsd.toFixed(6);
+  }
+  return headers;
+}
+
+function tenantBudgets(
+  tenant: Pick<Tenant, 'dailyBudgetUsd' | 'monthlyBudgetUsd'>
+): Record<BudgetPeriod, number | null> {
+  return {
+    day: tenant.dailyBudgetUsd ?? DEFAULT_DAILY_BUDGET_USD,
+    month: tenant.monthlyBudgetUsd ?? DEFAULT_MONTHLY_BUDGET_USD,
+  };
+}
+
+async function periodUsage(
+  tenantId: string,
+  start: Date,
+  resetsAt: Date,
+  budgetUsd: number | null
+): Promise<PeriodUsage> {
+  const totals = await prisma.aIGeneration.aggregate({
+    where: { tenantId, createdAt: { gte: start } },
+    _sum: { estimatedCost: true, totalTokens: true },
+    _count: { _all: true },
+  });
+
+  const spentUsd = totals._sum.estimatedCost ?? 0;
+
+  return {
+    start,
+    resetsAt,
+    generations: totals._count._all,
+    totalTokens: totals._sum.totalTokens ?? 0,
+    spentUsd,
+    budgetUsd,
+    remainingUsd: budgetUsd === null ? null : Math.max(0, budgetUsd - spentUsd),
+  };
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function startOfNextUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function startOfNextUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+// ---------------------------------------------------------------------------
+// Usage report
+// ---------------------------------------------------------------------------
+
+export interface UsageResponse {
+  tenantId: string;
+  periods: TenantUsage;
+  rateLimit: {
+    apiKeyId: string;
+    perMinute: number;
+    burst: number;
+    remaining: number;
+  };
+}
+
+/** Current consumption per period for the caller's tenant, plus its key's rate limit. */
+export async function getUsageService(tenantId: string, apiKeyId: string): Promise<UsageResponse> {
+  const [periods, apiKey] = await Promise.all([
+    getTenantUsage(tenantId),
+    prisma.apiKey.findUnique({
+      where: { id: apiKeyId },
+      select: {
+        rateLimitPerMinute: true,
+        rateLimitBurst: true,
+        bucketTokens: true,
+        bucketUpdatedAt: true,
+      },
+    }),
+  ]);
+  if (!apiKey) {
+    throw new AppError('Invalid API key', 401, 'INVALID_API_KEY');
+  }
+
+  const config = rateLimitConfig(apiKey);
+  const bucket = refillTokenBucket(bucketState(apiKey), config, new Date());
+
+  return {
+    tenantId,
+    periods,
+    rateLimit: {
+      apiKeyId,
+      perMinute: config.ratePerMinute,
+      burst: config.capacity,
+      remaining: Math.floor(bucket.tokens),
+    },
+  };
+}
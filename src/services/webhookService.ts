@@ -0,0 +1,324 @@
+import { randomUUID } from 'crypto';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import type { Prisma, WebhookDelivery } from '@prisma/client';
+import { ZodError } from 'zod';
+import prisma from '../db/prisma';
+import { AppError } from '../utils/errorHandler';
+import type { GenerateSequenceInput } from '../utils/validation';
+import {
+  DELIVERY_ID_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signWebhookPayload,
+} from '../utils/webhookSignature';
+import { isAllowListedHost, publicOnlyLookup, webhookUrlProblem } from '../utils/webhookUrl';
+import type { AuthContext } from './apiKeyService';
+import type { SequenceResponse } from './sequenceService';
+
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10_000;
+const WEBHOOK_MAX_ATTEMPTS = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6);
+
+// Delay before retry n: 10s, 20s, 40s, 80s, ...
+const RETRY_BASE_DELAY_MS = 10_000;
+
+// A delivery stuck in "delivering" this long is assumed orphaned by a crash.
+const STALE_DELIVERY_AFTER_MS = 2 * 60 * 1000;
+
+export type WebhookEvent = 'sequence.created' | 'sequence.failed';
+
+/** Where the generation came from, so receivers can correlate deliveries. */
+export type WebhookSource =
+  | { type: 'request' }
+  | { type: 'stream' }
+  | { type: 'job'; jobId: string }
+  | { type: 'batch'; batchId: string; rowIndex: number };
+
+interface AttemptLogEntry {
+  attempt: number;
+  at: string;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Reject webhook_url up front when the server has no signing secret,
+ * rather than accepting work whose notifications can never be sent.
+ */
+export function assertWebhooksConfigured(webhookUrl: string | null | undefined): void {
+  if (webhookUrl && !process.env.WEBHOOK_SIGNING_SECRET) {
+    throw new AppError('Webhooks are not configured on this server', 400, 'WEBHOOKS_NOT_CONFIGURED');
+  }
+}
+
+/**
+ * The request's webhook_url, or the calling key's registered webhook when
+ * the request doesn't name one. Applied when work is accepted, so jobs and
+ * batches keep the URL they were created with.
+ */
+export function withKeyWebhook<T extends { webhook_url?: string }>(input: T, auth: AuthContext): T {
+  if (input.webhook_url || !auth.webhookUrl) return input;
+  return { ...input, webhook_url: auth.webhookUrl };
+}
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+/**
+ * Notify `sequence.created`. Never throws — a webhook problem must not fail
+ * the generation that triggered it.
+ */
+export async function notifySequenceCreated(
+  webhookUrl: string | null | undefined,
+  sequence: SequenceResponse,
+  cached: boolean,
+  source: WebhookSource
+): Promise<void> {
+  if (!webhookUrl) return;
+
+  await enqueueWebhook(webhookUrl, 'sequence.created', { sequence, cached, source }, sequence.id);
+}
+
+/**
+ * Notify `sequence.failed` once a generation has failed for good (after job
+ * retries, not on every attempt). Never throws.
+ */
+export async function notifySequenceFailed(
+  webhookUrl: string | null | undefined,
+  input: Pick<GenerateSequenceInput, 'prospect_url' | 'company_context' | 'sequence_length'>,
+  error: unknown,
+  source: WebhookSource
+): Promise<void> {
+  if (!webhookUrl) return;
+
+  await enqueueWebhook(
+    webhookUrl,
+    'sequence.failed',
+    {
+      request: {
+        prospect_url: input.prospect_url,
+        company_context: input.company_context,
+        sequence_length: input.sequence_length,
+      },
+      error: describeError(error),
+      source,
+    },
+    null
+  );
+}
+
+// Same public wording as errorHandler, so webhooks don't leak more than the API.
+function describeError(error: unknown): { code: string; message: string } {
+  if (error instanceof AppError) {
+    return error.code === 'AI_GENERATION_FAILED'
+      ? { code: error.code, message: 'AI generation failed' }
+      : { code: error.code ?? 'INTERNAL_ERROR', message: error.message };
+  }
+  if (error instanceof ZodError) {
+    return { code: 'VALIDATION_ERROR', message: 'Validation error' };
+  }
+  return { code: 'INTERNAL_ERROR', message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Store a delivery and make the first attempt right away, in the background.
+ * The row is created already claimed (`delivering`) so a worker can't pick
+ * it up while this process is sending it; failed attempts go back to
+ * `pending` and are retried by the worker.
+ */
+async function enqueueWebhook(
+  url: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  sequenceId: string | null
+): Promise<void> {
+  try {
+    const id = randomUUID();
+    const payload = { id, event, createdAt: new Date().toISOString(), data };
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        id,
+        event,
+        url,
+        payload: payload as Prisma.InputJsonObject,
+        status: 'delivering',
+        maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+        sequenceId,
+      },
+    });
+
+    void attemptDelivery(delivery).catch((error) => {
+      console.error('Webhook delivery crashed', {
+        deliveryId: delivery.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  } catch (error) {
+    console.error('Failed to enqueue webhook', {
+      event,
+      url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+/**
+ * POST the stored payload once and record the attempt. 2xx is success;
+ * anything else (status, timeout, network error) is retried with exponential
+ * backoff until maxAttempts. A URL that fails the webhook target checks
+ * (stored before they existed, or WEBHOOK_ALLOWED_HOSTS changed) fails the
+ * delivery without retrying.
+ */
+export async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  const secret = process.env.WEBHOOK_SIGNING_SECRET ?? '';
+  const attempt = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const startedAt = Date.now();
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  const urlProblem = webhookUrlProblem(delivery.url);
+  if (urlProblem) {
+    error = `Webhook URL ${urlProblem}`;
+  } else {
+    try {
+      statusCode = await postWebhook(delivery.url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ai-sequence-generation-webhooks/1.0',
+        [DELIVERY_ID_HEADER]: delivery.id,
+        [EVENT_HEADER]: delivery.event,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+      });
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `HTTP ${statusCode}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const entry: AttemptLogEntry = {
+    attempt,
+    at: new Date(startedAt).toISOString(),
+    statusCode,
+    error,
+    durationMs: Date.now() - startedAt,
+  };
+  const attemptLog = [...(delivery.attemptLog as unknown as AttemptLogEntry[]), entry];
+
+  if (!error) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'succeeded',
+        attempts: attempt,
+        attemptLog: attemptLog as unknown as Prisma.InputJsonArray,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+    });
+
+    console.log('Webhook delivered', { deliveryId: delivery.id, event: delivery.event, attempt });
+    return;
+  }
+
+  const exhausted = urlProblem !== null || attempt >= delivery.maxAttempts;
+  const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: exhausted ? 'failed' : 'pending',
+      attempts: attempt,
+      attemptLog: attemptLog as unknown as Prisma.InputJsonArray,
+      lastError: error,
+      ...(!exhausted && { nextAttemptAt: new Date(Date.now() + delayMs) }),
+    },
+  });
+
+  console.warn(exhausted ? 'Webhook delivery failed' : 'Webhook delivery failed, will retry', {
+    deliveryId: delivery.id,
+    event: delivery.event,
+    attempt,
+    error,
+    ...(!exhausted && { retryInMs: delayMs }),
+  });
+}
+
+/**
+ * POST `body` and resolve with the status code. Connects only to public
+ * addresses unless the host is allow-listed; redirects are not followed.
+ */
+function postWebhook(url: string, body: string, headers: Record<string, string>): Promise<number> {
+  const target = new URL(url);
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        timeout: WEBHOOK_TIMEOUT_MS,
+        ...(!isAllowListedHost(target.hostname) && { lookup: publicOnlyLookup }),
+      },
+      (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode ?? 0));
+        res.on('error', reject);
+      }
+    );
+    req.on('timeout', () => req.destroy(new Error(`Timed out after ${WEBHOOK_TIMEOUT_MS}ms`)));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Atomically claim the next delivery due for a retry.
+ * Same SKIP LOCKED pattern as claimNextJob.
+ */
+export async function claimNextDelivery(): Promise<WebhookDelivery | null> {
+  const staleBefore = new Date(Date.now() - STALE_DELIVERY_AFTER_MS);
+
+  const rows = await prisma.$queryRaw<WebhookDelivery[]>`
+    UPDATE "webhook_deliveries"
+    SET "status" = 'delivering',
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "webhook_deliveries"
+      WHERE ("status" = 'pending' AND "nextAttemptAt" <= NOW())
+         OR ("status" = 'delivering' AND "updatedAt" < ${staleBefore})
+      ORDER BY "nextAttemptAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Claim and send one due delivery. Returns false when nothing is due.
+ */
+export async function processNextWebhookDelivery(): Promise<boolean> {
+  const delivery = await claimNextDelivery();
+  if (!delivery) {
+    return false;
+  }
+
+  await attemptDelivery(delivery);
+  return true;
+}
@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import { OpenAPIRegistry, OpenApiGeneratorV31, extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { checkChannelMessage, opensWithGreeting } from './channels';
+import type { Channel } from './channels';
+import { AppError } from './errorHandler';
+
+/**
+ * Zod model of the AI response — the contract the prompts describe in prose.
+ *
+ * It is used twice: converted to a JSON schema and sent as the structured
+ * output format when the provider supports it, and run against every
+ * response, structured or not. A response that doesn't match fails with
+ * AIOutputValidationError, one entry per bad field.
+ */
+
+extendZodWithOpenApi(z);
+
+export const REASONING_FORMAT = 'Angle: <layer> | Workflow: <named> | Signal: <data point>';
+
+// All three labels, in order, each with a value. Case-insensitive like the quality checks.
+const REASONING_PATTERN = /^\s*angle\s*:[^|]*\S[^|]*\|\s*workflow\s*:[^|]*\S[^|]*\|\s*signal\s*:.*\S/is;
+
+const textSchema = z.string().trim().min(1, 'must not be empty');
+
+const reasoningSchema = z
+  .string()
+  .describe(REASONING_FORMAT)
+  .refine((value) => REASONING_PATTERN.test(value), `must follow "${REASONING_FORMAT}"`);
+
+// Extra analysis keys from backends without structured output are kept, as before.
+export const aiAnalysisSchema = z
+  .object({
+    prospect_insights: textSchema,
+    personalization_hooks: z.array(textSchema).length(2, 'must have exactly 2 hooks'),
+    value_proposition: textSchema,
+  })
+  .passthrough();
+
+// Prompts written before channels existed don't ask for a subject; a missing one counts as null.
+const subjectSchema = z
+  .preprocess((value) => value ?? null, textSchema.nullable())
+  .describe('Subject line for inmail and email steps; null for every other channel');
+
+export const aiMessageSchema = z.object({
+  // Models sometimes misnumber steps; aiService renumbers them by position.
+  step: z.number().int(),
+  subject: subjectSchema,
+  message: textSchema,
+  reasoning: reasoningSchema,
+});
+
+/**
+ * Full sequence output for steps on the given channels, one message per
+ * channel. Each message must fit its channel, and only one may open with a
+ * greeting — the prospect is greeted once, whatever the channel mix.
+ */
+export function aiSequenceOutputSchema(channels: readonly Channel[]) {
+  return z.object({
+    analysis: aiAnalysisSchema,
+    messages: z
+      .array(aiMessageSchema)
+      .length(channels.length, `must have exactly ${channels.length} messages`)
+      .superRefine((messages, ctx) => {
+        let greetedStep: number | null = null;
+        messages.forEach((message, index) => {
+          const channel = channels[index];
+          if (!channel) return;
+
+          for (const problem of checkChannelMessage(channel, message)) {
+            ctx.addIssue({ code: 'custom', path: [index, problem.field], message: problem.message });
+          }
+          if (opensWithGreeting(message.message)) {
+            if (greetedStep === null) {
+              greetedStep = index + 1;
+            } else {
+              ctx.addIssue({
+                code: 'custom',
+                path: [index, 'message'],
+                message: `must not open with a greeting; step ${greetedStep} already greets`,
+              });
+            }
+          }
+        });
+      }),
+    confidence: z.number().min(0).max(1),
+  });
+}
+
+/**
+ * Output of a single-step rewrite on the given channel. `greetedStep` is
+ * another step that already opens with a greeting, if any.
+ */
+export function aiStepOutputSchema(channel: Channel, greetedStep: number | null) {
+  return aiMessageSchema.omit({ step: true }).superRefine((message, ctx) => {
+    for (const problem of checkChannelMessage(channel, message)) {
+      ctx.addIssue({ code: 'custom', path: [problem.field], message: problem.message });
+    }
+    if (greetedStep !== null && opensWithGreeting(message.message)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['message'],
+        message: `must not open with a greeting; step ${greetedStep} already greets`,
+      });
+    }
+  });
+}
+
+export type AIAnalysis = z.infer<typeof aiAnalysisSchema>;
+export type AIMessage = z.infer<typeof aiMessageSchema>;
+export type AISequenceOutput = z.infer<ReturnType<typeof aiSequenceOutputSchema>>;
+export type AIStepOutput = z.infer<ReturnType<typeof aiStepOutputSchema>>;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export interface AIOutputFieldError {
+  /** Dotted path into the response, e.g. "messages.2.reasoning". Empty for the whole response. */
+  path: string;
+  message: string;
+}
+
+/** The model's response did not match the output schema. */
+export class AIOutputValidationError extends AppError {
+  constructor(readonly fieldErrors: AIOutputFieldError[]) {
+    super(
+      `AI generation failed: ${fieldErrors.map((e) => `${e.path || 'response'}: ${e.message}`).join('; ')}`,
+      500,
+      'AI_GENERATION_FAILED'
+    );
+    this.name = 'AIOutputValidationError';
+    this.details = fieldErrors;
+  }
+}
+
+export function parseAIOutput<T extends z.ZodTypeAny>(schema: T, value: unknown): z.infer<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new AIOutputValidationError(
+      result.error.errors.map((e) => ({ path: e.path.join('.'), message: e.message }))
+    );
+  }
+  return result.data;
+}
+
+// ---------------------------------------------------------------------------
+// JSON schema for structured output
+// ---------------------------------------------------------------------------
+
+// Keywords every structured-output backend accepts. Lengths, counts and the
+// reasoning format are left to parseAIOutput, so a backend that rejects
+// unsupported keywords still gets a schema it can enforce.
+const JSON_SCHEMA_KEYWORDS = new Set(['type', 'properties', 'required', 'items', 'enum', 'description']);
+
+/**
+ * JSON schema for an output schema, in the strict form structured output
+ * expects: every object closed and every property required.
+ */
+export function aiOutputJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const registry = new OpenAPIRegistry();
+  registry.register('AIOutput', schema);
+  const { components } = new OpenApiGeneratorV31(registry.definitions).generateComponents();
+  return toStrictJsonSchema(components?.schemas?.AIOutput) as Record<string, unknown>;
+}
+
+function toStrictJsonSchema(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(toStrictJsonSchema);
+  if (!node || typeof node !== 'object') return node;
+
+  const strict: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (!JSON_SCHEMA_KEYWORDS.has(key)) continue;
+    strict[key] =
+      key === 'properties'
+        ? Object.fromEntries(Object.entries(value as object).map(([name, prop]) => [name, toStrictJsonSchema(prop)]))
+        : toStrictJsonSchema(value);
+  }
+  if (strict.type === 'object') {
+    // Properties that tolerate a missing value (the subject) are still required here.
+    strict.required = Object.keys((strict.properties as object | undefined) ?? {});
+    strict.additionalProperties = false;
+  }
+  return strict;
+}
@@ -0,0 +1,114 @@
+/**
+ * Outreach channels a sequence step can be sent on.
+ *
+ * Each channel's limits are stated in the prompt (channelsToPromptBlock) and
+ * enforced on the model's output (aiOutputSchema) and on human edits, so a
+ * stored step always fits the channel it is meant for.
+ */
+
+export const CHANNELS = ['connection_note', 'linkedin_dm', 'inmail', 'email'] as const;
+
+export type Channel = (typeof CHANNELS)[number];
+
+/** For steps without a declared channel, and for sequences stored before channels existed. */
+export const DEFAULT_CHANNEL: Channel = 'linkedin_dm';
+
+export interface ChannelSpec {
+  label: string;
+  /** Hard limit on the message body, in characters. */
+  maxChars: number;
+  /** Limit on the subject line; null when the channel has no subject. */
+  subjectMaxChars: number | null;
+  /** What the prompt tells the model about writing for the channel. */
+  guidance: string;
+}
+
+export const CHANNEL_SPECS: Record<Channel, ChannelSpec> = {
+  connection_note: {
+    label: 'LinkedIn connection request note',
+    maxChars: 300,
+    subjectMaxChars: null,
+    guidance: 'Read before they accept: one or two sentences, no pitch, no link.',
+  },
+  linkedin_dm: {
+    label: 'LinkedIn DM',
+    maxChars: 8000,
+    subjectMaxChars: null,
+    guidance: 'Conversational, a few short sentences.',
+  },
+  inmail: {
+    label: 'LinkedIn InMail',
+    maxChars: 1900,
+    subjectMaxChars: 200,
+    guidance: 'Reaches someone outside their network; the subject names their situation, not our product.',
+  },
+  email: {
+    label: 'Email',
+    maxChars: 2000,
+    subjectMaxChars: 100,
+    guidance: 'Plain text, short paragraphs, no signature block; subject in sentence case.',
+  },
+};
+
+/** The declared channels, or the default channel for every step. */
+export function resolveChannels(channels: Channel[] | undefined, sequenceLength: number): Channel[] {
+  return channels ?? Array.from({ length: sequenceLength }, () => DEFAULT_CHANNEL);
+}
+
+const GREETING_PATTERN = /^\s*(?:hi|hello|hey|dear|greetings|good (?:morning|afternoon|evening))\b/i;
+
+/** Whether a message opens with a greeting ("Hi Jane,", "Hello", "Dear ..."). */
+export function opensWithGreeting(message: string): boolean {
+  return GREETING_PATTERN.test(message);
+}
+
+export interface ChannelProblem {
+  field: 'subject' | 'message';
+  message: string;
+}
+
+/** What keeps a step from being sent on its channel: length limits and the subject line. */
+export function checkChannelMessage(
+  channel: Channel,
+  { subject, message }: { subject: string | null; message: string }
+): ChannelProblem[] {
+  const spec = CHANNEL_SPECS[channel];
+  const problems: ChannelProblem[] = [];
+
+  if (message.length > spec.maxChars) {
+    problems.push({
+      field: 'message',
+      message: `must be at most ${spec.maxChars} characters for ${channel} (got ${message.length})`,
+    });
+  }
+
+  if (spec.subjectMaxChars === null) {
+    if (subject !== null) {
+      problems.push({ field: 'subject', message: `must be null: ${channel} has no subject line` });
+    }
+  } else if (subject === null) {
+    problems.push({ field: 'subject', message: `is required for ${channel}` });
+  } else if (subject.length > spec.subjectMaxChars) {
+    problems.push({
+      field: 'subject',
+      message: `must be at most ${spec.subjectMaxChars} characters for ${channel} (got ${subject.length})`,
+    });
+  }
+
+  return problems;
+}
+
+/** One line per step: channel, limits and what to write. */
+export function channelsToPromptBlock(channels: readonly Channel[]): string {
+  return channels.map((channel, i) => `Step ${i + 1}: ${channelRule(channel)}`).join('\n');
+}
+
+/** A channel's limits and guidance, as stated in the prompt. */
+export function channelRule(channel: Channel): string {
+  const spec = CHANNEL_SPECS[channel];
+  const subject =
+    spec.subjectMaxChars === null
+      ? '"subject": null'
+      : `"subject" required, max ${spec.subjectMaxChars} characters`;
+  return `${spec.label} (${channel}) — max ${spec.maxChars} characters; ${subject}. ${spec.guidance}`;
+}
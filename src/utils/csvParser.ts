@@ -0,0 +1,85 @@
+import { AppError } from './errorHandler';
+
+/**
+ * Minimal RFC 4180 CSV parser for prospect list uploads.
+ *
+ * Supports quoted fields, escaped quotes (""), commas and newlines inside
+ * quotes, and CRLF line endings. The first row is the header; header names are
+ * trimmed and lowercased. Blank lines are skipped. A quoted field that is
+ * never closed is rejected with a 400 INVALID_CSV.
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  return rows.slice(1).map((row) => {
+    const record: Record<string, string> = {};
+    header.forEach((column, i) => {
+      record[column] = (row[i] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteStart = 0;
+
+  const endRow = () => {
+    row.push(field);
+    // Skip blank lines (a single empty field)
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+      quoteStart = i;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    const line = text.slice(0, quoteStart).split(/\r\n|\r|\n/).length;
+    throw new AppError(`CSV has an unterminated quoted field on line ${line}`, 400, 'INVALID_CSV');
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -4,11 +4,21 @@ import { ZodError } from 'zod';
 export class AppError extends Error {
   statusCode: number;
   code?: string;
+  /** Extra response headers, e.g. Retry-After on 429/402. */
+  headers?: Record<string, string>;
+  /** Field-level problems returned as `details`, e.g. why the model output was rejected. */
+  details?: Array<{ path: string; message: string }>;
 
-  constructor(message: string, statusCode: number = 500, code?: string) {
+  constructor(
+    message: string,
+    statusCode: number = 500,
+    code?: string,
+    headers?: Record<string, string>
+  ) {
     super(message);
     this.statusCode = statusCode;
     this.code = code;
+    this.headers = headers;
     this.name = 'AppError';
     Error.captureStackTrace(this, this.constructor);
   }
@@ -30,6 +40,7 @@ export const errorHandler = (
     return res.status(500).json({
       error: 'AI generation failed',
       message: 'Please retry later',
+      ...(err.details && { details: err.details }),
     });
   }
 
@@ -45,6 +56,10 @@ export const errorHandler = (
   }
 
   // App errors with status codes
+  if (err instanceof AppError && err.headers) {
+    res.set(err.headers);
+  }
+
   const statusCode = err instanceof AppError ? err.statusCode : 500;
   const message = err.message || 'Internal server error';
 
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { normalizeLinkedInSlug } from './linkedinParser';
+
+/** One arm of a prompt experiment, as stored on PromptExperiment.arms. */
+export interface ExperimentArm {
+  name: string;
+  promptVersion: string;
+  temperature: number;
+  weight: number;
+}
+
+/**
+ * Weighted, deterministic arm choice: the prospect slug is hashed with the
+ * experiment id as salt, so a prospect keeps its arm for the whole
+ * experiment, across retries and batches. URLs that don't parse as a
+ * profile hash as-is.
+ *
+ * SHA-256 rather than hashString: that hash's low bits follow the character
+ * sum, so with an even total weight every experiment split prospects the
+ * same way (or exactly flipped).
+ */
+export function assignArm(arms: ExperimentArm[], experimentId: string, prospectUrl: string): ExperimentArm {
+  const slug = normalizeLinkedInSlug(prospectUrl);
+  const key = slug === 'unknown' ? prospectUrl : slug;
+
+  const totalWeight = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let bucket = createHash('sha256').update(`${key}:${experimentId}`).digest().readUInt32BE(0) % totalWeight;
+
+  for (const arm of arms) {
+    if (bucket < arm.weight) return arm;
+    bucket -= arm.weight;
+  }
+  return arms[arms.length - 1];
+}
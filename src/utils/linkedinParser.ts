@@ -123,7 +123,7 @@ export function normalizeLinkedInSlug(url: string): string {
  * Simple deterministic string hash (djb2-style).
  * Returns a positive 32-bit integer. No randomness.
  */
-function hashString(input: string): number {
+export function hashString(input: string): number {
   let hash = 0;
   for (let i = 0; i < input.length; i += 1) {
     hash = (hash * 31 + input.charCodeAt(i)) >>> 0;
@@ -148,7 +148,7 @@ function pickDeterministic<T>(items: T[], slug: string, salt: string): T {
 // Static Mappings (NO randomness — role drives everything)
 // ---------------------------------------------------------------------------
 
-const ROLE_CATEGORIES: RoleCategory[] = ['Engineering', 'DevOps', 'Security', 'Data', 'Product', 'Sales'];
+export const ROLE_CATEGORIES: RoleCategory[] = ['Engineering', 'DevOps', 'Security', 'Data', 'Product', 'Sales'];
 
 const SENIORITY_LEVELS: Seniority[] = ['Senior', 'Manager', 'Lead', 'Founder'];
 
@@ -361,6 +361,36 @@ export function remapProfileToRole(
   };
 }
 
+// ---------------------------------------------------------------------------
+// Rehydration from storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Rebuild a ProspectProfile from a stored Prospect row. profileData is
+ * self-contained (see ProspectProfile.profileData), so follow-up operations on
+ * an existing sequence are grounded in exactly the facts the original
+ * generation saw — without calling the enrichment provider again.
+ */
+export function rehydrateProspectProfile(row: {
+  fullName: string | null;
+  headline: string | null;
+  company: string | null;
+  profileData: unknown;
+}): ProspectProfile {
+  const profileData = row.profileData as ProspectProfile['profileData'];
+
+  return {
+    fullName: row.fullName ?? 'Unknown',
+    headline: row.headline ?? '',
+    company: row.company ?? 'their current company',
+    roleCategory: profileData.roleCategory,
+    seniority: profileData.seniority,
+    skills: profileData.skills ?? [],
+    inferredResponsibilities: profileData.inferredResponsibilities ?? [],
+    profileData,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Mock Provider Implementation
 // ---------------------------------------------------------------------------
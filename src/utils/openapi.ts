@@ -0,0 +1,971 @@
+import type { Express } from 'express';
+import { z } from 'zod';
+import {
+  extendZodWithOpenApi,
+  OpenAPIRegistry,
+  OpenApiGeneratorV31,
+} from '@asteasolutions/zod-to-openapi';
+import type { ResponseConfig } from '@asteasolutions/zod-to-openapi';
+import {
+  analyzeStrategySchema,
+  apiKeyIdParamsSchema,
+  batchIdParamsSchema,
+  createApiKeySchema,
+  createBatchSchema,
+  createExperimentSchema,
+  createTenantSchema,
+  csvBatchQuerySchema,
+  editMessageSchema,
+  experimentIdParamsSchema,
+  exportQuerySchema,
+  exportSequencesSchema,
+  generateSequenceSchema,
+  jobIdParamsSchema,
+  listRevisionsQuerySchema,
+  listSequencesQuerySchema,
+  promptTemplateDiffQuerySchema,
+  promptVersionParamsSchema,
+  recordOutcomeSchema,
+  revertSanitizationSchema,
+  rotateApiKeySchema,
+  sequenceCandidateParamsSchema,
+  sequenceIdParamsSchema,
+  sequenceStepParamsSchema,
+  tenantIdParamsSchema,
+  updateApiKeySchema,
+  updateTenantSchema,
+} from './validation';
+import {
+  apiKeyListSchema,
+  apiKeySummarySchema,
+  batchAcceptedSchema,
+  batchItemsResponseSchema,
+  batchSummarySchema,
+  candidateSelectionResponseSchema,
+  contextAnalysisSchema,
+  engagementImportSchema,
+  errorResponseSchema,
+  experimentListSchema,
+  experimentReportSchema,
+  experimentSchema,
+  issuedApiKeySchema,
+  jobAcceptedSchema,
+  jobStatusResponseSchema,
+  promptTemplateDiffSchema,
+  promptTemplateListSchema,
+  promptTemplateSchema,
+  qualityRuleListSchema,
+  revisionHistoryResponseSchema,
+  sanitizationRevertResponseSchema,
+  sanitizationRuleListSchema,
+  sequenceCandidateListSchema,
+  sequenceCreatedWebhookSchema,
+  sequenceFailedWebhookSchema,
+  sequenceOutcomeResponseSchema,
+  sequencePageSchema,
+  sequencePreviewResponseSchema,
+  sequenceResponseSchema,
+  stepEditResponseSchema,
+  stepRegenerationResponseSchema,
+  storedSequenceResponseSchema,
+  tenantListSchema,
+  tenantSchema,
+  usageResponseSchema,
+  validationErrorResponseSchema,
+} from './responseSchemas';
+
+/**
+ * OpenAPI 3.1 document built from the Zod request schemas (validation.ts) and
+ * response/error schemas (responseSchemas.ts).
+ *
+ * Every route mounted on the app must be registered here;
+ * test/openapi.test.ts enforces it with findUndocumentedRoutes().
+ */
+
+extendZodWithOpenApi(z);
+
+const registry = new OpenAPIRegistry();
+
+// Named components, so generated clients get stable type names.
+const ErrorResponse = registry.register('ErrorResponse', errorResponseSchema);
+const ValidationErrorResponse = registry.register('ValidationErrorResponse', validationErrorResponseSchema);
+const GenerateSequenceRequest = registry.register('GenerateSequenceRequest', generateSequenceSchema);
+const SequenceResponse = registry.register('SequenceResponse', sequenceResponseSchema);
+const SequencePreviewResponse = registry.register('SequencePreviewResponse', sequencePreviewResponseSchema);
+const StoredSequenceResponse = registry.register('StoredSequenceResponse', storedSequenceResponseSchema);
+const SequencePage = registry.register('SequencePage', sequencePageSchema);
+const JobAccepted = registry.register('JobAccepted', jobAcceptedSchema);
+const JobStatusResponse = registry.register('JobStatusResponse', jobStatusResponseSchema);
+const CreateBatchRequest = registry.register('CreateBatchRequest', createBatchSchema);
+const BatchAccepted = registry.register('BatchAccepted', batchAcceptedSchema);
+const BatchSummary = registry.register('BatchSummary', batchSummarySchema);
+const BatchItemsResponse = registry.register('BatchItemsResponse', batchItemsResponseSchema);
+const StepRegenerationResponse = registry.register('StepRegenerationResponse', stepRegenerationResponseSchema);
+const EditMessageRequest = registry.register('EditMessageRequest', editMessageSchema);
+const StepEditResponse = registry.register('StepEditResponse', stepEditResponseSchema);
+const RevisionHistoryResponse = registry.register('RevisionHistoryResponse', revisionHistoryResponseSchema);
+const SequenceCandidateList = registry.register('SequenceCandidateList', sequenceCandidateListSchema);
+const CandidateSelectionResponse = registry.register('CandidateSelectionResponse', candidateSelectionResponseSchema);
+const ExportSequencesRequest = registry.register('ExportSequencesRequest', exportSequencesSchema);
+const EngagementImport = registry.register('EngagementImport', engagementImportSchema);
+const AnalyzeStrategyRequest = registry.register('AnalyzeStrategyRequest', analyzeStrategySchema);
+const ContextAnalysis = registry.register('ContextAnalysis', contextAnalysisSchema);
+const Tenant = registry.register('Tenant', tenantSchema);
+const ApiKeySummary = registry.register('ApiKeySummary', apiKeySummarySchema);
+const IssuedApiKey = registry.register('IssuedApiKey', issuedApiKeySchema);
+const UsageResponse = registry.register('UsageResponse', usageResponseSchema);
+const PromptTemplateList = registry.register('PromptTemplateList', promptTemplateListSchema);
+const PromptTemplate = registry.register('PromptTemplate', promptTemplateSchema);
+const PromptTemplateDiff = registry.register('PromptTemplateDiff', promptTemplateDiffSchema);
+const CreateExperimentRequest = registry.register('CreateExperimentRequest', createExperimentSchema);
+const Experiment = registry.register('Experiment', experimentSchema);
+const ExperimentList = registry.register('ExperimentList', experimentListSchema);
+const ExperimentReport = registry.register('ExperimentReport', experimentReportSchema);
+const SequenceOutcome = registry.register('SequenceOutcome', sequenceOutcomeResponseSchema);
+const QualityRuleList = registry.register('QualityRuleList', qualityRuleListSchema);
+const RevertSanitizationRequest = registry.register('RevertSanitizationRequest', revertSanitizationSchema);
+const SanitizationRevertResponse = registry.register('SanitizationRevertResponse', sanitizationRevertResponseSchema);
+const SanitizationRuleList = registry.register('SanitizationRuleList', sanitizationRuleListSchema);
+
+// Tenant keys for /api; the admin key (ADMIN_API_KEY) for /api/admin.
+// Both are also accepted as an X-API-Key header.
+registry.registerComponent('securitySchemes', 'ApiKey', {
+  type: 'http',
+  scheme: 'bearer',
+  description: 'Tenant API key (`sk_...`), issued through the admin API',
+});
+registry.registerComponent('securitySchemes', 'AdminKey', {
+  type: 'http',
+  scheme: 'bearer',
+  description: 'ADMIN_API_KEY',
+});
+const adminSecurity = [{ AdminKey: [] }];
+
+// ---------------------------------------------------------------------------
+// Shared response helpers
+// ---------------------------------------------------------------------------
+
+function json(description: string, schema: z.ZodTypeAny): ResponseConfig {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+const validationError = json('Request failed validation', ValidationErrorResponse);
+const notFound = json('Resource not found', ErrorResponse);
+const unauthorized = json('Missing, unknown or revoked API key', ErrorResponse);
+
+const rateLimited: ResponseConfig = {
+  ...json('Rate limit exceeded for this API key', ErrorResponse),
+  headers: z.object({
+    'Retry-After': z.string().describe('Seconds until the next request is allowed'),
+    'X-RateLimit-Limit': z.string().describe('Requests per minute for this key'),
+    'X-RateLimit-Remaining': z.string(),
+  }),
+};
+
+const budgetHeaders = z.object({
+  'X-Budget-Daily-Remaining-USD': z.string().optional().describe('Only when a daily budget is set'),
+  'X-Budget-Monthly-Remaining-USD': z.string().optional().describe('Only when a monthly budget is set'),
+});
+
+const budgetExceeded: ResponseConfig = {
+  ...json("The tenant's daily or monthly budget is used up", ErrorResponse),
+  headers: budgetHeaders.extend({
+    'Retry-After': z.string().describe('Seconds until the exhausted period resets (UTC)'),
+  }),
+};
+const serverError = json('Internal error, or AI generation failed', ErrorResponse);
+
+// Routes wrapped in the idempotency middleware.
+const idempotencyHeaders = z.object({
+  'Idempotency-Key': z
+    .string()
+    .max(255)
+    .optional()
+    .describe('Repeats with the same key and body replay the first response'),
+});
+const idempotencyConflict = json('Same Idempotency-Key is still in progress', ErrorResponse);
+const idempotencyMismatch = json('Idempotency-Key reused with a different request', ErrorResponse);
+// Generation routes: same status when no model's output passed the `block` quality rules.
+const idempotencyMismatchOrBlocked = json(
+  'Idempotency-Key reused with a different request, or the output violated a `block` quality rule',
+  ErrorResponse
+);
+
+const exportFile: ResponseConfig = {
+  description: 'Export file, sent as an attachment',
+  content: {
+    'text/csv': { schema: z.string().describe('One row per step') },
+    'text/markdown': { schema: z.string().describe('Analysis plus steps') },
+    'application/json': { schema: EngagementImport },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Paths
+// ---------------------------------------------------------------------------
+
+registry.registerPath({
+  method: 'get',
+  path: '/health',
+  summary: 'Health check',
+  security: [],
+  responses: {
+    200: json('Service is up', z.object({ status: z.literal('ok') })),
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/generate-sequence',
+  summary: 'Generate a message sequence (or return the cached one)',
+  request: {
+    query: z.object({
+      async: z.enum(['true', 'false']).optional().describe('Queue as a job and return 202'),
+    }),
+    headers: idempotencyHeaders,
+    body: { content: { 'application/json': { schema: GenerateSequenceRequest } } },
+  },
+  responses: {
+    200: json('Generated or cached sequence', SequenceResponse),
+    202: json('Job queued (async=true)', JobAccepted),
+    400: validationError,
+    401: unauthorized,
+    402: budgetExceeded,
+    409: idempotencyConflict,
+    422: idempotencyMismatchOrBlocked,
+    429: rateLimited,
+    500: serverError,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/generate-sequence/stream',
+  summary: 'Generate a sequence over Server-Sent Events',
+  description:
+    'Events: `strategy`, `analysis`, one `message` per step, then `done` (SequenceResponse plus `cached`). ' +
+    '`analysis` and `message` carry the model text before sanitization; messages streamed from the model have ' +
+    '`provisional: true`, and `done` carries the final sanitized text. ' +
+    'Failures after the stream opens are sent as an `error` event. `n_candidates` above 1 is rejected with a 400.',
+  request: {
+    body: { content: { 'application/json': { schema: GenerateSequenceRequest } } },
+  },
+  responses: {
+    200: { description: 'Event stream', content: { 'text/event-stream': { schema: z.string() } } },
+    400: validationError,
+    401: unauthorized,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/generate-sequence/preview',
+  summary: 'Dry run: rendered prompts, strategy and projected cost',
+  description: 'Runs enrichment, strategy and prompt rendering only. No model call, no database writes.',
+  request: {
+    body: { content: { 'application/json': { schema: GenerateSequenceRequest } } },
+  },
+  responses: {
+    200: json('Prompts the model would receive', SequencePreviewResponse),
+    400: validationError,
+    401: unauthorized,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/sequences',
+  summary: 'List stored sequences (cursor paginated)',
+  request: { query: listSequencesQuerySchema },
+  responses: {
+    200: json('Page of sequences', SequencePage),
+    400: validationError,
+    401: unauthorized,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/sequences/export',
+  summary: 'Export several sequences in one file',
+  request: {
+    body: { content: { 'application/json': { schema: ExportSequencesRequest } } },
+  },
+  responses: {
+    200: exportFile,
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/sequences/{id}',
+  summary: 'Get a stored sequence',
+  request: { params: sequenceIdParamsSchema },
+  responses: {
+    200: json('Stored sequence', StoredSequenceResponse),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/sequences/{id}/steps/{step}/regenerate',
+  summary: 'Regenerate one step as a new revision',
+  request: { params: sequenceStepParamsSchema, headers: idempotencyHeaders },
+  responses: {
+    200: json('Updated sequence and the new revision', StepRegenerationResponse),
+    400: validationError,
+    401: unauthorized,
+    402: budgetExceeded,
+    404: notFound,
+    409: idempotencyConflict,
+    422: idempotencyMismatchOrBlocked,
+    429: rateLimited,
+    500: serverError,
+  },
+});
+
+registry.registerPath({
+  method: 'patch',
+  path: '/api/sequences/{id}/messages/{step}',
+  summary: 'Record a human edit to one step',
+  description: 'The revision records the id of the API key that made the request as `editedBy`.',
+  request: {
+    params: sequenceStepParamsSchema,
+    body: { content: { 'application/json': { schema: EditMessageRequest } } },
+  },
+  responses: {
+    200: json('Updated sequence and the new revision', StepEditResponse),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/sequences/{id}/revisions',
+  summary: 'Revision history per step',
+  request: { params: sequenceIdParamsSchema, query: listRevisionsQuerySchema },
+  responses: {
+    200: json('Revisions, oldest first, with AI → human diffs', RevisionHistoryResponse),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/sequences/{id}/candidates',
+  summary: 'Candidates generated with n_candidates, best-ranked first',
+  request: { params: sequenceIdParamsSchema },
+  responses: {
+    200: json('Candidates; empty for single-candidate sequences', SequenceCandidateList),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/sequences/{id}/candidates/{candidateId}/select',
+  summary: 'Make the sequence hold another candidate',
+  request: { params: sequenceCandidateParamsSchema },
+  responses: {
+    200: json('Updated sequence and the selected candidate', CandidateSelectionResponse),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/sequences/{id}/sanitization/revert',
+  summary: 'Put back the original text of sanitizer changes',
+  description:
+    'Reverts the listed change ids, or every change when `changes` is omitted. ' +
+    'Reverted step text is recorded as a `human_edit` revision by the API key that made the request.',
+  request: {
+    params: sequenceIdParamsSchema,
+    body: { content: { 'application/json': { schema: RevertSanitizationRequest } } },
+  },
+  responses: {
+    200: json('Updated sequence and the reverted changes', SanitizationRevertResponse),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    409: json('The field was edited after it was sanitized', ErrorResponse),
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/sequences/{id}/export',
+  summary: 'Export one sequence',
+  request: { params: sequenceIdParamsSchema, query: exportQuerySchema },
+  responses: {
+    200: exportFile,
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/jobs/{id}',
+  summary: 'Get the status of a generation job',
+  request: { params: jobIdParamsSchema },
+  responses: {
+    200: json('Job state, with `result` once succeeded', JobStatusResponse),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/batches',
+  summary: 'Create a bulk generation batch',
+  description:
+    'JSON body, or a CSV upload (`Content-Type: text/csv`) with batch defaults in the query string.',
+  request: {
+    query: csvBatchQuerySchema.partial(),
+    headers: idempotencyHeaders,
+    body: {
+      content: {
+        'application/json': { schema: CreateBatchRequest },
+        'text/csv': { schema: z.string().describe('Header row must include prospect_url') },
+      },
+    },
+  },
+  responses: {
+    202: json('Batch accepted', BatchAccepted),
+    400: validationError,
+    401: unauthorized,
+    402: budgetExceeded,
+    409: idempotencyConflict,
+    422: idempotencyMismatch,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/batches/{id}',
+  summary: 'Batch progress and totals',
+  request: { params: batchIdParamsSchema },
+  responses: {
+    200: json('Batch summary', BatchSummary),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/batches/{id}/items',
+  summary: 'Per-row batch status',
+  request: { params: batchIdParamsSchema },
+  responses: {
+    200: json('Batch items in upload order', BatchItemsResponse),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/batches/{id}/export',
+  summary: 'Export every succeeded sequence of a batch',
+  request: { params: batchIdParamsSchema, query: exportQuerySchema },
+  responses: {
+    200: exportFile,
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/strategy/analyze',
+  summary: 'Explain how a company_context is read by the strategy engine',
+  description:
+    'Inferred persona with per-role and per-signal scores, capability tags, workflows, alignment, ' +
+    'and keywords that would raise alignment for `target_persona`. No model call.',
+  request: {
+    body: { content: { 'application/json': { schema: AnalyzeStrategyRequest } } },
+  },
+  responses: {
+    200: json('Context analysis', ContextAnalysis),
+    400: validationError,
+    401: unauthorized,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/usage',
+  summary: "Model spend per period against the tenant's budgets, and this key's rate limit",
+  responses: {
+    200: { ...json('Current consumption', UsageResponse), headers: budgetHeaders },
+    401: unauthorized,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/prompt-templates',
+  summary: 'Registered prompt versions, the server default and the version active for this tenant',
+  responses: {
+    200: json('Prompt versions, oldest first', PromptTemplateList),
+    401: unauthorized,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/prompt-templates/diff',
+  summary: 'Line diff of two prompt versions, part by part',
+  request: { query: promptTemplateDiffQuerySchema },
+  responses: {
+    200: json('Changed and unchanged parts', PromptTemplateDiff),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/prompt-templates/{version}',
+  summary: 'One prompt version with the text of every part',
+  request: { params: promptVersionParamsSchema },
+  responses: {
+    200: json('Prompt template', PromptTemplate),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/quality-rules',
+  summary: "Quality rules with their defaults and this tenant's overrides",
+  description:
+    'Overrides are set per tenant through the admin API and per request through `quality_rules`. ' +
+    'Violations of a rule are reported as `triggeredRules` on generated sequences.',
+  responses: {
+    200: json('Rules in evaluation order', QualityRuleList),
+    401: unauthorized,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/sanitization-rules',
+  summary: "Text sanitization rules with this tenant's changes",
+  description:
+    'Rules are changed or added per tenant through the admin API (`sanitization_rules`). ' +
+    'Every substitution is reported in `sanitization` on generated sequences.',
+  responses: {
+    200: json('Rules in priority order', SanitizationRuleList),
+    401: unauthorized,
+    429: rateLimited,
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Prompt experiments
+// ---------------------------------------------------------------------------
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/experiments',
+  summary: 'Start a prompt experiment splitting generations across prompt versions or temperatures',
+  request: {
+    body: { content: { 'application/json': { schema: CreateExperimentRequest } } },
+  },
+  responses: {
+    201: json('Started experiment, arms resolved', Experiment),
+    400: validationError,
+    401: unauthorized,
+    409: json('Another experiment is still active', ErrorResponse),
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/experiments',
+  summary: "The tenant's experiments, newest first",
+  responses: {
+    200: json('Experiments', ExperimentList),
+    401: unauthorized,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/experiments/{id}',
+  summary: 'One experiment',
+  request: { params: experimentIdParamsSchema },
+  responses: {
+    200: json('Experiment', Experiment),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/experiments/{id}/stop',
+  summary: 'Stop assigning generations to an experiment; its report stays available',
+  request: { params: experimentIdParamsSchema },
+  responses: {
+    200: json('Stopped experiment', Experiment),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/experiments/{id}/report',
+  summary: 'Compare arms on confidence, quality issues, tokens, cost and reply outcomes',
+  request: { params: experimentIdParamsSchema },
+  responses: {
+    200: json('Per-arm metrics', ExperimentReport),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+registry.registerPath({
+  method: 'put',
+  path: '/api/sequences/{id}/outcome',
+  summary: 'Record how the prospect responded to a sequence (null clears it)',
+  request: {
+    params: sequenceIdParamsSchema,
+    body: { content: { 'application/json': { schema: recordOutcomeSchema } } },
+  },
+  responses: {
+    200: json('Recorded outcome', SequenceOutcome),
+    400: validationError,
+    401: unauthorized,
+    404: notFound,
+    429: rateLimited,
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Admin: tenants and API keys
+// ---------------------------------------------------------------------------
+
+const adminUnauthorized = json('Missing or wrong admin key', ErrorResponse);
+const adminDisabled = json('ADMIN_API_KEY is not set', ErrorResponse);
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/admin/tenants',
+  summary: 'Create a tenant',
+  security: adminSecurity,
+  request: {
+    body: { content: { 'application/json': { schema: createTenantSchema } } },
+  },
+  responses: {
+    201: json('Created tenant', Tenant),
+    400: validationError,
+    401: adminUnauthorized,
+    403: adminDisabled,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/admin/tenants',
+  summary: 'List tenants',
+  security: adminSecurity,
+  responses: {
+    200: json('All tenants', tenantListSchema),
+    401: adminUnauthorized,
+    403: adminDisabled,
+  },
+});
+
+registry.registerPath({
+  method: 'patch',
+  path: '/api/admin/tenants/{id}',
+  summary: 'Rename a tenant or change its budgets',
+  description: 'A null budget falls back to DAILY_BUDGET_USD / MONTHLY_BUDGET_USD.',
+  security: adminSecurity,
+  request: {
+    params: tenantIdParamsSchema,
+    body: { content: { 'application/json': { schema: updateTenantSchema } } },
+  },
+  responses: {
+    200: json('Updated tenant', Tenant),
+    400: validationError,
+    401: adminUnauthorized,
+    403: adminDisabled,
+    404: notFound,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/admin/tenants/{id}/api-keys',
+  summary: 'Issue an API key for a tenant',
+  description: 'The response is the only time the key is shown; only its hash is stored.',
+  security: adminSecurity,
+  request: {
+    params: tenantIdParamsSchema,
+    body: { content: { 'application/json': { schema: createApiKeySchema } } },
+  },
+  responses: {
+    201: json('Issued key', IssuedApiKey),
+    400: validationError,
+    401: adminUnauthorized,
+    403: adminDisabled,
+    404: notFound,
+  },
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/admin/tenants/{id}/api-keys',
+  summary: "List a tenant's API keys (prefixes only)",
+  security: adminSecurity,
+  request: { params: tenantIdParamsSchema },
+  responses: {
+    200: json('Keys, including revoked ones', apiKeyListSchema),
+    400: validationError,
+    401: adminUnauthorized,
+    403: adminDisabled,
+    404: notFound,
+  },
+});
+
+registry.registerPath({
+  method: 'patch',
+  path: '/api/admin/api-keys/{id}',
+  summary: 'Rename an API key or change its rate limit',
+  description: 'A null limit falls back to RATE_LIMIT_PER_MINUTE / RATE_LIMIT_BURST.',
+  security: adminSecurity,
+  request: {
+    params: apiKeyIdParamsSchema,
+    body: { content: { 'application/json': { schema: updateApiKeySchema } } },
+  },
+  responses: {
+    200: json('Updated key', ApiKeySummary),
+    400: validationError,
+    401: adminUnauthorized,
+    403: adminDisabled,
+    404: notFound,
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/admin/api-keys/{id}/rotate',
+  summary: 'Replace an API key with a new one',
+  description: 'The old key stops working now, or after `grace_period_seconds`.',
+  security: adminSecurity,
+  request: {
+    params: apiKeyIdParamsSchema,
+    body: { content: { 'application/json': { schema: rotateApiKeySchema } } },
+  },
+  responses: {
+    201: json(
+      'Issued replacement key',
+      IssuedApiKey.extend({ previousKeyRevokedAt: z.string().datetime() })
+    ),
+    400: validationError,
+    401: adminUnauthorized,
+    403: adminDisabled,
+    404: notFound,
+    409: json('Key was already rotated and is in its grace period', ErrorResponse),
+  },
+});
+
+registry.registerPath({
+  method: 'delete',
+  path: '/api/admin/api-keys/{id}',
+  summary: 'Revoke an API key',
+  security: adminSecurity,
+  request: { params: apiKeyIdParamsSchema },
+  responses: {
+    200: json('Revoked key', ApiKeySummary),
+    400: validationError,
+    401: adminUnauthorized,
+    403: adminDisabled,
+    404: notFound,
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Outgoing webhooks
+// ---------------------------------------------------------------------------
+
+const webhookHeaders = z.object({
+  'X-Webhook-Id': z.string().uuid().describe('Delivery id, stable across retries'),
+  'X-Webhook-Event': z.enum(['sequence.created', 'sequence.failed']),
+  'X-Webhook-Timestamp': z.string().describe('Unix seconds at send time'),
+  'X-Webhook-Signature': z
+    .string()
+    .describe('sha256=<hex HMAC-SHA256 of "{timestamp}.{body}" with WEBHOOK_SIGNING_SECRET>'),
+});
+
+const webhookAck = { 200: { description: 'Any 2xx acknowledges; anything else is retried' } };
+
+registry.registerWebhook({
+  method: 'post',
+  path: 'sequence.created',
+  summary: 'A sequence was generated or served from cache',
+  request: {
+    headers: webhookHeaders,
+    body: {
+      content: {
+        'application/json': {
+          schema: registry.register('SequenceCreatedWebhook', sequenceCreatedWebhookSchema),
+        },
+      },
+    },
+  },
+  responses: webhookAck,
+});
+
+registry.registerWebhook({
+  method: 'post',
+  path: 'sequence.failed',
+  summary: 'A generation failed for good (after job retries)',
+  request: {
+    headers: webhookHeaders,
+    body: {
+      content: {
+        'application/json': {
+          schema: registry.register('SequenceFailedWebhook', sequenceFailedWebhookSchema),
+        },
+      },
+    },
+  },
+  responses: webhookAck,
+});
+
+// ---------------------------------------------------------------------------
+// Document + route coverage
+// ---------------------------------------------------------------------------
+
+let cachedDocument: ReturnType<OpenApiGeneratorV31['generateDocument']> | null = null;
+
+export function getOpenApiDocument() {
+  cachedDocument ??= new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: '3.1.0',
+    info: {
+      title: 'AI Sequence Generation API',
+      version: process.env.npm_package_version ?? '1.0.0',
+      description: 'Generates personalized LinkedIn outreach sequences from a prospect profile.',
+    },
+    security: [{ ApiKey: [] }],
+  });
+  return cachedDocument;
+}
+
+// Routes that serve the docs themselves or a plain-text landing page.
+const UNDOCUMENTED_ROUTES = new Set(['GET /', 'GET /openapi.json', 'GET /docs']);
+
+/**
+ * Routes registered on the app (including mounted routers) that have no
+ * OpenAPI path, as "METHOD /path" strings with `{param}` placeholders.
+ */
+export function findUndocumentedRoutes(app: Express): string[] {
+  const documented = new Set<string>();
+  for (const [path, item] of Object.entries(getOpenApiDocument().paths ?? {})) {
+    for (const method of Object.keys(item)) {
+      documented.add(`${method.toUpperCase()} ${path}`);
+    }
+  }
+
+  return listAppRoutes(app).filter(
+    (route) => !documented.has(route) && !UNDOCUMENTED_ROUTES.has(route)
+  );
+}
+
+/**
+ * The parts of Express 4's internal router stack the route listing reads.
+ * Not in @types/express, so declared here.
+ */
+interface RouterLayer {
+  name: string;
+  regexp: RegExp;
+  route?: { path: string; methods: Record<string, boolean> };
+  handle: { stack?: RouterLayer[] };
+}
+
+// Express 4 keeps no mount path on router layers, only the compiled regexp
+// (e.g. /^\/api\/?(?=\/|$)/i), so the prefix is recovered from its source.
+function listAppRoutes(app: Express): string[] {
+  const routes: string[] = [];
+
+  const walk = (stack: RouterLayer[], prefix: string) => {
+    for (const layer of stack) {
+      if (layer.route) {
+        const path = `${prefix}${layer.route.path}`.replace(/:(\w+)/g, '{$1}') || '/';
+        for (const method of Object.keys(layer.route.methods)) {
+          routes.push(`${method.toUpperCase()} ${path}`);
+        }
+      } else if (layer.name === 'router' && layer.handle.stack) {
+        const mount = layer.regexp.source
+          .replace(/^\^/, '')
+          .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+          .replace(/\\\//g, '/');
+        walk(layer.handle.stack, prefix + mount);
+      }
+    }
+  };
+
+  const { _router: router } = app as Express & { _router?: { stack: RouterLayer[] } };
+  walk(router?.stack ?? [], '');
+  return routes;
+}
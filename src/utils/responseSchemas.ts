@@ -0,0 +1,719 @@
+import { z } from 'zod';
+import { PROMPT_PARTS } from '../prompts';
+import { QUALITY_SCOPES, QUALITY_SEVERITIES } from '../quality';
+import { CHANNELS } from './channels';
+import { ENGAGEMENT_STEP_TYPES } from './sequenceExporter';
+
+/**
+ * Zod schemas for response and error bodies.
+ *
+ * These are documentation contracts: they feed the OpenAPI document and are
+ * kept in step with the service response interfaces. Request validation stays
+ * in validation.ts.
+ */
+
+// ---------------------------------------------------------------------------
+// Errors (shapes produced by utils/errorHandler)
+// ---------------------------------------------------------------------------
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  message: z.string().optional().describe('Present on AI generation failures'),
+  details: z
+    .array(z.object({ path: z.string(), message: z.string() }))
+    .optional()
+    .describe('AI generation failures: the field errors of the last rejected model output'),
+  stack: z.string().optional().describe('Only when NODE_ENV=development'),
+});
+
+export const validationErrorResponseSchema = z.object({
+  error: z.literal('Validation error'),
+  details: z.array(z.object({ path: z.string(), message: z.string() })),
+});
+
+// ---------------------------------------------------------------------------
+// Sequences
+// ---------------------------------------------------------------------------
+
+export const sequenceAnalysisSchema = z
+  .object({
+    prospect_insights: z.string(),
+    personalization_hooks: z.array(z.string()),
+    value_proposition: z.string(),
+  })
+  .passthrough();
+
+export const sequenceMessageSchema = z.object({
+  step: z.number().int(),
+  channel: z.enum(CHANNELS),
+  subject: z.string().nullable().describe('Set for inmail and email steps; null otherwise'),
+  message: z.string(),
+  reasoning: z.string(),
+});
+
+export const qualityViolationSchema = z.object({
+  ruleId: z.string(),
+  scope: z.enum(QUALITY_SCOPES),
+  severity: z.enum(QUALITY_SEVERITIES),
+  message: z.string(),
+  steps: z.array(z.number().int()).describe('Steps the violation is about; empty for the analysis or the whole sequence'),
+});
+
+export const generationDiagnosticsSchema = z.object({
+  qualityIssues: z.array(z.string()),
+  confidence: z.object({
+    final: z.number().describe('The confidence returned with the sequence'),
+    aiReported: z.number().describe("The model's self-rating"),
+    calculated: z.number().describe('base plus the factor contributions, clamped to bounds'),
+    base: z.number(),
+    factors: z.array(
+      z.object({
+        factor: z.enum(['skills', 'headline_keywords', 'named_workflow', 'generic_penalty']),
+        matched: z.boolean().describe('Whether the signal was found; for generic_penalty, whether generic phrasing was'),
+        contribution: z.number(),
+      })
+    ),
+    bounds: z.object({ min: z.number(), max: z.number() }),
+    blend: z
+      .object({
+        rule: z.enum(['average', 'calculated']),
+        divergence: z.number().describe('|aiReported - calculated|'),
+        maxDivergence: z.number(),
+      })
+      .describe('average of aiReported and calculated, or calculated alone when divergence exceeds maxDivergence'),
+  }),
+  alignmentScore: z.number().describe('Role–context alignment of company_context with the prospect'),
+});
+
+const wordDiffSchema = z.object({
+  segments: z.array(
+    z.object({ type: z.enum(['equal', 'added', 'removed']), text: z.string() })
+  ),
+  stats: z.object({
+    added: z.number().int(),
+    removed: z.number().int(),
+    unchanged: z.number().int(),
+  }),
+});
+
+const sanitizationChangeSchema = z.object({
+  id: z.string().describe('`<field>:<start>`; pass it to the revert endpoint'),
+  ruleId: z.string(),
+  start: z.number().int().describe("Span of original in the field's text before sanitization"),
+  end: z.number().int(),
+  original: z.string(),
+  replacement: z.string(),
+  revertedAt: z.string().datetime().nullable(),
+});
+
+export const sanitizedFieldSchema = z.object({
+  field: z
+    .string()
+    .describe('analysis.value_proposition, analysis.prospect_insights, messages.<step>.subject or messages.<step>.message'),
+  before: z.string(),
+  after: z.string().describe('before with the changes that are not reverted'),
+  changes: z.array(sanitizationChangeSchema),
+  diff: wordDiffSchema.describe('Word-level diff from before to after'),
+});
+
+export const sequenceResponseSchema = z.object({
+  id: z.string().uuid(),
+  analysis: sequenceAnalysisSchema,
+  messages: z.array(sequenceMessageSchema),
+  confidence: z.number().min(0).max(1),
+  triggeredRules: z
+    .array(qualityViolationSchema)
+    .describe('Quality rule violations the output was accepted with: warn, and repair left after the repair pass'),
+  diagnostics: generationDiagnosticsSchema
+    .nullable()
+    .describe('Stored with the generation the sequence holds; null for sequences generated before diagnostics were recorded'),
+  sanitization: z
+    .array(sanitizedFieldSchema)
+    .describe('Sanitizer edits per field; a human edit or regeneration of a step replaces its entry'),
+});
+
+export const sequencePreviewResponseSchema = z.object({
+  model: z.string().describe('Model picked by routing; projectedCost is priced for it'),
+  routeReason: z.enum(['default', 'short_sequence', 'long_sequence', 'low_alignment']),
+  fallbackModels: z.array(z.string()).describe('Tried in order if the routed model fails'),
+  promptVersion: z.string(),
+  promptHash: z.string().describe('Content hash of the prompt template'),
+  temperature: z.number(),
+  systemPrompt: z.string(),
+  userPrompt: z.string(),
+  contextKeywords: z.array(z.string()),
+  tokenEstimate: z
+    .object({
+      promptTokens: z.number().int(),
+      completionTokens: z.number().int(),
+      totalTokens: z.number().int(),
+    })
+    .describe('Summed over all candidates'),
+  projectedCost: z.number().describe('USD, from the estimated token counts'),
+  prospect: z.object({
+    fullName: z.string(),
+    headline: z.string(),
+    company: z.string(),
+    roleCategory: z.string(),
+    seniority: z.string(),
+    skills: z.array(z.string()),
+  }),
+  strategy: z.object({
+    prospectRole: z.string(),
+    targetPersona: z.string(),
+    capabilityTags: z.array(z.string()),
+    allowedWorkflows: z.array(z.string()),
+    activeWorkflows: z.array(z.string()),
+    alignmentScore: z.number(),
+  }),
+  tovDescription: z.string(),
+  experiment: z
+    .object({ id: z.string().uuid(), arm: z.string() })
+    .nullable()
+    .describe('Experiment arm this prospect is assigned to, if the tenant runs one'),
+  candidateCount: z.number().int().describe('n_candidates, default 1'),
+});
+
+export const sequenceOutcomeSchema = z.enum(['no_reply', 'replied', 'positive_reply', 'meeting_booked']);
+
+export const storedSequenceResponseSchema = sequenceResponseSchema.extend({
+  companyContext: z.string(),
+  sequenceLength: z.number().int(),
+  createdAt: z.string().datetime(),
+  outcome: sequenceOutcomeSchema.nullable(),
+  outcomeRecordedAt: z.string().datetime().nullable(),
+  prospect: z.object({
+    id: z.string().uuid(),
+    linkedinUrl: z.string(),
+    fullName: z.string().nullable(),
+    headline: z.string().nullable(),
+    company: z.string().nullable(),
+  }),
+  tovConfig: z.object({
+    id: z.string().uuid(),
+    formality: z.number(),
+    warmth: z.number(),
+    directness: z.number(),
+    description: z.string(),
+  }),
+  generation: z
+    .object({
+      id: z.string().uuid(),
+      model: z.string(),
+      promptVersion: z.string(),
+      promptHash: z.string().nullable().describe('Content hash of the prompt template'),
+      temperature: z.number().nullable(),
+      qualityRulesHash: z.string().nullable().describe('Hash of the quality rule set the output was checked against'),
+      experimentId: z.string().uuid().nullable(),
+      experimentArm: z.string().nullable(),
+      promptTokens: z.number().int(),
+      completionTokens: z.number().int(),
+      totalTokens: z.number().int(),
+      estimatedCost: z.number(),
+      createdAt: z.string().datetime(),
+    })
+    .nullable(),
+});
+
+export const sequencePageSchema = z.object({
+  data: z.array(storedSequenceResponseSchema),
+  nextCursor: z.string().uuid().nullable(),
+});
+
+// ---------------------------------------------------------------------------
+// Jobs and batches
+// ---------------------------------------------------------------------------
+
+export const jobStatusSchema = z.enum(['queued', 'running', 'succeeded', 'failed']);
+
+export const jobAcceptedSchema = z.object({
+  jobId: z.string().uuid(),
+  status: jobStatusSchema,
+  statusUrl: z.string(),
+});
+
+export const jobStatusResponseSchema = z.object({
+  id: z.string().uuid(),
+  status: jobStatusSchema,
+  attempts: z.number().int(),
+  maxAttempts: z.number().int(),
+  error: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  startedAt: z.string().datetime().nullable(),
+  completedAt: z.string().datetime().nullable(),
+  result: sequenceResponseSchema.nullable(),
+});
+
+export const batchStatusSchema = z.enum(['processing', 'completed']);
+export const batchItemStatusSchema = z.enum(['pending', 'running', 'succeeded', 'failed']);
+
+export const batchAcceptedSchema = z.object({
+  batchId: z.string().uuid(),
+  status: batchStatusSchema,
+  totalItems: z.number().int(),
+  statusUrl: z.string(),
+});
+
+export const batchSummarySchema = z.object({
+  id: z.string().uuid(),
+  status: batchStatusSchema,
+  companyContext: z.string(),
+  sequenceLength: z.number().int(),
+  createdAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+  progress: z.object({
+    total: z.number().int(),
+    pending: z.number().int(),
+    running: z.number().int(),
+    succeeded: z.number().int(),
+    failed: z.number().int(),
+    cached: z.number().int(),
+    percentComplete: z.number().int(),
+  }),
+  totalTokens: z.number().int(),
+  totalEstimatedCost: z.number(),
+});
+
+export const batchItemsResponseSchema = z.object({
+  batchId: z.string().uuid(),
+  items: z.array(
+    z.object({
+      rowIndex: z.number().int(),
+      prospectUrl: z.string(),
+      overrides: z.record(z.unknown()).nullable(),
+      status: batchItemStatusSchema,
+      sequenceId: z.string().uuid().nullable(),
+      cached: z.boolean(),
+      totalTokens: z.number().int(),
+      estimatedCost: z.number(),
+      error: z.string().nullable(),
+      completedAt: z.string().datetime().nullable(),
+    })
+  ),
+});
+
+// ---------------------------------------------------------------------------
+// Revisions
+// ---------------------------------------------------------------------------
+
+export const revisionSourceSchema = z.enum(['ai_original', 'ai_regeneration', 'ai_candidate', 'human_edit']);
+
+export const stepRegenerationResponseSchema = z.object({
+  sequence: sequenceResponseSchema,
+  revision: z.object({
+    id: z.string().uuid(),
+    step: z.number().int(),
+    revision: z.number().int(),
+    source: revisionSourceSchema,
+    aiGenerationId: z.string().uuid().nullable(),
+    createdAt: z.string().datetime(),
+  }),
+  qualityIssues: z.array(z.string()),
+  triggeredRules: z.array(qualityViolationSchema).describe('Violations about the regenerated step'),
+});
+
+export const stepEditResponseSchema = z.object({
+  sequence: sequenceResponseSchema,
+  revision: z.object({
+    id: z.string().uuid(),
+    step: z.number().int(),
+    revision: z.number().int(),
+    source: revisionSourceSchema,
+    editedBy: z.string().nullable().describe('Id of the API key that made the edit'),
+    createdAt: z.string().datetime(),
+  }),
+});
+
+export const revisionHistoryResponseSchema = z.object({
+  sequenceId: z.string().uuid(),
+  steps: z.array(
+    z.object({
+      step: z.number().int(),
+      revisions: z.array(
+        z.object({
+          id: z.string().uuid(),
+          revision: z.number().int(),
+          source: revisionSourceSchema,
+          message: z.string(),
+          subject: z.string().nullable(),
+          reasoning: z.string(),
+          aiGenerationId: z.string().uuid().nullable(),
+          editedBy: z.string().nullable().describe('Id of the API key that made a human edit'),
+          createdAt: z.string().datetime(),
+        })
+      ),
+      humanEditDiff: wordDiffSchema
+        .extend({ fromRevision: z.number().int(), toRevision: z.number().int() })
+        .nullable(),
+    })
+  ),
+});
+
+// ---------------------------------------------------------------------------
+// Candidates
+// ---------------------------------------------------------------------------
+
+export const sequenceCandidateSchema = z.object({
+  id: z.string().uuid(),
+  rank: z.number().int().describe('1 = best-ranked at generation time'),
+  score: z.number().describe('Grounding score minus a penalty per quality issue'),
+  confidence: z.number().min(0).max(1),
+  qualityIssues: z.array(z.string()),
+  triggeredRules: z.array(qualityViolationSchema),
+  selected: z.boolean().describe('Whether the sequence currently holds this candidate'),
+  selectedAt: z.string().datetime().nullable(),
+  aiGenerationId: z.string().uuid(),
+  analysis: sequenceAnalysisSchema,
+  messages: z.array(sequenceMessageSchema),
+  createdAt: z.string().datetime(),
+});
+
+export const sequenceCandidateListSchema = z.object({
+  sequenceId: z.string().uuid(),
+  data: z.array(sequenceCandidateSchema),
+});
+
+export const candidateSelectionResponseSchema = z.object({
+  sequence: sequenceResponseSchema,
+  candidate: sequenceCandidateSchema,
+  changedSteps: z.array(z.number().int()).describe('Steps recorded as ai_candidate revisions'),
+});
+
+// ---------------------------------------------------------------------------
+// Exports
+// ---------------------------------------------------------------------------
+
+export const engagementImportSchema = z.object({
+  sequences: z.array(
+    z.object({
+      external_id: z.string().uuid(),
+      name: z.string(),
+      prospect: z.object({ linkedin_url: z.string(), name: z.string().nullable() }),
+      steps: z.array(
+        z.object({
+          step: z.number().int(),
+          day_offset: z.number().int(),
+          type: z.nativeEnum(ENGAGEMENT_STEP_TYPES),
+          subject: z.string().nullable(),
+          body: z.string(),
+        })
+      ),
+    })
+  ),
+});
+
+// ---------------------------------------------------------------------------
+// Webhooks (outgoing payloads)
+// ---------------------------------------------------------------------------
+
+const webhookSourceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('request') }),
+  z.object({ type: z.literal('stream') }),
+  z.object({ type: z.literal('job'), jobId: z.string().uuid() }),
+  z.object({ type: z.literal('batch'), batchId: z.string().uuid(), rowIndex: z.number().int() }),
+]);
+
+export const sequenceCreatedWebhookSchema = z.object({
+  id: z.string().uuid().describe('Delivery id, same as X-Webhook-Id'),
+  event: z.literal('sequence.created'),
+  createdAt: z.string().datetime(),
+  data: z.object({
+    sequence: sequenceResponseSchema,
+    cached: z.boolean(),
+    source: webhookSourceSchema,
+  }),
+});
+
+export const sequenceFailedWebhookSchema = z.object({
+  id: z.string().uuid().describe('Delivery id, same as X-Webhook-Id'),
+  event: z.literal('sequence.failed'),
+  createdAt: z.string().datetime(),
+  data: z.object({
+    request: z.object({
+      prospect_url: z.string(),
+      company_context: z.string(),
+      sequence_length: z.number().int(),
+    }),
+    error: z.object({ code: z.string(), message: z.string() }),
+    source: webhookSourceSchema,
+  }),
+});
+
+// ---------------------------------------------------------------------------
+// Strategy analysis
+// ---------------------------------------------------------------------------
+
+export const contextAnalysisSchema = z.object({
+  strategy: z.object({
+    targetPersona: z.string(),
+    capabilityTags: z.array(z.string()),
+    allowedWorkflows: z.array(z.string()),
+    activeWorkflows: z.array(z.string()),
+    alignmentScore: z.number(),
+    alignmentNote: z.string(),
+  }),
+  roleScores: z.record(z.number()),
+  usedFallbackInference: z.boolean(),
+  signalMatches: z.array(
+    z.object({
+      role: z.string(),
+      weight: z.number(),
+      keywords: z.array(z.string()),
+      matchedKeywords: z.array(z.string()),
+      score: z.number(),
+    })
+  ),
+  suggestions: z.object({
+    persona: z.string(),
+    currentAlignmentScore: z.number(),
+    missingWorkflows: z.array(z.string()),
+    capabilityKeywords: z.array(
+      z.object({
+        keyword: z.string(),
+        capabilityTag: z.string(),
+        unlocksWorkflows: z.array(z.string()),
+        projectedAlignmentScore: z.number(),
+      })
+    ),
+    personaSignalKeywords: z.array(z.string()),
+    signalScoreGap: z.number().int(),
+  }),
+});
+
+// ---------------------------------------------------------------------------
+// Admin: tenants and API keys
+// ---------------------------------------------------------------------------
+
+const sanitizationRuleOverridesResponseSchema = z.array(
+  z.object({
+    id: z.string(),
+    phrase: z.string().optional(),
+    replacement: z.string().optional(),
+    enabled: z.boolean().optional(),
+    whole_word: z.boolean().optional(),
+    preserve_case: z.boolean().optional(),
+  })
+);
+
+const qualityRuleOverridesResponseSchema = z.record(
+  z.object({
+    severity: z.enum(QUALITY_SEVERITIES).optional(),
+    enabled: z.boolean().optional(),
+    params: z.record(z.unknown()).optional(),
+  })
+);
+
+export const tenantSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  dailyBudgetUsd: z.number().nullable().describe('Null uses DAILY_BUDGET_USD'),
+  monthlyBudgetUsd: z.number().nullable().describe('Null uses MONTHLY_BUDGET_USD'),
+  promptVersion: z.string().nullable().describe('Null uses PROMPT_VERSION'),
+  qualityRules: qualityRuleOverridesResponseSchema.nullable().describe('Null uses the built-in rule settings'),
+  sanitizationRules: sanitizationRuleOverridesResponseSchema
+    .nullable()
+    .describe('Null uses the built-in sanitization rules'),
+  createdAt: z.string().datetime(),
+});
+
+export const tenantListSchema = z.object({ data: z.array(tenantSchema) });
+
+export const apiKeySummarySchema = z.object({
+  id: z.string().uuid(),
+  tenantId: z.string().uuid(),
+  name: z.string(),
+  prefix: z.string().describe('First characters of the key, for recognizing it'),
+  rateLimitPerMinute: z.number().int().nullable().describe('Null uses RATE_LIMIT_PER_MINUTE'),
+  rateLimitBurst: z.number().int().nullable().describe('Null uses RATE_LIMIT_BURST'),
+  webhookUrl: z.string().nullable().describe('Completion webhook for requests without webhook_url'),
+  lastUsedAt: z.string().datetime().nullable(),
+  revokedAt: z
+    .string()
+    .datetime()
+    .nullable()
+    .describe('When the key stops (or stopped) working; in the future during a rotation grace period'),
+  createdAt: z.string().datetime(),
+});
+
+export const apiKeyListSchema = z.object({ data: z.array(apiKeySummarySchema) });
+
+export const issuedApiKeySchema = z.object({
+  apiKey: apiKeySummarySchema,
+  key: z.string().describe('The API key itself. Shown only once.'),
+});
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+const periodUsageSchema = z.object({
+  start: z.string().datetime().describe('UTC start of the period'),
+  resetsAt: z.string().datetime(),
+  generations: z.number().int(),
+  totalTokens: z.number().int(),
+  spentUsd: z.number(),
+  budgetUsd: z.number().nullable().describe('Null when the period has no budget'),
+  remainingUsd: z.number().nullable(),
+});
+
+export const usageResponseSchema = z.object({
+  tenantId: z.string().uuid(),
+  periods: z.object({ day: periodUsageSchema, month: periodUsageSchema }),
+  rateLimit: z.object({
+    apiKeyId: z.string().uuid(),
+    perMinute: z.number().int(),
+    burst: z.number().int(),
+    remaining: z.number().int(),
+  }),
+});
+
+// ---------------------------------------------------------------------------
+// Prompt templates
+// ---------------------------------------------------------------------------
+
+const promptPartSchema = z.enum(PROMPT_PARTS);
+
+const promptVariablesSchema = z
+  .record(promptPartSchema, z.array(z.string()))
+  .describe('Variables each part uses');
+
+export const promptTemplateListSchema = z.object({
+  defaultVersion: z.string().describe('PROMPT_VERSION, else the built-in default'),
+  activeVersion: z.string().describe("Used for this tenant's requests that name no prompt_version"),
+  data: z.array(
+    z.object({
+      version: z.string(),
+      description: z.string(),
+      contentHash: z.string(),
+      variables: promptVariablesSchema,
+      isDefault: z.boolean(),
+      isActive: z.boolean(),
+    })
+  ),
+});
+
+export const promptTemplateSchema = z.object({
+  version: z.string(),
+  description: z.string(),
+  contentHash: z.string(),
+  variables: promptVariablesSchema,
+  parts: z.record(promptPartSchema, z.string()).describe('Template text with {{variable}} placeholders'),
+});
+
+const promptTemplateRefSchema = z.object({ version: z.string(), contentHash: z.string() });
+
+export const promptTemplateDiffSchema = z.object({
+  from: promptTemplateRefSchema,
+  to: promptTemplateRefSchema,
+  identical: z.boolean(),
+  changedParts: z.array(
+    z.object({
+      part: promptPartSchema,
+      variables: z.object({ added: z.array(z.string()), removed: z.array(z.string()) }),
+      diff: wordDiffSchema.describe('Line-level diff; stats count lines'),
+    })
+  ),
+  unchangedParts: z.array(promptPartSchema),
+});
+
+// ---------------------------------------------------------------------------
+// Prompt experiments
+// ---------------------------------------------------------------------------
+
+const experimentArmSchema = z.object({
+  name: z.string(),
+  promptVersion: z.string(),
+  temperature: z.number(),
+  weight: z.number().int(),
+});
+
+export const experimentSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  status: z.enum(['active', 'stopped']),
+  arms: z.array(experimentArmSchema),
+  createdAt: z.string().datetime(),
+  stoppedAt: z.string().datetime().nullable(),
+});
+
+export const experimentListSchema = z.object({ data: z.array(experimentSchema) });
+
+export const experimentReportSchema = z.object({
+  experiment: experimentSchema,
+  arms: z.array(
+    experimentArmSchema.extend({
+      trafficShare: z.number(),
+      sequences: z.number().int().describe('Sequences generated by this arm; cache hits are not counted'),
+      calls: z.number().int().describe('Model calls, retries and repairs included'),
+      failedCalls: z.number().int(),
+      avgConfidence: z.number().nullable(),
+      avgQualityIssues: z.number().nullable(),
+      qualityIssueRate: z.number().nullable().describe('Share of sequences with at least one quality issue'),
+      totalTokens: z.number().int(),
+      avgTokensPerSequence: z.number().nullable(),
+      totalCost: z.number().describe('USD, failed calls included'),
+      avgCostPerSequence: z.number().nullable(),
+      outcomes: z.object({
+        no_reply: z.number().int(),
+        replied: z.number().int(),
+        positive_reply: z.number().int(),
+        meeting_booked: z.number().int(),
+        recorded: z.number().int(),
+        replyRate: z.number().nullable().describe('replied, positive_reply or meeting_booked, over recorded'),
+        positiveRate: z.number().nullable().describe('positive_reply or meeting_booked, over recorded'),
+      }),
+    })
+  ),
+});
+
+export const sequenceOutcomeResponseSchema = z.object({
+  id: z.string().uuid(),
+  outcome: sequenceOutcomeSchema.nullable(),
+  outcomeRecordedAt: z.string().datetime().nullable(),
+});
+
+// ---------------------------------------------------------------------------
+// Quality rules
+// ---------------------------------------------------------------------------
+
+export const qualityRuleListSchema = z.object({
+  hash: z.string().describe("Hash of the tenant's rule set; requests with quality_rules get their own"),
+  overrides: qualityRuleOverridesResponseSchema.nullable().describe("The tenant's stored overrides"),
+  data: z.array(
+    z.object({
+      id: z.string(),
+      scope: z.enum(QUALITY_SCOPES),
+      description: z.string(),
+      defaultSeverity: z.enum(QUALITY_SEVERITIES),
+      defaultParams: z.record(z.unknown()),
+      severity: z.enum(QUALITY_SEVERITIES).describe("With the tenant's overrides applied"),
+      enabled: z.boolean(),
+      params: z.record(z.unknown()),
+    })
+  ),
+});
+
+// ---------------------------------------------------------------------------
+// Text sanitization
+// ---------------------------------------------------------------------------
+
+export const sanitizationRuleListSchema = z.object({
+  hash: z.string().describe("Hash of the tenant's sanitization rule set"),
+  overrides: sanitizationRuleOverridesResponseSchema.nullable().describe("The tenant's stored rules"),
+  data: z.array(
+    z.object({
+      id: z.string(),
+      pattern: z.string().describe('Regular expression source, matched case-insensitively'),
+      replacement: z.string(),
+      wholeWord: z.boolean(),
+      preserveCase: z.boolean(),
+      builtIn: z.boolean(),
+      enabled: z.boolean(),
+    })
+  ),
+});
+
+export const sanitizationRevertResponseSchema = z.object({
+  sequence: sequenceResponseSchema,
+  revertedChanges: z.array(sanitizationChangeSchema).describe('Already reverted changes are left out'),
+});
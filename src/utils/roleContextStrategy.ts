@@ -65,7 +65,7 @@ export interface MessageStrategy {
   activeWorkflows: WorkflowTag[];
   /** 0–1 score: how well the context aligns with the target persona. */
   alignmentScore: number;
-  /** Internal diagnostic note (logged, not exposed to API consumers). */
+  /** Diagnostic note — logged, and returned only by the strategy analysis endpoint. */
   alignmentNote: string;
 }
 
@@ -107,6 +107,31 @@ const CONTEXT_ROLE_SIGNALS: Array<{
   { keywords: ['backend', 'frontend', 'sprint planning', 'engineering bandwidth'], role: 'Engineering', weight: 2 },
 ];
 
+export interface RoleSignalMatch {
+  role: RoleCategory;
+  weight: number;
+  keywords: string[];
+  matchedKeywords: string[];
+  /** weight × matched keywords — this entry's contribution to the role score. */
+  score: number;
+}
+
+/** Keyword matches for every CONTEXT_ROLE_SIGNALS entry, in table order. */
+export function matchContextRoleSignals(companyContext: string): RoleSignalMatch[] {
+  const ctx = companyContext.toLowerCase();
+
+  return CONTEXT_ROLE_SIGNALS.map((signal) => {
+    const matchedKeywords = signal.keywords.filter((kw) => ctx.includes(kw));
+    return {
+      role: signal.role,
+      weight: signal.weight,
+      keywords: signal.keywords,
+      matchedKeywords,
+      score: matchedKeywords.length * signal.weight,
+    };
+  });
+}
+
 /**
  * Infer the target prospect role from the company_context.
  * Deterministic: same context always produces the same role.
@@ -116,11 +141,9 @@ export function inferTargetRoleFromContext(companyContext: string): RoleCategory
   const ctx = companyContext.toLowerCase();
   const scores: Record<string, number> = {};
 
-  for (const signal of CONTEXT_ROLE_SIGNALS) {
-    for (const kw of signal.keywords) {
-      if (ctx.includes(kw)) {
-        scores[signal.role] = (scores[signal.role] || 0) + signal.weight;
-      }
+  for (const match of matchContextRoleSignals(companyContext)) {
+    if (match.matchedKeywords.length > 0) {
+      scores[match.role] = (scores[match.role] || 0) + match.score;
     }
   }
 
@@ -408,6 +431,136 @@ export function computeMessageStrategy(
   };
 }
 
+// ---------------------------------------------------------------------------
+// Context analysis — authoring feedback for company_context
+// ---------------------------------------------------------------------------
+
+export interface KeywordSuggestion {
+  /** Phrase to work into company_context. */
+  keyword: string;
+  /** Capability tag the phrase would add. */
+  capabilityTag: CapabilityTag;
+  /** Persona frictions that tag would newly activate. */
+  unlocksWorkflows: WorkflowTag[];
+  /** Alignment for the chosen persona once the tag is present. */
+  projectedAlignmentScore: number;
+}
+
+export interface PersonaSuggestions {
+  persona: RoleCategory;
+  currentAlignmentScore: number;
+  /** Persona frictions the current capability tags don't reach. */
+  missingWorkflows: WorkflowTag[];
+  /** Best first: each adds one capability tag, ranked by the alignment it unlocks. */
+  capabilityKeywords: KeywordSuggestion[];
+  /**
+   * Only when the context currently infers a different persona: unmatched
+   * signal keywords for the chosen persona, strongest first, and how many
+   * signal points it needs to overtake the current winner.
+   */
+  personaSignalKeywords: string[];
+  signalScoreGap: number;
+}
+
+export interface ContextAnalysis {
+  strategy: MessageStrategy;
+  /** Total signal score per role (0 for roles with no matches). */
+  roleScores: Record<RoleCategory, number>;
+  /** True when no signal keyword matched and the broad heuristic picked the persona. */
+  usedFallbackInference: boolean;
+  signalMatches: RoleSignalMatch[];
+  suggestions: PersonaSuggestions;
+}
+
+/**
+ * Explain how computeMessageStrategy reads a company_context, and what to add
+ * to it to raise alignment for `persona` (defaults to the inferred persona).
+ */
+export function analyzeCompanyContext(
+  companyContext: string,
+  prospectRole?: RoleCategory,
+  persona?: RoleCategory
+): ContextAnalysis {
+  const signalMatches = matchContextRoleSignals(companyContext);
+  const inferredPersona = inferTargetRoleFromContext(companyContext);
+  const strategy = computeMessageStrategy(companyContext, prospectRole ?? inferredPersona);
+
+  const roleScores = Object.fromEntries(
+    Object.keys(ROLE_ALLOWED_WORKFLOWS).map((role) => [role, 0])
+  ) as Record<RoleCategory, number>;
+  for (const match of signalMatches) {
+    roleScores[match.role] += match.score;
+  }
+
+  return {
+    strategy,
+    roleScores,
+    usedFallbackInference: signalMatches.every((m) => m.matchedKeywords.length === 0),
+    signalMatches,
+    suggestions: suggestForPersona(
+      companyContext,
+      persona ?? inferredPersona,
+      inferredPersona,
+      strategy.capabilityTags,
+      signalMatches,
+      roleScores
+    ),
+  };
+}
+
+function suggestForPersona(
+  companyContext: string,
+  persona: RoleCategory,
+  inferredPersona: RoleCategory,
+  capabilityTags: CapabilityTag[],
+  signalMatches: RoleSignalMatch[],
+  roleScores: Record<RoleCategory, number>
+): PersonaSuggestions {
+  const ctx = companyContext.toLowerCase();
+  const allowed = ROLE_ALLOWED_WORKFLOWS[persona];
+  const active = intersectWorkflows(capabilityTags, allowed);
+  const missingWorkflows = allowed.filter((wf) => !active.includes(wf));
+
+  const capabilityKeywords: KeywordSuggestion[] = [];
+  for (const mapping of CONTEXT_CAPABILITY_MAP) {
+    if (capabilityTags.includes(mapping.tag)) continue;
+
+    const unlocksWorkflows = CAPABILITY_WORKFLOW_BRIDGE[mapping.tag].filter((wf) =>
+      missingWorkflows.includes(wf)
+    );
+    if (unlocksWorkflows.length === 0) continue;
+
+    const projected = intersectWorkflows([...capabilityTags, mapping.tag], allowed);
+    capabilityKeywords.push({
+      keyword: mapping.keywords.find((kw) => !ctx.includes(kw)) ?? mapping.keywords[0],
+      capabilityTag: mapping.tag,
+      unlocksWorkflows,
+      projectedAlignmentScore: computeAlignmentScore(projected, allowed).score,
+    });
+  }
+  capabilityKeywords.sort((a, b) => b.projectedAlignmentScore - a.projectedAlignmentScore);
+
+  let personaSignalKeywords: string[] = [];
+  let signalScoreGap = 0;
+  if (persona !== inferredPersona) {
+    // Strict '>' wins in inferTargetRoleFromContext, so one point past the leader.
+    signalScoreGap = Math.max(0, roleScores[inferredPersona] - roleScores[persona] + 1);
+    personaSignalKeywords = signalMatches
+      .filter((m) => m.role === persona)
+      .sort((a, b) => b.weight - a.weight)
+      .flatMap((m) => m.keywords.filter((kw) => !m.matchedKeywords.includes(kw)));
+  }
+
+  return {
+    persona,
+    currentAlignmentScore: computeAlignmentScore(active, allowed).score,
+    missingWorkflows,
+    capabilityKeywords,
+    personaSignalKeywords,
+    signalScoreGap,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Prompt serialization — converts strategy to prompt-injectable text
 // ---------------------------------------------------------------------------
@@ -0,0 +1,191 @@
+/**
+ * Sequence export formatters.
+ *
+ * Pure functions over the stored sequence shape (`analysis` + `messages`).
+ * Every formatter accepts a list so single-sequence and batch exports share
+ * one code path.
+ */
+
+import type { Channel } from './channels';
+
+export type ExportFormat = 'csv' | 'markdown' | 'json';
+
+export interface ExportableSequence {
+  id: string;
+  prospectUrl: string;
+  prospectName: string | null;
+  companyContext: string;
+  confidence: number;
+  createdAt: Date;
+  analysis: Record<string, any>;
+  messages: Array<{ step: number; channel: Channel; subject: string | null; message: string; reasoning: string }>;
+}
+
+export interface ExportOptions {
+  /** Days between consecutive steps. Step 1 is always day 0. */
+  dayInterval: number;
+}
+
+export interface ExportedFile {
+  contentType: string;
+  extension: string;
+  body: string;
+}
+
+export function exportSequences(
+  sequences: ExportableSequence[],
+  format: ExportFormat,
+  options: ExportOptions
+): ExportedFile {
+  switch (format) {
+    case 'csv':
+      return { contentType: 'text/csv; charset=utf-8', extension: 'csv', body: toCsv(sequences, options) };
+    case 'markdown':
+      return { contentType: 'text/markdown; charset=utf-8', extension: 'md', body: toMarkdown(sequences, options) };
+    case 'json':
+      return {
+        contentType: 'application/json; charset=utf-8',
+        extension: 'json',
+        body: JSON.stringify(toEngagementImport(sequences, options), null, 2),
+      };
+  }
+}
+
+function dayOffset(step: number, options: ExportOptions): number {
+  return (step - 1) * options.dayInterval;
+}
+
+// ---------------------------------------------------------------------------
+// CSV — one row per step
+// ---------------------------------------------------------------------------
+
+const CSV_COLUMNS = [
+  'sequence_id',
+  'prospect_url',
+  'prospect_name',
+  'step',
+  'day_offset',
+  'channel',
+  'subject',
+  'message',
+  'reasoning',
+] as const;
+
+function toCsv(sequences: ExportableSequence[], options: ExportOptions): string {
+  const lines = [CSV_COLUMNS.join(',')];
+
+  for (const sequence of sequences) {
+    for (const msg of sequence.messages) {
+      lines.push(
+        [
+          sequence.id,
+          sequence.prospectUrl,
+          sequence.prospectName ?? '',
+          String(msg.step),
+          String(dayOffset(msg.step, options)),
+          msg.channel,
+          msg.subject ?? '',
+          msg.message,
+          msg.reasoning,
+        ]
+          .map(csvField)
+          .join(',')
+      );
+    }
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function csvField(value: string): string {
+  // Neutralize spreadsheet formula injection from model-written text.
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown — analysis plus steps, for review docs
+// ---------------------------------------------------------------------------
+
+function toMarkdown(sequences: ExportableSequence[], options: ExportOptions): string {
+  return sequences.map((sequence) => sequenceToMarkdown(sequence, options)).join('\n---\n\n');
+}
+
+function sequenceToMarkdown(sequence: ExportableSequence, options: ExportOptions): string {
+  const { analysis } = sequence;
+  const hooks: string[] = Array.isArray(analysis.personalization_hooks)
+    ? analysis.personalization_hooks
+    : [];
+
+  const lines = [
+    `# Sequence for ${sequence.prospectName ?? sequence.prospectUrl}`,
+    '',
+    `- Prospect: ${sequence.prospectUrl}`,
+    `- Company context: ${sequence.companyContext}`,
+    `- Confidence: ${sequence.confidence.toFixed(2)}`,
+    `- Sequence ID: \`${sequence.id}\``,
+    '',
+    '## Analysis',
+    '',
+    `**Prospect insights:** ${analysis.prospect_insights ?? 'n/a'}`,
+    '',
+    '**Personalization hooks:**',
+    ...(hooks.length > 0 ? hooks.map((h) => `- ${h}`) : ['- n/a']),
+    '',
+    `**Value proposition:** ${analysis.value_proposition ?? 'n/a'}`,
+    '',
+    '## Steps',
+    '',
+  ];
+
+  for (const msg of sequence.messages) {
+    lines.push(
+      `### Step ${msg.step} — Day ${dayOffset(msg.step, options)} — ${msg.channel}`,
+      '',
+      ...(msg.subject !== null ? [`**Subject:** ${msg.subject}`, ''] : []),
+      msg.message,
+      '',
+      `_Reasoning: ${msg.reasoning}_`,
+      ''
+    );
+  }
+
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// JSON — import shape for sales-engagement tools
+// ---------------------------------------------------------------------------
+
+/** Step types sequencing tools use for each channel. */
+export const ENGAGEMENT_STEP_TYPES = {
+  connection_note: 'linkedin_connect',
+  linkedin_dm: 'linkedin_message',
+  inmail: 'linkedin_inmail',
+  email: 'email',
+} as const satisfies Record<Channel, string>;
+
+/**
+ * Flat step list with day offsets — the shape sequencing tools expect when
+ * importing a cadence: one entry per touch, ordered, with the send day
+ * relative to enrollment and the message body.
+ */
+function toEngagementImport(sequences: ExportableSequence[], options: ExportOptions) {
+  return {
+    sequences: sequences.map((sequence) => ({
+      external_id: sequence.id,
+      name: `${sequence.prospectName ?? sequence.prospectUrl} — outbound`,
+      prospect: {
+        linkedin_url: sequence.prospectUrl,
+        name: sequence.prospectName,
+      },
+      steps: sequence.messages.map((msg) => ({
+        step: msg.step,
+        day_offset: dayOffset(msg.step, options),
+        type: ENGAGEMENT_STEP_TYPES[msg.channel],
+        subject: msg.subject,
+        body: msg.message,
+      })),
+    })),
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Incremental JSON scanner for streamed model output.
+ *
+ * The model streams one JSON document in arbitrary chunks. This scanner tracks
+ * nesting, strings and object keys as characters arrive, and reports every
+ * object or array the moment its closing bracket is seen — together with its
+ * path from the root (e.g. ["analysis"] or ["messages", 2]).
+ *
+ * Only completed values are parsed (with JSON.parse on the exact source span),
+ * so partial tokens never leak to callers.
+ */
+
+export type JsonPath = Array<string | number>;
+
+interface Frame {
+  type: 'object' | 'array';
+  path: JsonPath;
+  start: number;
+  /** Objects: key of the value currently being read. */
+  key: string | null;
+  /** Objects: true between '{' / ',' and ':' — the next string is a key. */
+  expectingKey: boolean;
+  /** Arrays: index of the element currently being read. */
+  index: number;
+}
+
+export class StreamingJsonParser {
+  private buffer = '';
+  private pos = 0;
+  private stack: Frame[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+
+  constructor(private readonly onValue: (path: JsonPath, value: unknown) => void) {}
+
+  /** Feed the next chunk of model output. */
+  push(chunk: string): void {
+    this.buffer += chunk;
+
+    for (; this.pos < this.buffer.length; this.pos++) {
+      const ch = this.buffer[this.pos];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === '\\') {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          this.onStringEnd();
+        }
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.pos;
+          break;
+        case '{':
+        case '[':
+          this.stack.push({
+            type: ch === '{' ? 'object' : 'array',
+            path: this.childPath(),
+            start: this.pos,
+            key: null,
+            expectingKey: ch === '{',
+            index: 0,
+          });
+          break;
+        case '}':
+        case ']':
+          this.onContainerEnd();
+          break;
+        case ':': {
+          const top = this.top();
+          if (top?.type === 'object') top.expectingKey = false;
+          break;
+        }
+        case ',': {
+          const top = this.top();
+          if (top?.type === 'object') {
+            top.expectingKey = true;
+            top.key = null;
+          } else if (top?.type === 'array') {
+            top.index++;
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    }
+  }
+
+  /** Full text received so far. */
+  get text(): string {
+    return this.buffer;
+  }
+
+  private top(): Frame | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private childPath(): JsonPath {
+    const parent = this.top();
+    if (!parent) return [];
+    if (parent.type === 'array') return [...parent.path, parent.index];
+    return [...parent.path, parent.key ?? ''];
+  }
+
+  private onStringEnd(): void {
+    const top = this.top();
+    if (top?.type === 'object' && top.expectingKey) {
+      top.key = JSON.parse(this.buffer.slice(this.stringStart, this.pos + 1));
+    }
+  }
+
+  private onContainerEnd(): void {
+    const frame = this.stack.pop();
+    if (!frame) return;
+
+    try {
+      const value = JSON.parse(this.buffer.slice(frame.start, this.pos + 1));
+      this.onValue(frame.path, value);
+    } catch {
+      // Malformed span — final parsing at the end of the stream reports it.
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Text helpers shared by prompt building, confidence scoring and the quality
+ * rules (src/quality). Matching is on lowercased text throughout.
+ */
+
+const STOPWORDS = new Set([
+  'and', 'the', 'for', 'with', 'that', 'this', 'from', 'into', 'your',
+  'their', 'about', 'over', 'under', 'build', 'building', 'senior',
+  'lead', 'manager', 'engineer', 'team', 'role',
+]);
+
+/** Lowercase string helper */
+export function str(val: unknown, lower = true): string {
+  const s = String(val || '');
+  return lower ? s.toLowerCase() : s;
+}
+
+/** Check if text contains any of the given tokens (case-insensitive) */
+export function hits(text: string, tokens: string[]): boolean {
+  return tokens.some((t) => t && text.includes(t.toLowerCase()));
+}
+
+/** Extract a label value from reasoning (e.g. "Angle: ..." ) */
+export function extractLabel(reasoning: string, label: string): string {
+  const match = reasoning.match(new RegExp(`${label}\\s*:\\s*([^|.;\\n]+)`, 'i'));
+  return match ? match[1].trim().toLowerCase() : '';
+}
+
+/** Check if role is sales/revenue/BD — outbound automation IS their core workflow */
+export function isSales(roleCategory: string): boolean {
+  const r = roleCategory.toLowerCase();
+  return r.includes('sales') || r.includes('revenue') || r.includes('business development');
+}
+
+/**
+ * Extract distinctive keywords from company_context for prompt injection.
+ * These are the terms the model MUST reference — they differentiate one context from another.
+ * Strips common filler words and returns only signal-bearing terms.
+ */
+export function extractContextKeywords(companyContext: string): string[] {
+  const CONTEXT_STOPWORDS = new Set([
+    'we', 'our', 'help', 'helps', 'that', 'the', 'and', 'for', 'with',
+    'this', 'from', 'their', 'more', 'also', 'can', 'are', 'have',
+    'teams', 'team', 'companies', 'company', 'build', 'builds',
+    'so', 'to', 'by', 'of', 'in', 'an', 'a', 'is', 'it',
+  ]);
+
+  // Extract multi-word phrases first (2-3 word combinations that carry meaning)
+  const phrases: string[] = [];
+  const contextLower = companyContext.toLowerCase();
+  const SIGNAL_PHRASES = [
+    'manual enrichment', 'enrichment workflows', 'qualify prospects',
+    'sales teams', 'outbound automation', 'prospect data',
+    'security reviews', 'security questionnaires',
+    'qualification process', 'lead qualification', 'ICP matching',
+    'pipeline velocity', 'targeting precision', 'demo qualification',
+    'escalation volume', 'inbound triage', 'handoff quality',
+    'reduce manual', 'automate sales', 'personalization at scale',
+  ];
+  for (const phrase of SIGNAL_PHRASES) {
+    if (contextLower.includes(phrase.toLowerCase())) {
+      phrases.push(phrase);
+    }
+  }
+
+  // Extract single distinctive words
+  const words = companyContext
+    .toLowerCase()
+    .split(/[^a-z0-9-]+/)
+    .filter((w) => w.length >= 4 && !CONTEXT_STOPWORDS.has(w));
+
+  // Combine: phrases first (higher signal), then unique single words
+  const seen = new Set(phrases.map((p) => p.toLowerCase()));
+  const singles = words.filter((w) => {
+    if (seen.has(w)) return false;
+    // Skip words already covered by a phrase
+    for (const p of phrases) {
+      if (p.toLowerCase().includes(w)) return false;
+    }
+    seen.add(w);
+    return true;
+  });
+
+  return [...phrases, ...singles].slice(0, 8);
+}
+
+export function extractSignalKeywords(text: string): string[] {
+  const tokens = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length >= 4 && !STOPWORDS.has(t));
+  return Array.from(new Set(tokens)).slice(0, 12);
+}
+
+/** Extract meaningful content words from text (for restatement detection) */
+export function extractContentWords(text: string): Set<string> {
+  const filler = new Set([
+    ...STOPWORDS, 'your', 'team', 'often', 'these', 'that', 'they', 'them',
+    'which', 'when', 'what', 'where', 'many', 'most', 'some', 'more',
+    'also', 'just', 'like', 'have', 'been', 'will', 'would', 'could',
+    'should', 'does', 'didn', 'aren', 'isn', 'wasn', 'hasn', 'don',
+    'can', 'not', 'very', 'much', 'well', 'even', 'still', 'come',
+    'before', 'after', 'without', 'leading',
+  ]);
+  return new Set(
+    text.toLowerCase()
+      .split(/[^a-z]+/)
+      .filter((w) => w.length >= 4 && !filler.has(w))
+  );
+}
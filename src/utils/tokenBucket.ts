@@ -0,0 +1,70 @@
+/**
+ * Token bucket arithmetic for request rate limiting.
+ *
+ * Pure: the caller loads the stored state, calls takeToken and saves the
+ * returned state (under a row lock, so concurrent requests don't both spend
+ * the same token).
+ */
+
+export interface TokenBucketConfig {
+  /** Refill rate. */
+  ratePerMinute: number;
+  /** Maximum tokens, i.e. the burst a client can send after being idle. */
+  capacity: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: Date;
+}
+
+export interface TokenBucketDecision {
+  allowed: boolean;
+  /** State to persist. */
+  state: TokenBucketState;
+  /** Whole tokens left after this request. */
+  remaining: number;
+  /** Seconds until the next token, when not allowed. */
+  retryAfterSeconds: number;
+}
+
+/** Refill for the time since the last update. A missing state is a full bucket. */
+export function refillTokenBucket(
+  state: TokenBucketState | null,
+  config: TokenBucketConfig,
+  now: Date
+): TokenBucketState {
+  if (!state) {
+    return { tokens: config.capacity, updatedAt: now };
+  }
+
+  const elapsedMinutes = Math.max(0, now.getTime() - state.updatedAt.getTime()) / 60_000;
+  const tokens = Math.min(config.capacity, state.tokens + elapsedMinutes * config.ratePerMinute);
+  return { tokens, updatedAt: now };
+}
+
+/** Spend one token if there is one. */
+export function takeToken(
+  state: TokenBucketState | null,
+  config: TokenBucketConfig,
+  now: Date
+): TokenBucketDecision {
+  const refilled = refillTokenBucket(state, config, now);
+
+  if (refilled.tokens >= 1) {
+    const tokens = refilled.tokens - 1;
+    return {
+      allowed: true,
+      state: { tokens, updatedAt: now },
+      remaining: Math.floor(tokens),
+      retryAfterSeconds: 0,
+    };
+  }
+
+  return {
+    allowed: false,
+    state: refilled,
+    remaining: 0,
+    retryAfterSeconds: Math.max(1, Math.ceil(((1 - refilled.tokens) / config.ratePerMinute) * 60)),
+  };
+}
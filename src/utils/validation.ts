@@ -1,14 +1,308 @@
 import { z } from 'zod';
+import { isPromptVersion } from '../prompts';
+import { QUALITY_SEVERITIES, checkQualityRuleOverrides } from '../quality';
+import { checkSanitizationRuleOverrides } from '../sanitizer';
+import { CHANNELS } from './channels';
+import { ROLE_CATEGORIES } from './linkedinParser';
+import type { RoleCategory } from './linkedinParser';
+import { webhookUrlProblem } from './webhookUrl';
 
-export const generateSequenceSchema = z.object({
+export const tovConfigSchema = z.object({
+  formality: z.number().min(0).max(1),
+  warmth: z.number().min(0).max(1),
+  directness: z.number().min(0).max(1),
+});
+
+/** A version registered in src/prompts. */
+const promptVersionSchema = z
+  .string()
+  .refine(isPromptVersion, (version) => ({ message: `Unknown prompt version "${version}"` }));
+
+/** https, public host; see utils/webhookUrl.ts. Resolved addresses are checked again at delivery. */
+const webhookUrlSchema = z
+  .string()
+  .url('Invalid webhook URL')
+  .superRefine((url, ctx) => {
+    const problem = webhookUrlProblem(url);
+    if (problem) ctx.addIssue({ code: 'custom', message: `webhook_url ${problem}` });
+  });
+
+/**
+ * Quality rule overrides by rule id (src/quality). Each can change the
+ * severity, turn the rule off, or change some of its params.
+ */
+export const qualityRuleOverridesSchema = z
+  .record(
+    z
+      .object({
+        severity: z.enum(QUALITY_SEVERITIES).optional(),
+        enabled: z.boolean().optional(),
+        params: z.record(z.unknown()).optional(),
+      })
+      .strict()
+  )
+  .superRefine(checkQualityRuleOverrides);
+
+/**
+ * Sanitizer rules for a tenant (src/sanitizer). An entry with a built-in id
+ * changes that rule; any other id adds a rule replacing a literal phrase.
+ */
+export const sanitizationRuleOverridesSchema = z
+  .array(
+    z
+      .object({
+        id: z
+          .string()
+          .trim()
+          .regex(/^[a-z0-9_.-]+$/i, 'id may only use letters, digits, ".", "_" and "-"')
+          .max(100),
+        phrase: z.string().trim().min(1).max(200).optional(),
+        replacement: z.string().max(300).optional(),
+        enabled: z.boolean().optional(),
+        whole_word: z.boolean().optional(),
+        preserve_case: z.boolean().optional(),
+      })
+      .strict()
+  )
+  .max(200)
+  .superRefine(checkSanitizationRuleOverrides);
+
+export const MAX_CANDIDATES = 5;
+
+export const generateSequenceSchema = z
+  .object({
+    prospect_url: z.string().url('Invalid prospect URL'),
+    tov_config: tovConfigSchema,
+    company_context: z.string().min(1, 'Company context is required'),
+    sequence_length: z.number().int().min(1).max(10),
+    /** Channel of each step, in order; one per step. Defaults to linkedin_dm for every step. */
+    channels: z.array(z.enum(CHANNELS)).min(1).max(10).optional(),
+    webhook_url: webhookUrlSchema.optional(),
+    /** Skip the cache lookup and always call the model. */
+    force_regenerate: z.boolean().optional(),
+    /** Only reuse a cached sequence created within this many seconds. */
+    max_cache_age: z.number().int().min(0).optional(),
+    /** Prompt template version; defaults to the tenant's, then the server's. */
+    prompt_version: promptVersionSchema.optional(),
+    /**
+     * Generate this many candidates and return the best-ranked one. Not
+     * supported when streaming; a cache hit is returned as-is whatever the count.
+     */
+    n_candidates: z.number().int().min(1).max(MAX_CANDIDATES).optional(),
+    /** Applied over the tenant's quality rule overrides. */
+    quality_rules: qualityRuleOverridesSchema.optional(),
+  })
+  .refine((input) => !input.channels || input.channels.length === input.sequence_length, {
+    message: 'channels must have one entry per step (sequence_length)',
+    path: ['channels'],
+  });
+
+export type GenerateSequenceInput = z.infer<typeof generateSequenceSchema>;
+
+export const sequenceIdParamsSchema = z.object({
+  id: z.string().uuid('Invalid sequence id'),
+});
+
+export const listSequencesQuerySchema = z
+  .object({
+    prospect_url: z.string().url('Invalid prospect URL').optional(),
+    company_context: z.string().min(1).optional(),
+    formality: z.coerce.number().min(0).max(1).optional(),
+    warmth: z.coerce.number().min(0).max(1).optional(),
+    directness: z.coerce.number().min(0).max(1).optional(),
+    prompt_version: z.string().min(1).optional(),
+    min_confidence: z.coerce.number().min(0).max(1).optional(),
+    max_confidence: z.coerce.number().min(0).max(1).optional(),
+    created_after: z.coerce.date().optional(),
+    created_before: z.coerce.date().optional(),
+    cursor: z.string().uuid('Invalid cursor').optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  })
+  .refine(
+    (q) => q.min_confidence === undefined || q.max_confidence === undefined || q.min_confidence <= q.max_confidence,
+    { message: 'min_confidence must be <= max_confidence', path: ['min_confidence'] }
+  )
+  .refine(
+    (q) => !q.created_after || !q.created_before || q.created_after <= q.created_before,
+    { message: 'created_after must be <= created_before', path: ['created_after'] }
+  );
+
+export type ListSequencesQuery = z.infer<typeof listSequencesQuerySchema>;
+
+export const jobIdParamsSchema = z.object({
+  id: z.string().uuid('Invalid job id'),
+});
+
+export const MAX_BATCH_ROWS = 1000;
+
+/** One prospect row in a batch. Anything set here overrides the batch default. */
+export const batchRowSchema = z.object({
   prospect_url: z.string().url('Invalid prospect URL'),
-  tov_config: z.object({
-    formality: z.number().min(0).max(1),
-    warmth: z.number().min(0).max(1),
-    directness: z.number().min(0).max(1),
-  }),
+  company_context: z.string().min(1).optional(),
+  tov_config: tovConfigSchema.partial().optional(),
+  sequence_length: z.number().int().min(1).max(10).optional(),
+});
+
+export const createBatchSchema = z.object({
   company_context: z.string().min(1, 'Company context is required'),
+  tov_config: tovConfigSchema,
   sequence_length: z.number().int().min(1).max(10),
+  prospects: z
+    .array(z.union([z.string().url('Invalid prospect URL'), batchRowSchema]))
+    .min(1, 'At least one prospect is required')
+    .max(MAX_BATCH_ROWS, `At most ${MAX_BATCH_ROWS} prospects per batch`),
+  webhook_url: webhookUrlSchema.optional(),
 });
 
-export type GenerateSequenceInput = z.infer<typeof generateSequenceSchema>;
+/** Batch defaults passed as query params when the body is a CSV upload. */
+export const csvBatchQuerySchema = z.object({
+  company_context: z.string().min(1, 'Company context is required'),
+  formality: z.coerce.number().min(0).max(1),
+  warmth: z.coerce.number().min(0).max(1),
+  directness: z.coerce.number().min(0).max(1),
+  sequence_length: z.coerce.number().int().min(1).max(10),
+  webhook_url: webhookUrlSchema.optional(),
+});
+
+export const batchIdParamsSchema = z.object({
+  id: z.string().uuid('Invalid batch id'),
+});
+
+export type BatchRow = z.infer<typeof batchRowSchema>;
+export type CreateBatchInput = z.infer<typeof createBatchSchema>;
+
+export const sequenceStepParamsSchema = z.object({
+  id: z.string().uuid('Invalid sequence id'),
+  step: z.coerce.number().int().min(1, 'Step must be >= 1'),
+});
+
+export const editMessageSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required'),
+  /** Only for inmail and email steps; omitted keeps the current subject. */
+  subject: z.string().trim().min(1).optional(),
+  reasoning: z.string().trim().min(1).optional(),
+});
+
+export const listRevisionsQuerySchema = z.object({
+  step: z.coerce.number().int().min(1).optional(),
+});
+
+export type EditMessageInput = z.infer<typeof editMessageSchema>;
+
+export const revertSanitizationSchema = z.object({
+  /** Change ids from the sequence's `sanitization`; omitted reverts every change. */
+  changes: z.array(z.string().min(1)).min(1).optional(),
+});
+
+export const exportFormatSchema = z.enum(['csv', 'markdown', 'json']);
+
+export const exportQuerySchema = z.object({
+  format: exportFormatSchema.default('json'),
+  day_interval: z.coerce.number().int().min(0).max(30).default(3),
+});
+
+export const exportSequencesSchema = z.object({
+  sequence_ids: z.array(z.string().uuid('Invalid sequence id')).min(1).max(MAX_BATCH_ROWS),
+  format: exportFormatSchema.default('json'),
+  day_interval: z.number().int().min(0).max(30).default(3),
+});
+
+export const roleCategorySchema = z.enum(ROLE_CATEGORIES as [RoleCategory, ...RoleCategory[]]);
+
+export const analyzeStrategySchema = z.object({
+  company_context: z.string().min(1, 'Company context is required'),
+  /** Enriched role of a specific prospect, if any — only affects the alignment note. */
+  prospect_role: roleCategorySchema.optional(),
+  /** Persona to get keyword suggestions for. Defaults to the inferred persona. */
+  target_persona: roleCategorySchema.optional(),
+});
+
+// Null clears the override, falling back to the server default.
+const budgetUsdSchema = z.number().min(0).max(1_000_000).nullable();
+const rateLimitSchema = z.number().int().min(1).max(100_000).nullable();
+
+export const createTenantSchema = z.object({
+  name: z.string().trim().min(1, 'Tenant name is required').max(200),
+  daily_budget_usd: budgetUsdSchema.optional(),
+  monthly_budget_usd: budgetUsdSchema.optional(),
+  /** Null falls back to the server default. */
+  prompt_version: promptVersionSchema.nullable().optional(),
+  /** Null goes back to the built-in rules. */
+  quality_rules: qualityRuleOverridesSchema.nullable().optional(),
+  /** Null goes back to the built-in rules. */
+  sanitization_rules: sanitizationRuleOverridesSchema.nullable().optional(),
+});
+
+export const updateTenantSchema = createTenantSchema
+  .partial()
+  .refine((input) => Object.keys(input).length > 0, 'Nothing to update');
+
+export const tenantIdParamsSchema = z.object({
+  id: z.string().uuid('Invalid tenant id'),
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Key name is required').max(200),
+  rate_limit_per_minute: rateLimitSchema.optional(),
+  rate_limit_burst: rateLimitSchema.optional(),
+  /** Default completion webhook for requests made with this key; null clears it. */
+  webhook_url: webhookUrlSchema.nullable().optional(),
+});
+
+export const updateApiKeySchema = createApiKeySchema
+  .partial()
+  .refine((input) => Object.keys(input).length > 0, 'Nothing to update');
+
+export const apiKeyIdParamsSchema = z.object({
+  id: z.string().uuid('Invalid API key id'),
+});
+
+export const rotateApiKeySchema = z.object({
+  /** Seconds the old key keeps working, so clients can switch over. 0 revokes it now. */
+  grace_period_seconds: z.number().int().min(0).max(7 * 24 * 60 * 60).default(0),
+});
+
+export const promptVersionParamsSchema = z.object({
+  version: z.string().min(1),
+});
+
+export const promptTemplateDiffQuerySchema = z.object({
+  from: z.string().min(1, 'from is required'),
+  to: z.string().min(1, 'to is required'),
+});
+
+export const sequenceOutcomeSchema = z.enum(['no_reply', 'replied', 'positive_reply', 'meeting_booked']);
+
+export const recordOutcomeSchema = z.object({
+  /** Null clears a previously recorded outcome. */
+  outcome: sequenceOutcomeSchema.nullable(),
+});
+
+export const MAX_EXPERIMENT_ARMS = 10;
+
+export const experimentArmSchema = z.object({
+  name: z.string().trim().min(1, 'Arm name is required').max(100),
+  /** Defaults to the tenant's active prompt version when the experiment is created. */
+  prompt_version: promptVersionSchema.optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  /** Relative share of traffic. */
+  weight: z.number().int().min(1).max(1000).default(1),
+});
+
+export const createExperimentSchema = z.object({
+  name: z.string().trim().min(1, 'Experiment name is required').max(200),
+  arms: z
+    .array(experimentArmSchema)
+    .min(2, 'At least two arms are required')
+    .max(MAX_EXPERIMENT_ARMS, `At most ${MAX_EXPERIMENT_ARMS} arms per experiment`)
+    .refine((arms) => new Set(arms.map((arm) => arm.name)).size === arms.length, 'Arm names must be unique'),
+});
+
+export const experimentIdParamsSchema = z.object({
+  id: z.string().uuid('Invalid experiment id'),
+});
+
+export const sequenceCandidateParamsSchema = z.object({
+  id: z.string().uuid('Invalid sequence id'),
+  candidateId: z.string().uuid('Invalid candidate id'),
+});
@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Webhook signing.
+ *
+ * The signature is HMAC-SHA256 over `${timestamp}.${body}` with the shared
+ * secret, sent as `X-Webhook-Signature: sha256=<hex>`. Including the timestamp
+ * in the signed string lets receivers reject replays of old deliveries.
+ */
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const DELIVERY_ID_HEADER = 'X-Webhook-Id';
+export const EVENT_HEADER = 'X-Webhook-Event';
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Receiver-side check: signature matches and the timestamp is within
+ * `toleranceSeconds` of now.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string,
+  timestamp: number,
+  body: string,
+  toleranceSeconds = 300
+): boolean {
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
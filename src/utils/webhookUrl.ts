@@ -0,0 +1,122 @@
+import { lookup } from 'dns';
+import type { LookupAddress, LookupOptions } from 'dns';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Webhook target checks.
+ *
+ * Webhook URLs come from tenants, so the server must not be usable to reach
+ * its own network: targets must be https and resolve to public addresses.
+ * The URL is checked when it is accepted and again on every delivery, and
+ * the connection goes to the address the check resolved, so a DNS answer
+ * that changes between the two can't point it somewhere private.
+ *
+ * Hosts in WEBHOOK_ALLOWED_HOSTS (comma-separated) skip both checks — for
+ * internal receivers and the local webhook stub.
+ */
+
+// Separate lists: an IPv6 rule such as ::ffff:0:0/96 would otherwise match every IPv4 address.
+const NON_PUBLIC_V4 = new BlockList();
+const NON_PUBLIC_V6 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 3], // multicast and reserved, through 255.255.255.255
+] as const) {
+  NON_PUBLIC_V4.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96], // IPv4-mapped; receivers get plain IPv4 instead
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  NON_PUBLIC_V6.addSubnet(network, prefix, 'ipv6');
+}
+
+function allowedHosts(): Set<string> {
+  return new Set(
+    (process.env.WEBHOOK_ALLOWED_HOSTS ?? '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+export function isAllowListedHost(hostname: string): boolean {
+  return allowedHosts().has(hostname.toLowerCase());
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return family === 4 ? !NON_PUBLIC_V4.check(address, 'ipv4') : !NON_PUBLIC_V6.check(address, 'ipv6');
+}
+
+/**
+ * Why a webhook URL can't be used, or null when it can. Checks what the URL
+ * itself says; hostnames are resolved at delivery by publicOnlyLookup.
+ */
+export function webhookUrlProblem(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'must be a valid URL';
+  }
+
+  if (isAllowListedHost(parsed.hostname)) return null;
+
+  if (parsed.protocol !== 'https:') {
+    return 'must use https';
+  }
+  if (parsed.username || parsed.password) {
+    return 'must not contain credentials';
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    return 'must not point to an internal host';
+  }
+  if (isIP(host) !== 0 && !isPublicAddress(host)) {
+    return 'must not point to a private or internal address';
+  }
+  return null;
+}
+
+/**
+ * `lookup` for http(s).request: resolves like dns.lookup but fails when any
+ * resolved address is not public, so the request never connects to one.
+ */
+export function publicOnlyLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    const blocked = addresses.find((a) => !isPublicAddress(a.address));
+    if (blocked) {
+      return callback(
+        Object.assign(new Error(`${hostname} resolves to non-public address ${blocked.address}`), {
+          code: 'WEBHOOK_ADDRESS_BLOCKED',
+        }),
+        []
+      );
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
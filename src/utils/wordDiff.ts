@@ -0,0 +1,76 @@
+/**
+ * Word-level diff (LCS-based) for comparing AI output with human edits.
+ *
+ * Messages are short (tens to a few hundred words), so the O(n·m) table is
+ * cheap and gives a minimal, readable diff. Consecutive tokens of the same
+ * kind are merged into one segment. diffLines does the same per line, for
+ * prompt templates.
+ */
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+export interface WordDiff {
+  segments: DiffSegment[];
+  stats: { added: number; removed: number; unchanged: number };
+}
+
+export function diffWords(before: string, after: string): WordDiff {
+  return diffTokens(tokenize(before), tokenize(after), ' ');
+}
+
+/** Same as diffWords with lines as tokens; `stats` counts lines. */
+export function diffLines(before: string, after: string): WordDiff {
+  return diffTokens(before.split('\n'), after.split('\n'), '\n');
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function diffTokens(a: string[], b: string[], separator: string): WordDiff {
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ type: DiffSegmentType; token: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', token: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', token: a[i++] });
+    } else {
+      ops.push({ type: 'added', token: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'removed', token: a[i++] });
+  while (j < b.length) ops.push({ type: 'added', token: b[j++] });
+
+  const segments: DiffSegment[] = [];
+  const stats = { added: 0, removed: 0, unchanged: 0 };
+  for (const op of ops) {
+    stats[op.type === 'equal' ? 'unchanged' : op.type]++;
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += separator + op.token;
+    } else {
+      segments.push({ type: op.type, text: op.token });
+    }
+  }
+
+  return { segments, stats };
+}
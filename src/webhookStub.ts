@@ -0,0 +1,64 @@
+import 'dotenv/config';
+import http from 'http';
+import {
+  DELIVERY_ID_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from './utils/webhookSignature';
+
+/**
+ * Local webhook receiver for end-to-end testing (`npm run webhook:stub`).
+ *
+ * Verifies the signature with WEBHOOK_SIGNING_SECRET and logs each delivery.
+ * Set WEBHOOK_STUB_FAIL_FIRST=n to answer the first n deliveries with 500
+ * and watch the retries land.
+ */
+
+const PORT = Number(process.env.WEBHOOK_STUB_PORT) || 4000;
+const SECRET = process.env.WEBHOOK_SIGNING_SECRET ?? '';
+let failRemaining = Number(process.env.WEBHOOK_STUB_FAIL_FIRST) || 0;
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    const header = (name: string) => String(req.headers[name.toLowerCase()] ?? '');
+
+    const valid = verifyWebhookSignature(
+      SECRET,
+      header(SIGNATURE_HEADER),
+      Number(header(TIMESTAMP_HEADER)),
+      body
+    );
+
+    let event: unknown = null;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      // Logged as-is below.
+    }
+
+    console.log('Webhook received', {
+      deliveryId: header(DELIVERY_ID_HEADER),
+      signatureValid: valid,
+      event: (event as { event?: string } | null)?.event ?? body,
+    });
+
+    if (!valid) {
+      res.writeHead(401).end('invalid signature');
+      return;
+    }
+    if (failRemaining > 0) {
+      failRemaining--;
+      res.writeHead(500).end('simulated failure');
+      return;
+    }
+    res.writeHead(200).end('ok');
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook stub listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,57 @@
+import 'dotenv/config';
+import prisma from './db/prisma';
+import { processNextJob } from './services/jobService';
+import { processNextWebhookDelivery } from './services/webhookService';
+
+const POLL_INTERVAL_MS = Number(process.env.WORKER_POLL_INTERVAL_MS) || 1000;
+const CONCURRENCY = Math.max(1, Number(process.env.WORKER_CONCURRENCY) || 1);
+
+let shuttingDown = false;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * One polling loop. Drains the queue while jobs or due webhook retries are
+ * available, then idles for POLL_INTERVAL_MS. Several loops can run side by side — claiming uses
+ * SKIP LOCKED, so they never pick up the same job.
+ */
+async function pollLoop(loopId: number): Promise<void> {
+  while (!shuttingDown) {
+    try {
+      const processedJob = await processNextJob();
+      const processedDelivery = await processNextWebhookDelivery();
+      if (!processedJob && !processedDelivery) {
+        await sleep(POLL_INTERVAL_MS);
+      }
+    } catch (error) {
+      console.error('Worker loop error', {
+        loopId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  console.log(`Generation worker started (concurrency ${CONCURRENCY})`);
+
+  const loops = Array.from({ length: CONCURRENCY }, (_, i) => pollLoop(i + 1));
+  await Promise.all(loops);
+
+  await prisma.$disconnect();
+  console.log('Generation worker stopped');
+}
+
+// Finish the in-flight job, then exit.
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, stopping worker after current job`);
+    shuttingDown = true;
+  });
+}
+
+main().catch((error) => {
+  console.error('Worker crashed', error);
+  process.exit(1);
+});
@@ -0,0 +1,178 @@
+import './support/retryEnv';
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import OpenAI from 'openai';
+import { DEFAULT_QUALITY_RULE_SET, resolveQualityRuleSet } from '../src/quality';
+import type { QualityRuleSet } from '../src/quality';
+import { DEFAULT_SANITIZATION_RULE_SET } from '../src/sanitizer';
+import { AIGenerationError, QualityRuleBlockedError, generateSequenceWithAI } from '../src/services/aiService';
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from '../src/services/llmProvider';
+import { setLLMProvider } from '../src/services/llmProviderFactory';
+import { MockLLMProvider } from '../src/services/mockLLMProvider';
+import { MOCK_PROVIDER_CONFIG, generationInputs, silenceConsole } from './support/generation';
+import type { GenerationInputs } from './support/generation';
+
+/** What a scripted call does: answer like the mock, answer with junk, or throw. */
+type Step = 'ok' | 'invalid' | Error;
+
+/**
+ * Plays a script of outcomes, one per call, and records which model each
+ * call went to. Good answers come from the mock provider.
+ */
+class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly config = MOCK_PROVIDER_CONFIG;
+  readonly requests: LLMCompletionRequest[] = [];
+  private readonly mock = new MockLLMProvider(MOCK_PROVIDER_CONFIG);
+
+  constructor(private readonly script: Step[]) {}
+
+  get models(): Array<string | undefined> {
+    return this.requests.map((r) => r.model);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    const step = this.script[this.requests.length - 1] ?? 'ok';
+    if (step instanceof Error) throw step;
+    if (step === 'invalid') {
+      return { content: '{"messages": []}', usage: null, rawResponse: { invalid: true } };
+    }
+    return this.mock.complete(request);
+  }
+
+  async stream(request: LLMCompletionRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+    const completion = await this.complete(request);
+    onDelta(completion.content);
+    return completion;
+  }
+}
+
+const unavailable = () => new OpenAI.APIError(503, undefined, 'Service unavailable', undefined);
+const badRequest = () => new OpenAI.APIError(400, undefined, 'Invalid request', undefined);
+
+let inputs: GenerationInputs;
+
+function generate(provider: ScriptedProvider, qualityRules: QualityRuleSet = DEFAULT_QUALITY_RULE_SET) {
+  setLLMProvider(provider);
+  const { profile, companyContext, tov, strategy, settings } = inputs;
+  return generateSequenceWithAI(
+    profile,
+    companyContext,
+    tov,
+    ['linkedin_dm', 'linkedin_dm', 'linkedin_dm'],
+    strategy,
+    settings,
+    qualityRules,
+    DEFAULT_SANITIZATION_RULE_SET
+  );
+}
+
+describe('generation attempts', () => {
+  before(async () => {
+    silenceConsole();
+    inputs = await generationInputs();
+  });
+
+  it('retries a transient provider error on the same model', async () => {
+    const provider = new ScriptedProvider([unavailable(), 'ok']);
+    const result = await generate(provider);
+
+    assert.deepEqual(provider.models, ['mock-model', 'mock-model']);
+    assert.equal(result.model, 'mock-model');
+    assert.equal(result.attempt, 2);
+    assert.equal(result.failedAttempts.length, 1);
+    assert.equal(result.failedAttempts[0].attempt, 1);
+    assert.match(result.failedAttempts[0].error, /Service unavailable/);
+    assert.deepEqual(result.failedAttempts[0].tokenUsage.totalTokens, 0);
+  });
+
+  it('falls back once the retries are used up', async () => {
+    const provider = new ScriptedProvider([unavailable(), unavailable(), unavailable(), 'ok']);
+    const result = await generate(provider);
+
+    assert.deepEqual(provider.models, ['mock-model', 'mock-model', 'mock-model', 'fallback-model']);
+    assert.equal(result.model, 'fallback-model');
+    assert.equal(result.attempt, 4);
+    assert.deepEqual(
+      result.failedAttempts.map((a) => a.model),
+      ['mock-model', 'mock-model', 'mock-model']
+    );
+  });
+
+  it('falls back without retrying an error that will not clear', async () => {
+    const provider = new ScriptedProvider([badRequest(), 'ok']);
+    const result = await generate(provider);
+
+    assert.deepEqual(provider.models, ['mock-model', 'fallback-model']);
+    assert.equal(result.model, 'fallback-model');
+  });
+
+  it('falls back on invalid output when the repair pass is off', async () => {
+    const provider = new ScriptedProvider(['invalid', 'ok']);
+    const result = await generate(provider);
+
+    assert.deepEqual(provider.models, ['mock-model', 'fallback-model']);
+    assert.equal(result.repair, false);
+    assert.equal(result.failedAttempts[0].repair, false);
+    assert.ok(result.failedAttempts[0].fieldErrors?.length, 'field errors are recorded');
+  });
+
+  it('fails with every attempt attached when no model succeeds', async () => {
+    const provider = new ScriptedProvider([badRequest(), badRequest()]);
+    await assert.rejects(generate(provider), (error: unknown) => {
+      assert.ok(error instanceof AIGenerationError);
+      assert.equal(error.code, 'AI_GENERATION_FAILED');
+      assert.deepEqual(
+        error.failedAttempts.map((a) => [a.attempt, a.model]),
+        [
+          [1, 'mock-model'],
+          [2, 'fallback-model'],
+        ]
+      );
+      return true;
+    });
+  });
+
+  it('reports the field errors of the last rejected output', async () => {
+    const provider = new ScriptedProvider(['invalid', 'invalid']);
+    await assert.rejects(generate(provider), (error: unknown) => {
+      assert.ok(error instanceof AIGenerationError);
+      assert.equal(error.code, 'AI_GENERATION_FAILED');
+      assert.ok(error.details?.length);
+      assert.deepEqual(error.details, error.failedAttempts[1].fieldErrors);
+      return true;
+    });
+  });
+
+  it('sends a repair request for a blocking quality rule, then blocks', async () => {
+    const strict = resolveQualityRuleSet({
+      'step.first_message_length': { severity: 'block', params: { maxWords: 1 } },
+    });
+    const provider = new ScriptedProvider([]);
+
+    await assert.rejects(generate(provider, strict), (error: unknown) => {
+      assert.ok(error instanceof QualityRuleBlockedError);
+      assert.equal(error.statusCode, 422);
+      assert.deepEqual(
+        error.violations.map((v) => v.ruleId),
+        ['step.first_message_length']
+      );
+      assert.deepEqual(
+        error.failedAttempts.map((a) => [a.model, a.repair]),
+        [
+          ['mock-model', false],
+          ['mock-model', true],
+          ['fallback-model', false],
+          ['fallback-model', true],
+        ]
+      );
+      return true;
+    });
+
+    const repairRequest = provider.requests[1];
+    assert.equal(repairRequest.messages.length, 4);
+    assert.equal(repairRequest.messages[2].role, 'assistant');
+    assert.match(repairRequest.messages[3].content, /failed validation:\n- message 1 exceeds 1 words/);
+  });
+});
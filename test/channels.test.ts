@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  CHANNEL_SPECS,
+  channelRule,
+  channelsToPromptBlock,
+  checkChannelMessage,
+  opensWithGreeting,
+  resolveChannels,
+} from '../src/utils/channels';
+
+describe('checkChannelMessage', () => {
+  it('accepts a message at the channel limit', () => {
+    const message = 'x'.repeat(CHANNEL_SPECS.connection_note.maxChars);
+    assert.deepEqual(checkChannelMessage('connection_note', { subject: null, message }), []);
+  });
+
+  it('rejects a message over the channel limit', () => {
+    assert.deepEqual(checkChannelMessage('connection_note', { subject: null, message: 'x'.repeat(341) }), [
+      { field: 'message', message: 'must be at most 300 characters for connection_note (got 341)' },
+    ]);
+  });
+
+  it('requires a subject on inmail and email', () => {
+    assert.deepEqual(checkChannelMessage('email', { subject: null, message: 'Hello' }), [
+      { field: 'subject', message: 'is required for email' },
+    ]);
+    assert.deepEqual(checkChannelMessage('inmail', { subject: 'Your Q3 hiring', message: 'Hello' }), []);
+  });
+
+  it('limits the subject length', () => {
+    assert.deepEqual(checkChannelMessage('email', { subject: 's'.repeat(101), message: 'Hello' }), [
+      { field: 'subject', message: 'must be at most 100 characters for email (got 101)' },
+    ]);
+  });
+
+  it('rejects a subject on channels without one', () => {
+    assert.deepEqual(checkChannelMessage('linkedin_dm', { subject: 'Hi', message: 'Hello' }), [
+      { field: 'subject', message: 'must be null: linkedin_dm has no subject line' },
+    ]);
+  });
+
+  it('reports the message and the subject together', () => {
+    const problems = checkChannelMessage('inmail', { subject: null, message: 'x'.repeat(2000) });
+    assert.deepEqual(
+      problems.map((p) => p.field),
+      ['message', 'subject']
+    );
+  });
+});
+
+describe('opensWithGreeting', () => {
+  it('matches greetings at the start, in any case', () => {
+    for (const message of ['Hi Jane,', '  hello there', 'HEY!', 'Dear Ms. Doe', 'Good morning Jane']) {
+      assert.equal(opensWithGreeting(message), true, message);
+    }
+  });
+
+  it('ignores greetings later in the text and words that only start like one', () => {
+    for (const message of ['Quick one: hi from Acme', 'Hiring for data roles?', 'Heyday of dbt', 'Good work on the launch']) {
+      assert.equal(opensWithGreeting(message), false, message);
+    }
+  });
+});
+
+describe('resolveChannels', () => {
+  it('defaults every step to linkedin_dm', () => {
+    assert.deepEqual(resolveChannels(undefined, 3), ['linkedin_dm', 'linkedin_dm', 'linkedin_dm']);
+  });
+
+  it('keeps declared channels', () => {
+    assert.deepEqual(resolveChannels(['connection_note', 'email'], 2), ['connection_note', 'email']);
+  });
+});
+
+describe('channelsToPromptBlock', () => {
+  it('states each step with its limits', () => {
+    assert.equal(
+      channelsToPromptBlock(['connection_note', 'email']),
+      [`Step 1: ${channelRule('connection_note')}`, `Step 2: ${channelRule('email')}`].join('\n')
+    );
+    assert.match(channelRule('email'), /max 2000 characters; "subject" required, max 100 characters/);
+    assert.match(channelRule('linkedin_dm'), /"subject": null/);
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseCsv } from '../src/utils/csvParser';
+import { AppError } from '../src/utils/errorHandler';
+
+describe('parseCsv', () => {
+  it('keys rows by the trimmed, lowercased header', () => {
+    assert.deepEqual(parseCsv(' Prospect_URL ,Sequence_Length\nhttps://a.example, 3 \n'), [
+      { prospect_url: 'https://a.example', sequence_length: '3' },
+    ]);
+  });
+
+  it('keeps commas, newlines and escaped quotes inside quoted fields', () => {
+    const csv = 'prospect_url,company_context\nhttps://a.example,"We sell ""fast"" tools, mostly\nto ops teams"\n';
+    assert.deepEqual(parseCsv(csv), [
+      { prospect_url: 'https://a.example', company_context: 'We sell "fast" tools, mostly\nto ops teams' },
+    ]);
+  });
+
+  it('reads CRLF line endings and strips a byte order mark', () => {
+    assert.deepEqual(parseCsv('\uFEFFprospect_url,sequence_length\r\nhttps://a.example,2\r\nhttps://b.example,4\r\n'), [
+      { prospect_url: 'https://a.example', sequence_length: '2' },
+      { prospect_url: 'https://b.example', sequence_length: '4' },
+    ]);
+  });
+
+  it('skips blank lines and fills missing trailing columns', () => {
+    assert.deepEqual(parseCsv('prospect_url,sequence_length\n\nhttps://a.example\r\n\r\n\nhttps://b.example,3'), [
+      { prospect_url: 'https://a.example', sequence_length: '' },
+      { prospect_url: 'https://b.example', sequence_length: '3' },
+    ]);
+  });
+
+  it('returns no rows for an empty file', () => {
+    assert.deepEqual(parseCsv(''), []);
+    assert.deepEqual(parseCsv('prospect_url\n'), []);
+  });
+
+  it('rejects a quoted field that is never closed', () => {
+    assert.throws(
+      () => parseCsv('prospect_url,company_context\nhttps://a.example,ok\nhttps://b.example,"We sell\ntools\n'),
+      (error) =>
+        error instanceof AppError &&
+        error.statusCode === 400 &&
+        error.code === 'INVALID_CSV' &&
+        /line 3/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { assignArm } from '../src/utils/experimentArms';
+import type { ExperimentArm } from '../src/utils/experimentArms';
+
+const arm = (name: string, weight: number): ExperimentArm => ({
+  name,
+  promptVersion: 'v5.3',
+  temperature: 0.5,
+  weight,
+});
+
+const experimentId = '6f1c2a4e-8d3b-4c1e-9a57-0b2d4e6f8a10';
+const prospects = Array.from({ length: 2000 }, (_, i) => `https://www.linkedin.com/in/prospect-${i}`);
+
+describe('assignArm', () => {
+  it('gives a prospect the same arm however its URL is written', () => {
+    const arms = [arm('control', 1), arm('treatment', 1)];
+    const chosen = assignArm(arms, experimentId, 'https://www.linkedin.com/in/jane-doe');
+    for (const url of [
+      'https://linkedin.com/in/jane-doe/',
+      'http://www.linkedin.com/in/Jane-Doe?trk=feed#about',
+      'linkedin.com/in/jane-doe',
+    ]) {
+      assert.equal(assignArm(arms, experimentId, url), chosen);
+    }
+  });
+
+  it('splits prospects roughly by weight', () => {
+    const arms = [arm('control', 3), arm('treatment', 1)];
+    const counts = { control: 0, treatment: 0 };
+    for (const url of prospects) {
+      counts[assignArm(arms, experimentId, url).name as keyof typeof counts]++;
+    }
+    const share = counts.treatment / prospects.length;
+    assert.ok(share > 0.2 && share < 0.3, `treatment share ${share}`);
+  });
+
+  it('splits prospects independently in each experiment', () => {
+    const arms = [arm('control', 1), arm('treatment', 1)];
+    const moved = prospects.filter(
+      (url) => assignArm(arms, experimentId, url) !== assignArm(arms, 'another-experiment', url)
+    );
+    const share = moved.length / prospects.length;
+    assert.ok(share > 0.4 && share < 0.6, `${moved.length} of ${prospects.length} prospects changed arm`);
+  });
+
+  it('hashes URLs that are not profiles as given', () => {
+    const arms = [arm('a', 1), arm('b', 1), arm('c', 1)];
+    const names = new Set(
+      Array.from({ length: 50 }, (_, i) => assignArm(arms, experimentId, `https://example.com/p/${i}`).name)
+    );
+    assert.equal(names.size, 3);
+  });
+
+  it('always picks the only arm', () => {
+    const only = arm('only', 7);
+    assert.equal(assignArm([only], experimentId, prospects[0]), only);
+  });
+});
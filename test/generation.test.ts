@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { getPromptTemplate } from '../src/prompts';
+import { DEFAULT_QUALITY_RULE_SET } from '../src/quality';
+import { DEFAULT_SANITIZATION_RULE_SET, resolveSanitizationRuleSet } from '../src/sanitizer';
+import type { SanitizationRuleSet } from '../src/sanitizer';
+import {
+  generateSequenceWithAI,
+  regenerateStepWithAI,
+  streamSequenceWithAI,
+} from '../src/services/aiService';
+import type { AIGenerationResult, SequenceMessage } from '../src/services/aiService';
+import { setLLMProvider } from '../src/services/llmProviderFactory';
+import { MockLLMProvider } from '../src/services/mockLLMProvider';
+import { checkChannelMessage, opensWithGreeting } from '../src/utils/channels';
+import type { Channel } from '../src/utils/channels';
+import { MOCK_PROVIDER_CONFIG, generationInputs, silenceConsole } from './support/generation';
+import type { GenerationInputs } from './support/generation';
+
+const CHANNELS: Channel[] = ['connection_note', 'linkedin_dm', 'inmail', 'email'];
+
+let inputs: GenerationInputs;
+
+function generate(
+  channels: Channel[] = CHANNELS,
+  sanitizationRules: SanitizationRuleSet = DEFAULT_SANITIZATION_RULE_SET
+): Promise<AIGenerationResult> {
+  const { profile, companyContext, tov, strategy, settings } = inputs;
+  return generateSequenceWithAI(
+    profile,
+    companyContext,
+    tov,
+    channels,
+    strategy,
+    settings,
+    DEFAULT_QUALITY_RULE_SET,
+    sanitizationRules
+  );
+}
+
+describe('generation with the mock provider', () => {
+  before(async () => {
+    silenceConsole();
+    setLLMProvider(new MockLLMProvider(MOCK_PROVIDER_CONFIG));
+    inputs = await generationInputs();
+  });
+
+  it('writes one valid step per channel', async () => {
+    const result = await generate();
+
+    assert.deepEqual(
+      result.messages.map((m) => [m.step, m.channel]),
+      CHANNELS.map((channel, i) => [i + 1, channel])
+    );
+    for (const message of result.messages) {
+      assert.deepEqual(checkChannelMessage(message.channel, message), [], `step ${message.step}`);
+      assert.ok(message.message.length > 0);
+      assert.ok(message.reasoning.length > 0);
+    }
+    assert.deepEqual(
+      result.messages.filter((m) => opensWithGreeting(m.message)).map((m) => m.step),
+      [1]
+    );
+  });
+
+  it('returns the analysis, scores and checks', async () => {
+    const result = await generate();
+
+    for (const field of ['prospect_insights', 'personalization_hooks', 'value_proposition']) {
+      assert.ok(result.analysis[field], field);
+    }
+    assert.ok(result.confidence >= 0 && result.confidence <= 1);
+    assert.ok(result.groundingScore >= 0 && result.groundingScore <= 1);
+    assert.equal(result.qualityRulesHash, DEFAULT_QUALITY_RULE_SET.hash);
+    assert.equal(result.sanitizationRulesHash, DEFAULT_SANITIZATION_RULE_SET.hash);
+    assert.deepEqual(
+      result.qualityIssues,
+      result.triggeredRules.map((v) => v.message)
+    );
+  });
+
+  it('attributes the call to the model, prompt and price that produced it', async () => {
+    const result = await generate();
+    const template = getPromptTemplate('v5.4');
+
+    assert.equal(result.model, 'mock-model');
+    assert.deepEqual(result.route, { reason: 'default', models: ['mock-model'] });
+    assert.equal(result.attempt, 1);
+    assert.equal(result.repair, false);
+    assert.deepEqual(result.failedAttempts, []);
+    assert.deepEqual(result.prompt, {
+      promptVersion: 'v5.4',
+      promptHash: template.contentHash,
+      temperature: 0.5,
+      experimentId: null,
+      experimentArm: null,
+    });
+
+    const { promptTokens, completionTokens, totalTokens, estimatedCost } = result.tokenUsage;
+    assert.ok(promptTokens > 0 && completionTokens > 0);
+    assert.equal(totalTokens, promptTokens + completionTokens);
+    assert.ok(Math.abs(estimatedCost - (promptTokens * 1 + completionTokens * 2) / 1_000_000) < 1e-9);
+  });
+
+  it('sanitizes subjects as well as messages', async () => {
+    const unsanitized = await generate();
+    const ruleSet = resolveSanitizationRuleSet([{ id: 'tenant.at', phrase: 'at', replacement: '@' }]);
+    const result = await generate(CHANNELS, ruleSet);
+
+    for (const step of [3, 4]) {
+      const subject = result.sanitization.find((f) => f.field === `messages.${step}.subject`);
+      assert.ok(subject, `step ${step}`);
+      assert.equal(subject.before, unsanitized.messages[step - 1].subject);
+      assert.equal(subject.after, result.messages[step - 1].subject);
+      assert.match(subject.after, / @ /);
+    }
+  });
+
+  it('is deterministic', async () => {
+    const [first, second] = await Promise.all([generate(), generate()]);
+    assert.deepEqual(first.messages, second.messages);
+    assert.deepEqual(first.analysis, second.analysis);
+  });
+
+  it('streams the analysis and every step before returning the same result', async () => {
+    const { profile, companyContext, tov, strategy, settings } = inputs;
+    const events: string[] = [];
+    const streamedMessages: SequenceMessage[] = [];
+
+    const result = await streamSequenceWithAI(
+      profile,
+      companyContext,
+      tov,
+      CHANNELS,
+      strategy,
+      settings,
+      DEFAULT_QUALITY_RULE_SET,
+      DEFAULT_SANITIZATION_RULE_SET,
+      {
+        onAnalysis: () => events.push('analysis'),
+        onMessage: (message) => {
+          events.push(`step ${message.step}`);
+          streamedMessages.push(message);
+        },
+      }
+    );
+
+    assert.deepEqual(events, ['analysis', 'step 1', 'step 2', 'step 3', 'step 4']);
+    assert.deepEqual(
+      streamedMessages.map((m) => m.channel),
+      CHANNELS
+    );
+    assert.deepEqual(result.messages, (await generate()).messages);
+  });
+
+  it('rewrites one step and keeps its channel', async () => {
+    const { profile, companyContext, tov, strategy, settings } = inputs;
+    const sequence = await generate();
+
+    const result = await regenerateStepWithAI(
+      profile,
+      companyContext,
+      tov,
+      strategy,
+      { analysis: sequence.analysis, messages: sequence.messages },
+      3,
+      settings,
+      DEFAULT_QUALITY_RULE_SET,
+      DEFAULT_SANITIZATION_RULE_SET
+    );
+
+    assert.equal(result.message.step, 3);
+    assert.equal(result.message.channel, 'inmail');
+    assert.deepEqual(checkChannelMessage('inmail', result.message), []);
+    assert.equal(opensWithGreeting(result.message.message), false);
+  });
+});
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Prisma } from '@prisma/client';
+import { claimNextJobQuery, failExhaustedStaleJobsQuery } from '../src/db/jobQueries';
+
+const staleBefore = new Date('2026-01-01T00:00:00Z');
+
+/** The Postgres statement with whitespace collapsed, for matching clauses. */
+const text = (query: Prisma.Sql) => query.text.replace(/\s+/g, ' ').trim();
+
+describe('claimNextJobQuery', () => {
+  const query = claimNextJobQuery(staleBefore);
+
+  it('claims one row with SKIP LOCKED and counts the attempt', () => {
+    assert.match(text(query), /LIMIT 1 FOR UPDATE SKIP LOCKED/);
+    assert.match(text(query), /SET "status" = 'running', "attempts" = "attempts" \+ 1/);
+    assert.match(text(query), /RETURNING \*$/);
+  });
+
+  it('takes queued jobs that are due', () => {
+    assert.match(text(query), /\("status" = 'queued' AND "runAt" <= NOW\(\)\)/);
+  });
+
+  it('reclaims running jobs only after their heartbeat stopped and while attempts are left', () => {
+    assert.match(
+      text(query),
+      /\("status" = 'running' AND "updatedAt" < \$1 AND "attempts" < "maxAttempts"\)/
+    );
+    assert.deepEqual(query.values, [staleBefore]);
+  });
+});
+
+describe('failExhaustedStaleJobsQuery', () => {
+  const query = failExhaustedStaleJobsQuery(staleBefore);
+
+  it('fails exactly the stale running jobs the claim no longer takes', () => {
+    assert.match(
+      text(query),
+      /WHERE "status" = 'running' AND "updatedAt" < \$1 AND "attempts" >= "maxAttempts"/
+    );
+    assert.match(text(query), /SET "status" = 'failed'/);
+    assert.deepEqual(query.values, [staleBefore]);
+  });
+});
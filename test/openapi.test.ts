@@ -0,0 +1,10 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import app from '../src/index';
+import { findUndocumentedRoutes } from '../src/utils/openapi';
+
+describe('OpenAPI document', () => {
+  it('documents every route mounted on the app', () => {
+    assert.deepEqual(findUndocumentedRoutes(app), []);
+  });
+});
@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  DEFAULT_QUALITY_RULE_SET,
+  QualityRuleError,
+  assertQualityRules,
+  evaluateQualityRules,
+  resolveQualityRuleSet,
+} from '../src/quality';
+import type { QualityCheckInput, QualityViolation } from '../src/quality';
+import type { ProspectProfile } from '../src/utils/linkedinParser';
+
+const prospect: ProspectProfile = {
+  fullName: 'Ana Silva',
+  headline: 'Senior Data Engineer',
+  company: 'Acme',
+  roleCategory: 'Data',
+  seniority: 'Senior',
+  skills: ['dbt', 'Airflow'],
+  inferredResponsibilities: ['pipeline reliability'],
+  profileData: {
+    roleCategory: 'Data',
+    seniority: 'Senior',
+    skills: ['dbt', 'Airflow'],
+    inferredResponsibilities: ['pipeline reliability'],
+    experience: [],
+    education: [],
+    summary: '',
+  },
+};
+
+/** Output no built-in rule objects to; each test breaks one thing. */
+function cleanInput(): QualityCheckInput {
+  return {
+    prospect,
+    companyContext: 'We automate lead qualification for outbound sales',
+    analysis: {
+      prospect_insights: 'Runs dbt models behind the revenue dashboards',
+      value_proposition: 'We automate lead qualification so fewer ad-hoc asks reach the data team',
+    },
+    messages: [
+      {
+        step: 1,
+        message: 'Hi Ana, noticed your dbt work on the revenue dashboards.',
+        reasoning: 'Signal: dbt revenue dashboards',
+      },
+      {
+        step: 2,
+        message: 'Most outbound groups still hand-check lead qualification lists before each campaign.',
+        reasoning: 'Signal: outbound campaign lists',
+      },
+    ],
+  };
+}
+
+function withMessage(step: number, message: string): QualityCheckInput {
+  const input = cleanInput();
+  input.messages = input.messages.map((m) => (m.step === step ? { ...m, message } : m));
+  return input;
+}
+
+const ruleIds = (violations: QualityViolation[]) => violations.map((v) => v.ruleId);
+
+describe('evaluateQualityRules', () => {
+  it('finds nothing in clean output', () => {
+    assert.deepEqual(evaluateQualityRules(DEFAULT_QUALITY_RULE_SET, cleanInput()), []);
+  });
+
+  it('reports a message finding with its step and the default severity', () => {
+    const input = withMessage(2, 'Teams like yours cut review time by 40% with lead qualification.');
+    assert.deepEqual(evaluateQualityRules(DEFAULT_QUALITY_RULE_SET, input), [
+      {
+        ruleId: 'message.percentage_claims',
+        scope: 'message',
+        severity: 'warn',
+        message: 'message 2 contains numeric percentage claim',
+        steps: [2],
+      },
+    ]);
+  });
+
+  it('reports analysis findings without steps', () => {
+    const input = cleanInput();
+    input.analysis.prospect_insights = 'An industry-leading data team';
+    assert.deepEqual(ruleIds(evaluateQualityRules(DEFAULT_QUALITY_RULE_SET, input)), [
+      'analysis.skill_reference',
+      'analysis.generic_phrasing',
+    ]);
+  });
+
+  it('keeps only findings about the given step', () => {
+    const input = withMessage(2, 'Outbound lead qualification saves 30% of the week.');
+    assert.equal(evaluateQualityRules(DEFAULT_QUALITY_RULE_SET, input, { step: 2 }).length, 1);
+    assert.deepEqual(evaluateQualityRules(DEFAULT_QUALITY_RULE_SET, input, { step: 1 }), []);
+  });
+
+  it('skips disabled rules', () => {
+    const ruleSet = resolveQualityRuleSet({ 'message.percentage_claims': { enabled: false } });
+    const input = withMessage(2, 'Outbound lead qualification saves 30% of the week.');
+    assert.deepEqual(evaluateQualityRules(ruleSet, input), []);
+  });
+
+  it('uses overridden params', () => {
+    const ruleSet = resolveQualityRuleSet({ 'step.first_message_length': { params: { maxWords: 5 } } });
+    const [violation] = evaluateQualityRules(ruleSet, cleanInput());
+    assert.equal(violation.ruleId, 'step.first_message_length');
+    assert.equal(violation.message, 'message 1 exceeds 5 words (10)');
+    assert.deepEqual(violation.steps, [1]);
+  });
+
+  it('flags neighbouring steps that restate each other', () => {
+    const input = withMessage(2, 'Noticed your dbt work on the revenue dashboards again.');
+    const violations = evaluateQualityRules(DEFAULT_QUALITY_RULE_SET, input);
+    assert.deepEqual(ruleIds(violations), ['step.restatement']);
+    assert.deepEqual(violations[0].steps, [1, 2]);
+  });
+});
+
+describe('resolveQualityRuleSet', () => {
+  it('lets later layers win per field', () => {
+    const ruleSet = resolveQualityRuleSet(
+      { 'message.percentage_claims': { severity: 'block', enabled: false } },
+      { 'message.percentage_claims': { severity: 'repair' } }
+    );
+    const rule = ruleSet.rules.find((r) => r.id === 'message.percentage_claims')!;
+    assert.equal(rule.severity, 'repair');
+    assert.equal(rule.enabled, false);
+  });
+
+  it('falls back to default params when an override no longer fits', (t) => {
+    t.mock.method(console, 'warn', () => {});
+    const ruleSet = resolveQualityRuleSet({ 'step.first_message_length': { params: { maxWords: 'many' } } });
+    const rule = ruleSet.rules.find((r) => r.id === 'step.first_message_length')!;
+    assert.deepEqual(rule.params, { maxWords: 60 });
+  });
+
+  it('changes the hash only when the rules change', () => {
+    assert.equal(resolveQualityRuleSet({}).hash, DEFAULT_QUALITY_RULE_SET.hash);
+    assert.notEqual(
+      resolveQualityRuleSet({ 'step.all_questions': { severity: 'block' } }).hash,
+      DEFAULT_QUALITY_RULE_SET.hash
+    );
+  });
+});
+
+describe('assertQualityRules', () => {
+  const violation = (severity: QualityViolation['severity']): QualityViolation => ({
+    ruleId: 'message.percentage_claims',
+    scope: 'message',
+    severity,
+    message: 'message 2 contains numeric percentage claim',
+    steps: [2],
+  });
+
+  it('keeps warnings', () => {
+    assert.doesNotThrow(() => assertQualityRules([violation('warn')], { repairPass: false }));
+  });
+
+  it('rejects repair violations on the first pass only', () => {
+    assert.throws(
+      () => assertQualityRules([violation('repair'), violation('warn')], { repairPass: false }),
+      (error: unknown) =>
+        error instanceof QualityRuleError && !error.blocking && error.violations.length === 1
+    );
+    assert.doesNotThrow(() => assertQualityRules([violation('repair')], { repairPass: true }));
+  });
+
+  it('rejects block violations on every pass', () => {
+    for (const repairPass of [false, true]) {
+      assert.throws(
+        () => assertQualityRules([violation('block')], { repairPass }),
+        (error: unknown) => error instanceof QualityRuleError && error.blocking
+      );
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  analyzeCompanyContext,
+  inferTargetRoleFromContext,
+  matchContextRoleSignals,
+} from '../src/utils/roleContextStrategy';
+
+const SALES_CONTEXT = 'We screen outbound leads for your sales team.';
+
+describe('matchContextRoleSignals', () => {
+  it('scores each signal entry as its weight times the keywords found', () => {
+    const matches = matchContextRoleSignals('Security questionnaire and compliance review load, audit-ready.');
+    const security = matches.filter((m) => m.role === 'Security');
+
+    assert.deepEqual(
+      security.map((m) => [m.weight, m.matchedKeywords, m.score]),
+      [
+        [3, ['security questionnaire', 'compliance review'], 6],
+        [2, ['compliance', 'audit'], 4],
+      ]
+    );
+    assert.ok(matches.filter((m) => m.role !== 'Security').every((m) => m.score === 0));
+  });
+
+  it('matches case-insensitively', () => {
+    const [sales] = matchContextRoleSignals('OUTBOUND for SDR teams');
+    assert.deepEqual(sales.matchedKeywords, ['outbound', 'sdr']);
+  });
+});
+
+describe('analyzeCompanyContext', () => {
+  it('infers the persona from the highest role score', () => {
+    const analysis = analyzeCompanyContext(SALES_CONTEXT);
+
+    assert.equal(analysis.strategy.targetPersona, 'Sales');
+    assert.equal(analysis.usedFallbackInference, false);
+    assert.deepEqual(analysis.roleScores, {
+      Engineering: 0,
+      DevOps: 0,
+      Security: 0,
+      Data: 0,
+      Product: 0,
+      Sales: 6,
+    });
+    assert.equal(analysis.suggestions.persona, 'Sales');
+  });
+
+  it('reports when no signal matched and the broad heuristic picked the persona', () => {
+    const analysis = analyzeCompanyContext('We automate the boring parts.');
+
+    assert.equal(analysis.usedFallbackInference, true);
+    assert.equal(analysis.strategy.targetPersona, 'Sales');
+    assert.ok(Object.values(analysis.roleScores).every((score) => score === 0));
+  });
+
+  it('lets the context persona override the prospect role', () => {
+    const analysis = analyzeCompanyContext(SALES_CONTEXT, 'Engineering');
+
+    assert.equal(analysis.strategy.targetPersona, 'Sales');
+    assert.match(analysis.strategy.alignmentNote, /^Persona shift: prospect is Engineering/);
+  });
+});
+
+describe('persona suggestions', () => {
+  it('has no signal keywords or gap for the inferred persona', () => {
+    const { suggestions } = analyzeCompanyContext(SALES_CONTEXT);
+
+    assert.deepEqual(suggestions.personaSignalKeywords, []);
+    assert.equal(suggestions.signalScoreGap, 0);
+  });
+
+  it('lists the unmatched signal keywords of another persona, strongest first', () => {
+    const { suggestions } = analyzeCompanyContext(SALES_CONTEXT, undefined, 'Security');
+
+    assert.equal(suggestions.persona, 'Security');
+    assert.deepEqual(suggestions.personaSignalKeywords, [
+      'security review',
+      'security questionnaire',
+      'compliance review',
+      'vendor review',
+      'security assessment',
+      'compliance',
+      'risk assessment',
+      'audit',
+    ]);
+  });
+
+  it('needs exactly the signal score gap to switch the inferred persona', () => {
+    const { suggestions } = analyzeCompanyContext(SALES_CONTEXT, undefined, 'Security');
+    assert.equal(suggestions.signalScoreGap, 7);
+
+    // Each of these is worth 3 points: 6 only ties the leader, 9 passes it.
+    const [first, second, third] = suggestions.personaSignalKeywords;
+    assert.equal(inferTargetRoleFromContext(`${SALES_CONTEXT} ${first}, ${second}.`), 'Sales');
+    assert.equal(inferTargetRoleFromContext(`${SALES_CONTEXT} ${first}, ${second}, ${third}.`), 'Security');
+  });
+
+  it('suggests capability keywords that reach the persona frictions still missing', () => {
+    const { strategy, suggestions } = analyzeCompanyContext(SALES_CONTEXT, undefined, 'Security');
+
+    assert.equal(suggestions.currentAlignmentScore, 0.75);
+    assert.deepEqual(suggestions.missingWorkflows, ['pre-sales-feasibility']);
+    assert.deepEqual(
+      suggestions.capabilityKeywords.map((s) => [
+        s.keyword,
+        s.capabilityTag,
+        s.unlocksWorkflows,
+        s.projectedAlignmentScore,
+      ]),
+      [
+        ['qualify', 'qualification', ['pre-sales-feasibility'], 1],
+        ['handoff', 'handoff-optimization', ['pre-sales-feasibility'], 1],
+        ['demo', 'demo-qualification', ['pre-sales-feasibility'], 1],
+      ]
+    );
+    for (const suggestion of suggestions.capabilityKeywords) {
+      assert.ok(!strategy.capabilityTags.includes(suggestion.capabilityTag));
+    }
+  });
+
+  it('ranks capability keywords by the alignment they unlock and skips ones already in the context', () => {
+    const { suggestions } = analyzeCompanyContext('Qualify demo requests for the product team.', undefined, 'Data');
+    const scores = suggestions.capabilityKeywords.map((s) => s.projectedAlignmentScore);
+
+    assert.ok(suggestions.capabilityKeywords.length > 1);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+    for (const suggestion of suggestions.capabilityKeywords) {
+      assert.ok(suggestion.projectedAlignmentScore > suggestions.currentAlignmentScore);
+      assert.ok(suggestion.unlocksWorkflows.every((wf) => suggestions.missingWorkflows.includes(wf)));
+      assert.ok(!'qualify demo requests for the product team.'.includes(suggestion.keyword));
+    }
+  });
+
+  it('suggests nothing once every persona friction is reached', () => {
+    const { suggestions } = analyzeCompanyContext(SALES_CONTEXT);
+
+    assert.equal(suggestions.currentAlignmentScore, 1);
+    assert.deepEqual(suggestions.missingWorkflows, []);
+    assert.deepEqual(suggestions.capabilityKeywords, []);
+  });
+});
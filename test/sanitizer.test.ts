@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  DEFAULT_SANITIZATION_RULE_SET,
+  applyChanges,
+  resolveSanitizationRuleSet,
+  sanitizeField,
+} from '../src/sanitizer';
+
+const sanitize = (text: string, ruleSet = DEFAULT_SANITIZATION_RULE_SET) =>
+  sanitizeField(ruleSet, 'messages.1.message', text);
+
+describe('sanitizeField', () => {
+  it('returns null when no rule matches', () => {
+    assert.equal(sanitize('Nothing to rewrite here.'), null);
+  });
+
+  it('records each change as a span of the original text', () => {
+    const text = 'This can reduces churn and streamlining helps.';
+    const result = sanitize(text)!;
+
+    assert.equal(result.after, 'This can reduce churn and reducing helps.');
+    assert.deepEqual(
+      result.changes.map(({ id, ruleId, start, end, original, replacement }) => ({
+        id,
+        ruleId,
+        start,
+        end,
+        original,
+        replacement,
+      })),
+      [
+        {
+          id: 'messages.1.message:5',
+          ruleId: 'grammar.can_reduces',
+          start: 5,
+          end: 16,
+          original: 'can reduces',
+          replacement: 'can reduce',
+        },
+        {
+          id: 'messages.1.message:27',
+          ruleId: 'concrete.streamlining',
+          start: 27,
+          end: 39,
+          original: 'streamlining',
+          replacement: 'reducing',
+        },
+      ]
+    );
+    for (const change of result.changes) {
+      assert.equal(text.slice(change.start, change.end), change.original);
+      assert.equal(change.revertedAt, null);
+    }
+  });
+
+  it('prefers the earlier rule when two match at the same position', () => {
+    const result = sanitize('It streamlines the handoff.')!;
+    assert.equal(result.changes.length, 1);
+    assert.equal(result.changes[0].ruleId, 'concrete.streamlines_the');
+    assert.equal(result.after, 'It reduces friction in handoff.');
+  });
+
+  it('never matches inside a replacement', () => {
+    // "streamlines" becomes "reduces friction in"; nothing rewrites that output again.
+    const result = sanitize('Streamlines the flow.')!;
+    assert.equal(result.after, 'Reduces friction in flow.');
+    assert.equal(result.changes.length, 1);
+  });
+
+  it('matches whole words only by default', () => {
+    assert.equal(sanitize('Our streamlinesque design.'), null);
+  });
+
+  it('keeps the capitalization of the replaced text', () => {
+    assert.equal(sanitize('STREAMLINING everything')!.after, 'REDUCING everything');
+    assert.equal(sanitize('Streamlining everything')!.after, 'Reducing everything');
+  });
+});
+
+describe('resolveSanitizationRuleSet', () => {
+  it('drops disabled built-in rules', () => {
+    const ruleSet = resolveSanitizationRuleSet([{ id: 'concrete.streamlining', enabled: false }]);
+    assert.equal(sanitize('streamlining', ruleSet), null);
+    assert.notEqual(ruleSet.hash, DEFAULT_SANITIZATION_RULE_SET.hash);
+  });
+
+  it('adds tenant phrases as literal text, after the built-in rules', () => {
+    const ruleSet = resolveSanitizationRuleSet([
+      { id: 'tenant.synergy', phrase: 'Synergy 2.0', replacement: 'overlap', preserve_case: false },
+    ]);
+    assert.equal(ruleSet.rules[ruleSet.rules.length - 1].id, 'tenant.synergy');
+    assert.equal(sanitize('Real synergy 2.0 here', ruleSet)!.after, 'Real overlap here');
+    assert.equal(sanitize('Real synergy 2x0 here', ruleSet), null);
+  });
+
+  it('can match inside words when whole_word is off', () => {
+    const ruleSet = resolveSanitizationRuleSet([
+      { id: 'tenant.leverage', phrase: 'leverag', replacement: 'us', whole_word: false },
+    ]);
+    assert.equal(sanitize('Leveraging data', ruleSet)!.after, 'Using data');
+  });
+});
+
+describe('applyChanges', () => {
+  const before = 'This can reduces churn and streamlining helps.';
+  const { changes } = sanitize(before)!;
+
+  it('applies every change when none is reverted', () => {
+    assert.equal(applyChanges(before, changes), 'This can reduce churn and reducing helps.');
+  });
+
+  it('puts back the original text of reverted changes only', () => {
+    const reverted = changes.map((c, i) => (i === 1 ? { ...c, revertedAt: '2026-01-01T00:00:00.000Z' } : c));
+    assert.equal(applyChanges(before, reverted), 'This can reduce churn and streamlining helps.');
+  });
+
+  it('restores the original text when everything is reverted', () => {
+    const reverted = changes.map((c) => ({ ...c, revertedAt: '2026-01-01T00:00:00.000Z' }));
+    assert.equal(applyChanges(before, reverted), before);
+  });
+
+  it('does not depend on the order changes are stored in', () => {
+    assert.equal(applyChanges(before, [...changes].reverse()), applyChanges(before, changes));
+  });
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { exportSequences } from '../src/utils/sequenceExporter';
+import type { ExportableSequence } from '../src/utils/sequenceExporter';
+
+function sequenceWith(message: string): ExportableSequence {
+  return {
+    id: '5b7e2a1c-3d4f-4a6b-8c9d-0e1f2a3b4c5d',
+    prospectUrl: 'https://www.linkedin.com/in/jane-doe',
+    prospectName: 'Jane Doe',
+    companyContext: 'We automate lead qualification',
+    confidence: 0.8,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    analysis: {},
+    messages: [{ step: 2, channel: 'email', subject: 'Lead routing', message, reasoning: 'Signal: dbt' }],
+  };
+}
+
+/** The message column of the single data row. */
+function csvMessage(message: string): string {
+  const { body } = exportSequences([sequenceWith(message)], 'csv', { dayInterval: 3 });
+  const row = body.slice(body.indexOf('\r\n') + 2, -2);
+  return row.split(',').slice(7, -1).join(',');
+}
+
+describe('CSV export', () => {
+  it('writes one row per step under the header', () => {
+    const { body, contentType } = exportSequences([sequenceWith('Hello')], 'csv', { dayInterval: 3 });
+    assert.equal(contentType, 'text/csv; charset=utf-8');
+    assert.equal(
+      body,
+      'sequence_id,prospect_url,prospect_name,step,day_offset,channel,subject,message,reasoning\r\n' +
+        '5b7e2a1c-3d4f-4a6b-8c9d-0e1f2a3b4c5d,https://www.linkedin.com/in/jane-doe,Jane Doe,2,3,email,Lead routing,Hello,Signal: dbt\r\n'
+    );
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    assert.equal(csvMessage('Hi, "Jane"'), '"Hi, ""Jane"""');
+  });
+
+  it('neutralizes cells a spreadsheet would read as a formula', () => {
+    for (const value of ['=HYPERLINK("x")', '+1 555', '-2', '@SUM(A1)', '\t=1', '\r=1']) {
+      assert.ok(csvMessage(value).replace(/^"/, '').startsWith("'"), JSON.stringify(value));
+    }
+    assert.equal(csvMessage('Plain text'), 'Plain text');
+  });
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StreamingJsonParser } from '../src/utils/streamingJsonParser';
+import type { JsonPath } from '../src/utils/streamingJsonParser';
+
+const DOCUMENT = JSON.stringify({
+  analysis: { value_proposition: 'Cuts {manual} triage by 40%', score: 0.875 },
+  messages: [
+    { step: 1, message: 'Hi Ana, saw your "[ops]" post \\ thread', reasoning: 'Opener' },
+    { step: 2, message: 'Café teams ship 12.5x faster', reasoning: 'Proof: -3e-2 churn' },
+  ],
+  confidence: 0.91,
+});
+
+function feed(chunks: string[]): Array<[JsonPath, unknown]> {
+  const values: Array<[JsonPath, unknown]> = [];
+  const parser = new StreamingJsonParser((path, value) => values.push([path, value]));
+  for (const chunk of chunks) parser.push(chunk);
+  assert.equal(parser.text, chunks.join(''));
+  return values;
+}
+
+/** The document split in two at `at`. */
+function splitAt(text: string, at: number): string[] {
+  return [text.slice(0, at), text.slice(at)];
+}
+
+describe('StreamingJsonParser', () => {
+  const whole = feed([DOCUMENT]);
+
+  it('reports each object and array with its path once it closes', () => {
+    const parsed = JSON.parse(DOCUMENT);
+    assert.deepEqual(whole, [
+      [['analysis'], parsed.analysis],
+      [['messages', 0], parsed.messages[0]],
+      [['messages', 1], parsed.messages[1]],
+      [['messages'], parsed.messages],
+      [[], parsed],
+    ]);
+  });
+
+  it('gives the same values when a chunk ends inside a string', () => {
+    for (const marker of ['{manual}', '"[ops]"', 'Café']) {
+      const at = DOCUMENT.indexOf(marker.slice(0, 2)) + 1;
+      assert.deepEqual(feed(splitAt(DOCUMENT, at)), whole, marker);
+    }
+  });
+
+  it('gives the same values when a chunk ends inside an escape sequence', () => {
+    const escapes = ['\\"[ops]', '\\\\ thread'];
+    for (const escape of escapes) {
+      const at = DOCUMENT.indexOf(escape) + 1;
+      assert.equal(DOCUMENT[at - 1], '\\');
+      assert.deepEqual(feed(splitAt(DOCUMENT, at)), whole, escape);
+    }
+  });
+
+  it('gives the same values when a chunk ends inside a number', () => {
+    for (const number of ['0.875', '0.91']) {
+      const at = DOCUMENT.indexOf(number) + 2;
+      assert.deepEqual(feed(splitAt(DOCUMENT, at)), whole, number);
+    }
+  });
+
+  it('gives the same values at every split point and one character at a time', () => {
+    for (let at = 0; at <= DOCUMENT.length; at++) {
+      assert.deepEqual(feed(splitAt(DOCUMENT, at)), whole, `split at ${at}`);
+    }
+    assert.deepEqual(feed([...DOCUMENT]), whole);
+  });
+
+  it('treats brackets, colons and commas inside strings as text', () => {
+    const values = feed(['{"a": "x}, \\"b\\": [1", "b": [', '1, {"c": ":,"}]}']);
+    assert.deepEqual(values, [
+      [['b', 1], { c: ':,' }],
+      [['b'], [1, { c: ':,' }]],
+      [[], { a: 'x}, "b": [1', b: [1, { c: ':,' }] }],
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { mock } from 'node:test';
+import { getPromptTemplate } from '../../src/prompts';
+import type { PromptSettings } from '../../src/services/aiService';
+import { MockLinkedInProvider } from '../../src/utils/linkedinParser';
+import type { ProspectProfile } from '../../src/utils/linkedinParser';
+import { computeMessageStrategy } from '../../src/utils/roleContextStrategy';
+import type { MessageStrategy } from '../../src/utils/roleContextStrategy';
+import { translateTovToDescription } from '../../src/utils/tovTranslator';
+
+export const COMPANY_CONTEXT =
+  'We automate manual enrichment workflows and lead qualification for outbound sales teams';
+
+export const MOCK_PROVIDER_CONFIG = {
+  model: 'mock-model',
+  pricing: { promptCostPer1M: 1, completionCostPer1M: 2 },
+};
+
+export interface GenerationInputs {
+  profile: ProspectProfile;
+  companyContext: string;
+  tov: string;
+  strategy: MessageStrategy;
+  settings: PromptSettings;
+}
+
+/** What sequenceService passes to aiService, for the deterministic mock prospect. */
+export async function generationInputs(promptVersion = 'v5.4'): Promise<GenerationInputs> {
+  const profile = await new MockLinkedInProvider().enrich('https://www.linkedin.com/in/jane-doe');
+  return {
+    profile,
+    companyContext: COMPANY_CONTEXT,
+    tov: translateTovToDescription(0.5, 0.7, 0.6),
+    strategy: computeMessageStrategy(COMPANY_CONTEXT, profile.roleCategory),
+    settings: { template: getPromptTemplate(promptVersion), temperature: 0.5, experiment: null },
+  };
+}
+
+/** The pipeline logs every call; keep test output readable. */
+export function silenceConsole(): void {
+  for (const method of ['log', 'warn', 'error'] as const) {
+    mock.method(console, method, () => {});
+  }
+}
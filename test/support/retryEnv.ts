@@ -0,0 +1,8 @@
+// Read once when aiService and modelRouting load, so this must be imported first.
+process.env.AI_MAX_RETRIES = '2';
+process.env.AI_RETRY_BASE_DELAY_MS = '1';
+process.env.AI_RETRY_MAX_DELAY_MS = '5';
+process.env.AI_REPAIR_ENABLED = 'false';
+process.env.LLM_FALLBACK_MODELS = 'fallback-model';
+delete process.env.LLM_CHEAP_MODEL;
+delete process.env.LLM_STRONG_MODEL;
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { refillTokenBucket, takeToken } from '../src/utils/tokenBucket';
+
+const config = { ratePerMinute: 60, capacity: 10 };
+const start = new Date('2026-01-01T00:00:00Z');
+const at = (ms: number) => new Date(start.getTime() + ms);
+
+describe('refillTokenBucket', () => {
+  it('treats a missing state as a full bucket', () => {
+    assert.deepEqual(refillTokenBucket(null, config, start), { tokens: 10, updatedAt: start });
+  });
+
+  it('refills at the configured rate, capped at capacity', () => {
+    const state = { tokens: 2, updatedAt: start };
+    assert.equal(refillTokenBucket(state, config, at(3_000)).tokens, 5);
+    assert.equal(refillTokenBucket(state, config, at(60_000)).tokens, 10);
+  });
+
+  it('does not drain when the clock goes backwards', () => {
+    const state = { tokens: 4, updatedAt: start };
+    assert.equal(refillTokenBucket(state, config, at(-5_000)).tokens, 4);
+  });
+});
+
+describe('takeToken', () => {
+  it('spends one token and reports whole tokens left', () => {
+    const decision = takeToken({ tokens: 3.5, updatedAt: start }, config, start);
+    assert.equal(decision.allowed, true);
+    assert.equal(decision.state.tokens, 2.5);
+    assert.equal(decision.remaining, 2);
+    assert.equal(decision.retryAfterSeconds, 0);
+  });
+
+  it('allows a full burst, then rejects', () => {
+    let state = null;
+    for (let i = 0; i < config.capacity; i++) {
+      const decision = takeToken(state, config, start);
+      assert.equal(decision.allowed, true);
+      state = decision.state;
+    }
+    const rejected = takeToken(state, config, start);
+    assert.equal(rejected.allowed, false);
+    assert.equal(rejected.remaining, 0);
+  });
+
+  it('rounds the retry delay up to the next whole token, at least one second', () => {
+    const slow = { ratePerMinute: 2, capacity: 1 };
+    assert.equal(takeToken({ tokens: 0.5, updatedAt: start }, slow, start).retryAfterSeconds, 15);
+    assert.equal(takeToken({ tokens: 0.99, updatedAt: start }, config, start).retryAfterSeconds, 1);
+  });
+
+  it('keeps the refilled state when rejecting', () => {
+    const decision = takeToken({ tokens: 0, updatedAt: start }, config, at(500));
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.state.tokens, 0.5);
+    assert.deepEqual(decision.state.updatedAt, at(500));
+  });
+});
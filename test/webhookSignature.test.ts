@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { signWebhookPayload, verifyWebhookSignature } from '../src/utils/webhookSignature';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({ event: 'sequence.created', data: { id: 'seq_1' } });
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('signWebhookPayload', () => {
+  it('is HMAC-SHA256 over "<timestamp>.<body>"', () => {
+    const expected = createHmac('sha256', secret).update(`1700000000.${body}`).digest('hex');
+    assert.equal(signWebhookPayload(secret, 1700000000, body), `sha256=${expected}`);
+  });
+
+  it('changes with the timestamp', () => {
+    assert.notEqual(signWebhookPayload(secret, 1, body), signWebhookPayload(secret, 2, body));
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  it('accepts a fresh, matching signature', () => {
+    const timestamp = now();
+    assert.equal(verifyWebhookSignature(secret, signWebhookPayload(secret, timestamp, body), timestamp, body), true);
+  });
+
+  it('rejects a different secret, body or timestamp', () => {
+    const timestamp = now();
+    const signature = signWebhookPayload(secret, timestamp, body);
+    assert.equal(verifyWebhookSignature('other', signature, timestamp, body), false);
+    assert.equal(verifyWebhookSignature(secret, signature, timestamp, `${body} `), false);
+    assert.equal(verifyWebhookSignature(secret, signature, timestamp - 1, body), false);
+  });
+
+  it('rejects timestamps outside the tolerance', () => {
+    const old = now() - 301;
+    assert.equal(verifyWebhookSignature(secret, signWebhookPayload(secret, old, body), old, body), false);
+    assert.equal(verifyWebhookSignature(secret, signWebhookPayload(secret, old, body), old, body, 600), true);
+    assert.equal(verifyWebhookSignature(secret, 'sha256=', Number.NaN, body), false);
+  });
+
+  it('rejects malformed signatures without throwing', () => {
+    const timestamp = now();
+    assert.equal(verifyWebhookSignature(secret, 'sha256=short', timestamp, body), false);
+    assert.equal(verifyWebhookSignature(secret, '', timestamp, body), false);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffLines, diffWords } from '../src/utils/wordDiff';
+
+describe('diffWords', () => {
+  it('reports identical text as one equal segment', () => {
+    assert.deepEqual(diffWords('same  words\nhere', 'same words here'), {
+      segments: [{ type: 'equal', text: 'same words here' }],
+      stats: { added: 0, removed: 0, unchanged: 3 },
+    });
+  });
+
+  it('merges neighbouring tokens of the same kind', () => {
+    const diff = diffWords('we cut review time for teams', 'we halve the review time for teams');
+    assert.deepEqual(diff.segments, [
+      { type: 'equal', text: 'we' },
+      { type: 'removed', text: 'cut' },
+      { type: 'added', text: 'halve the' },
+      { type: 'equal', text: 'review time for teams' },
+    ]);
+    assert.deepEqual(diff.stats, { added: 2, removed: 1, unchanged: 5 });
+  });
+
+  it('handles empty input on either side', () => {
+    assert.deepEqual(diffWords('', 'new text'), {
+      segments: [{ type: 'added', text: 'new text' }],
+      stats: { added: 2, removed: 0, unchanged: 0 },
+    });
+    assert.deepEqual(diffWords('old text', '').segments, [{ type: 'removed', text: 'old text' }]);
+  });
+
+  it('rebuilds both texts from its segments', () => {
+    const before = 'Hi Jane, saw your talk on data contracts last week';
+    const after = 'Hi Jane, loved your talk on schema contracts at the meetup';
+    const { segments } = diffWords(before, after);
+    const side = (skip: string) =>
+      segments.filter((s) => s.type !== skip).map((s) => s.text).join(' ');
+    assert.equal(side('added'), before);
+    assert.equal(side('removed'), after);
+  });
+});
+
+describe('diffLines', () => {
+  it('diffs whole lines and keeps line breaks inside segments', () => {
+    const diff = diffLines('one\ntwo\nthree', 'one\n2\nthree\nfour\nfive');
+    assert.deepEqual(diff.segments, [
+      { type: 'equal', text: 'one' },
+      { type: 'removed', text: 'two' },
+      { type: 'added', text: '2' },
+      { type: 'equal', text: 'three' },
+      { type: 'added', text: 'four\nfive' },
+    ]);
+    assert.deepEqual(diff.stats, { added: 3, removed: 1, unchanged: 2 });
+  });
+});